@@ -21,6 +21,24 @@ const baseConfig = {
   dts: true,
 };
 
+/**
+ * The `nodx/jsx-runtime` and `nodx/jsx-dev-runtime` entry points are built with the main
+ * entry point, and the code they share is split into chunks instead of being bundled in each
+ * of them, so nodes created with JSX and with the helpers share the same classes (`instanceof`
+ * checks such as the ones of contexts keep working).
+ *
+ * @type {import('tsup').Options}
+ */
+const rawConfig = {
+  ...baseConfig,
+  entry: [
+    "./src/index.ts",
+    "./src/jsx-runtime.ts",
+    "./src/jsx-dev-runtime.ts",
+  ],
+  splitting: true,
+};
+
 /**
  * @type {import('tsup').Options}
  */
@@ -31,13 +49,10 @@ const minConfig = {
 };
 
 await fse.remove("./dist");
-await build(baseConfig);
+await build(rawConfig);
 await build(minConfig);
 
-await fse.move("./dist/raw/index.js", "./dist/index.js");
-await fse.move("./dist/raw/index.mjs", "./dist/index.mjs");
-await fse.move("./dist/raw/index.d.ts", "./dist/index.d.ts");
-await fse.move("./dist/raw/index.d.mts", "./dist/index.d.mts");
+await fse.copy("./dist/raw", "./dist");
 await fse.remove("./dist/raw");
 
 await fse.move("./dist/min/index.js", "./dist/index.min.js");
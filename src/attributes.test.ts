@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  alt,
+  checked,
+  classAttr,
+  disabled,
+  forAttr,
+  href,
+  id,
+  readonly,
+  required,
+  selected,
+  src,
+  type,
+  value,
+} from "./attributes.js";
+import { a, button, div, img, input, label, li, option } from "./elements.js";
+import { attr, classx, ifx, Node, stylex, text, trustedUrl } from "./nodx.js";
+
+describe("Boolean attribute helpers", () => {
+  const helpers: Array<[string, (value?: boolean) => Node]> = [
+    ["checked", checked],
+    ["disabled", disabled],
+    ["selected", selected],
+    ["readonly", readonly],
+    ["required", required],
+  ];
+
+  describe.each(helpers)("%s", (name, helper) => {
+    it("Renders the bare attribute by default", () => {
+      expect(helper().render()).toBe(` ${name}`);
+    });
+
+    it("Renders the bare attribute when true", () => {
+      expect(helper(true).render()).toBe(` ${name}`);
+    });
+
+    it("Renders nothing when false", () => {
+      expect(helper(false).render()).toBe("");
+    });
+
+    it("Renders the name as value in XHTML", () => {
+      expect(helper(true).render({ syntax: "xhtml" })).toBe(
+        ` ${name}="${name}"`,
+      );
+      expect(helper(false).render({ syntax: "xhtml" })).toBe("");
+    });
+  });
+});
+
+describe("URL attribute helpers", () => {
+  it("Accept plain and trusted URLs", () => {
+    expect(href("/home").render()).toBe(' href="/home"');
+    expect(src(trustedUrl("blob:https://example.com/id")).render()).toBe(
+      ' src="blob:https://example.com/id"',
+    );
+  });
+});
+
+describe("Typed attributes", () => {
+  it("Accepts the attributes valid on each element", () => {
+    const node = div(
+      id("main"),
+      classx("card"),
+      stylex({ color: "red" }),
+      img(src("/a.png"), alt("A"), classAttr("logo")),
+      a(href("/home"), text("Home")),
+      label(forAttr("email"), text("Email")),
+      input(type("email"), value("a@b.c"), checked(false)),
+      button(type("submit"), disabled(), text("Send")),
+      li(value("3")),
+      option(value("x"), text("X")),
+    );
+    expect(node.render()).toBe(
+      '<div id="main" class="card" style="color: red">' +
+        '<img src="/a.png" alt="A" class="logo">' +
+        '<a href="/home">Home</a>' +
+        '<label for="email">Email</label>' +
+        '<input type="email" value="a@b.c">' +
+        '<button type="submit" disabled>Send</button>' +
+        '<li value="3"></li>' +
+        '<option value="x">X</option>' +
+        "</div>",
+    );
+  });
+
+  it("Rejects attributes that are not valid on the element at compile time", () => {
+    // Type errors are checked by `tsc`, the nodes still render at runtime.
+    // @ts-expect-error href is not valid on img
+    expect(img(href("/a")).render()).toBe('<img href="/a">');
+    // @ts-expect-error checked is only valid on input
+    expect(div(id("a"), checked()).render()).toBe('<div id="a" checked></div>');
+    // @ts-expect-error alt is not valid on a
+    expect(a(alt("x"), text("x")).render()).toBe('<a alt="x">x</a>');
+  });
+
+  it("Accepts untagged attributes on every element", () => {
+    expect(img(attr("href", "/a")).render()).toBe('<img href="/a">');
+    expect(div(ifx(true, checked())).render()).toBe("<div checked></div>");
+  });
+});
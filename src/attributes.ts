@@ -1,77 +1,106 @@
-import { attr, Node } from "./nodx.js";
-
-export function id(value: string): Node {
+/**
+ * Helpers for common HTML attributes.
+ *
+ * Each helper returns an `AttributeNode` tagged with the elements the attribute is valid on, so
+ * element helpers reject attributes that do not belong to them (`img(href("/"))` does not
+ * compile). Use `attr()` for any other attribute, it is accepted by every element.
+ */
+import { attr, AttributeNode, GlobalAttribute, SafeUrl } from "./nodx.js";
+
+export function id(value: string): GlobalAttribute {
   return attr("id", value);
 }
 
-export function classAttr(value: string): Node {
+export function classAttr(value: string): GlobalAttribute {
   return attr("class", value);
 }
 
-export function style(value: string): Node {
+export function style(value: string): GlobalAttribute {
   return attr("style", value);
 }
 
-export function src(value: string): Node {
+export function src(value: string | SafeUrl): AttributeNode<
+  "audio" | "embed" | "iframe" | "img" | "input" | "script" | "source" | "track" | "video"
+> {
   return attr("src", value);
 }
 
-export function href(value: string): Node {
+export function href(value: string | SafeUrl): AttributeNode<"a" | "area" | "base" | "link"> {
   return attr("href", value);
 }
 
-export function alt(value: string): Node {
+export function alt(value: string): AttributeNode<"area" | "img" | "input"> {
   return attr("alt", value);
 }
 
-export function type(value: string): Node {
+export function type(value: string): AttributeNode<
+  "a" | "button" | "embed" | "input" | "link" | "object" | "ol" | "script" | "source" | "style"
+> {
   return attr("type", value);
 }
 
-export function value(value: string): Node {
+export function value(value: string): AttributeNode<
+  "button" | "data" | "input" | "li" | "meter" | "option" | "progress"
+> {
   return attr("value", value);
 }
 
-export function placeholder(value: string): Node {
+export function placeholder(value: string): AttributeNode<"input" | "textarea"> {
   return attr("placeholder", value);
 }
 
-export function checked(value: string): Node {
+export function checked(value: boolean = true): AttributeNode<"input"> {
   return attr("checked", value);
 }
 
-export function disabled(value: string): Node {
+export function disabled(value: boolean = true): AttributeNode<
+  "button" | "fieldset" | "input" | "link" | "optgroup" | "option" | "select" | "textarea"
+> {
   return attr("disabled", value);
 }
 
-export function selected(value: string): Node {
+export function selected(value: boolean = true): AttributeNode<"option"> {
   return attr("selected", value);
 }
 
-export function readonly(value: string): Node {
+export function readonly(value: boolean = true): AttributeNode<"input" | "textarea"> {
   return attr("readonly", value);
 }
 
-export function required(value: string): Node {
+export function required(value: boolean = true): AttributeNode<"input" | "select" | "textarea"> {
   return attr("required", value);
 }
 
-export function min(value: string): Node {
+export function min(value: string): AttributeNode<"input" | "meter"> {
   return attr("min", value);
 }
 
-export function max(value: string): Node {
+export function max(value: string): AttributeNode<"input" | "meter" | "progress"> {
   return attr("max", value);
 }
 
-export function step(value: string): Node {
+export function step(value: string): AttributeNode<"input"> {
   return attr("step", value);
 }
 
-export function forAttr(value: string): Node {
+export function forAttr(value: string): AttributeNode<"label" | "output"> {
   return attr("for", value);
 }
 
-export function name(value: string): Node {
+export function name(value: string): AttributeNode<
+  | "button"
+  | "details"
+  | "fieldset"
+  | "form"
+  | "iframe"
+  | "input"
+  | "map"
+  | "meta"
+  | "object"
+  | "output"
+  | "select"
+  | "slot"
+  | "textarea"
+> {
   return attr("name", value);
 }
@@ -0,0 +1,89 @@
+import { bench, describe } from "vitest";
+import { compileTemplate, precompile } from "./compile.js";
+import {
+  a,
+  body,
+  div,
+  footer,
+  h1,
+  header,
+  li,
+  main,
+  nav,
+  p,
+  ul,
+} from "./elements.js";
+import { href } from "./attributes.js";
+import { classx, mapx, Node, text } from "./nodx.js";
+
+/**
+ * A layout where everything but the main content is static, like most pages.
+ */
+const links = Array.from({ length: 20 }, (_, i) => `/section-${i}?ref=nav&lang=en`);
+
+function menu(): Node {
+  return nav(
+    classx("menu", "menu-main"),
+    ul(mapx(links, (link) => li(classx("item"), a(href(link), text(`Section "${link}"`))))),
+  );
+}
+
+function siteFooter(): Node {
+  return footer(
+    classx("footer"),
+    mapx(links, (link) => p(text(`© nodx & contributors — ${link}`))),
+  );
+}
+
+function content(title: string): Node {
+  return main(h1(text(title)), p(text(`Welcome to <${title}>`)));
+}
+
+const staticMenu = precompile(menu());
+const staticFooter = precompile(siteFooter());
+
+const layout = compileTemplate<{ content: Node }>((hole) =>
+  body(div(classx("page"), header(menu()), hole("content"), siteFooter()))
+);
+
+describe("Layout with static header and footer", () => {
+  bench("render()", () => {
+    body(div(classx("page"), header(menu()), content("Page"), siteFooter())).render();
+  });
+
+  bench("precompile()", () => {
+    body(div(classx("page"), header(staticMenu), content("Page"), staticFooter)).render();
+  });
+
+  bench("compileTemplate()", () => {
+    layout({ content: content("Page") }).render();
+  });
+});
+
+const rowCount = 100;
+
+function rows(): Node {
+  return ul(
+    mapx(Array.from({ length: rowCount }, (_, i) => i), (i) =>
+      li(classx("row"), a(href(`/items/${i}`), text(`Item ${i}`)))
+    ),
+  );
+}
+
+const row = compileTemplate<{ link: Node; name: string }>((hole) =>
+  li(classx("row"), a(hole("link"), hole("name")))
+);
+
+describe("List of rows with holes", () => {
+  bench("render()", () => {
+    rows().render();
+  });
+
+  bench("compileTemplate()", () => {
+    ul(
+      mapx(Array.from({ length: rowCount }, (_, i) => i), (i) =>
+        row({ link: href(`/items/${i}`), name: `Item ${i}` })
+      ),
+    ).render();
+  });
+});
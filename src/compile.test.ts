@@ -0,0 +1,201 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { compileTemplate, precompile } from "./compile.js";
+import { a, div, footer, img, li, nav, p, script, ul } from "./elements.js";
+import { alt, href, src } from "./attributes.js";
+import { headStylesheet } from "./document.js";
+import {
+  asyncx,
+  attr,
+  classx,
+  createContext,
+  el,
+  group,
+  Node,
+  NodeRenderError,
+  renderAsync,
+  renderStream,
+  text,
+} from "./nodx.js";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+/**
+ * Creates a custom node that counts how many times it is rendered.
+ */
+function counter(html: string): { node: Node; renders: () => number } {
+  let renders = 0;
+  return {
+    node: {
+      render: () => {
+        renders++;
+        return html;
+      },
+    },
+    renders: () => renders,
+  };
+}
+
+describe("precompile", () => {
+  const menu = nav(
+    classx("menu"),
+    ul(
+      li(a(href("/"), text("Home"))),
+      li(a(href("/docs?a&b"), text("Docs & guides"))),
+    ),
+    img(src("/logo.png"), alt("Logo")),
+  );
+
+  it("Renders like the original node", () => {
+    const node = precompile(menu);
+    expect(node.render()).toBe(menu.render());
+    expect(div(node).render()).toBe(div(menu).render());
+    expect(node.render({ syntax: "xhtml" })).toBe(menu.render({ syntax: "xhtml" }));
+    expect(node.render({ format: "pretty" })).toBe(menu.render({ format: "pretty" }));
+    expect(div(node).render({ format: "minify" })).toBe(div(menu).render({ format: "minify" }));
+  });
+
+  it("Renders the node once per syntax", () => {
+    const { node, renders } = counter("<b>static</b>");
+    const cached = precompile(p(node));
+    expect(div(cached).render()).toBe("<div><p><b>static</b></p></div>");
+    expect(div(cached).render()).toBe("<div><p><b>static</b></p></div>");
+    expect(renders()).toBe(1);
+
+    cached.render({ syntax: "xhtml" });
+    cached.render({ syntax: "xhtml" });
+    expect(renders()).toBe(2);
+  });
+
+  it("Renders with the async renderers", async () => {
+    const node = div(precompile(menu), asyncx(async () => p(text("async"))));
+    const expected = div(menu, p(text("async"))).render();
+    expect(await renderAsync(node)).toBe(expected);
+
+    const chunks: string[] = [];
+    for await (const chunk of renderStream(node)) chunks.push(chunk);
+    expect(chunks.join("")).toBe(expected);
+  });
+
+  it("Contributes the attributes of fragments", () => {
+    const node = precompile(group(attr("id", "main"), text("content")));
+    expect(div(node).render()).toBe('<div id="main">content</div>');
+  });
+
+  it("Rejects nodes that depend on render time", () => {
+    const theme = createContext("light");
+    expect(() => precompile(div(theme.consume((value) => text(value))))).toThrow(
+      "nodx: precompile() cannot cache nodes that read a context",
+    );
+    expect(() => precompile(div(asyncx(async () => text("a"))))).toThrow(
+      "nodx: precompile() cannot cache async nodes",
+    );
+    expect(() => precompile(div(headStylesheet("/nav.css"), text("Nav")))).toThrow(
+      "nodx: precompile() cannot cache head entries, they are hoisted on every render",
+    );
+  });
+});
+
+describe("compileTemplate", () => {
+  const row = compileTemplate<{ name: string; link: Node; extra?: Node | null }>((hole) =>
+    li(classx("row"), a(hole("link"), hole("name")), hole("extra"))
+  );
+
+  it("Fills the holes with values", () => {
+    const got = row({ name: "Docs", link: href("/docs"), extra: p(text("New")) }).render();
+    expect(got).toBe('<li class="row"><a href="/docs">Docs</a><p>New</p></li>');
+  });
+
+  it("Escapes string values and skips empty ones", () => {
+    const got = row({ name: "<b>Tom</b>", link: href("javascript:alert(1)"), extra: null });
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    expect(got.render()).toBe(
+      '<li class="row"><a href="about:invalid#nodx-unsafe-url">&lt;b&gt;Tom&lt;/b&gt;</a></li>',
+    );
+  });
+
+  it("Renders like the same tree built without holes", () => {
+    const values = { name: "Docs", link: group(href("/docs"), classx("x")), extra: text("!") };
+    const tree = li(classx("row"), a(values.link, text(values.name)), values.extra);
+    for (const syntax of ["html", "xhtml", "xml"] as const) {
+      expect(row(values).render({ syntax })).toBe(tree.render({ syntax }));
+    }
+    expect(row(values).render({ format: "pretty" })).toBe(tree.render({ format: "pretty" }));
+  });
+
+  it("Renders the static markup once per syntax", () => {
+    const { node, renders } = counter("<i>static</i>");
+    const template = compileTemplate<{ value: string }>((hole) => div(node, hole("value")));
+    expect(template({ value: "a" }).render()).toBe("<div><i>static</i>a</div>");
+    expect(template({ value: "b" }).render()).toBe("<div><i>static</i>b</div>");
+    expect(renders()).toBe(1);
+  });
+
+  it("Fills the same hole in several places", () => {
+    const template = compileTemplate<{ label: string }>((hole) =>
+      div(p(hole("label")), p(hole("label")))
+    );
+    expect(template({ label: "x" }).render()).toBe("<div><p>x</p><p>x</p></div>");
+  });
+
+  it("Only fills attributes in void elements", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const template = compileTemplate<{ source: Node }>((hole) => img(hole("source"), alt("")));
+    expect(template({ source: src("/a.png") }).render()).toBe('<img src="/a.png" alt="">');
+    expect(warn).not.toHaveBeenCalled();
+
+    const feed = compileTemplate<{ url: string }>((hole) => el("link", hole("url")));
+    expect(feed({ url: "https://example.com/" }).render({ syntax: "xml" })).toBe(
+      "<link>https://example.com/</link>",
+    );
+  });
+
+  it("Renders async values with the async renderers", async () => {
+    const template = compileTemplate<{ content: Node }>((hole) =>
+      div(p(hole("content")), footer(text("static")))
+    );
+    const node = template({ content: asyncx(async () => text("async")) });
+    const expected = "<div><p>async</p><footer>static</footer></div>";
+    expect(await renderAsync(node)).toBe(expected);
+    expect(await renderAsync(div(node))).toBe(`<div>${expected}</div>`);
+
+    const chunks: string[] = [];
+    for await (const chunk of renderStream(node)) chunks.push(chunk);
+    expect(chunks.join("")).toBe(expected);
+  });
+
+  it("Reports the path of failing async values", async () => {
+    const template = compileTemplate<{ content: Node }>((hole) => div(p(hole("content"))));
+    const node = template({
+      content: asyncx(async () => {
+        throw new Error("boom");
+      }),
+    });
+    const error = await renderAsync(ul(node)).catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(NodeRenderError);
+    expect((error as NodeRenderError).path).toEqual(["ul", "div", "p"]);
+  });
+
+  it("Keeps private-use characters of static text", () => {
+    const glyphs = "\uE0000\uE001 \uE0029\uE001";
+    const template = compileTemplate<{ value: string }>((hole) =>
+      div(p(text(glyphs)), attr("title", glyphs), hole("value"))
+    );
+    const got = template({ value: "a" }).render();
+    expect(got).toBe(`<div title="${glyphs}"><p>${glyphs}</p>a</div>`);
+  });
+
+  it("Rejects misplaced holes and nodes that depend on render time", () => {
+    const theme = createContext("light");
+    expect(() => compileTemplate((hole) => script(hole("code")))).toThrow(
+      "nodx: compileTemplate() holes cannot be placed in <script> content",
+    );
+    expect(() => compileTemplate((hole) => theme.provide("dark", hole("content")))).toThrow(
+      "nodx: compileTemplate() holes cannot be placed inside Context.provide()",
+    );
+    expect(() => compileTemplate(() => div(theme.consume((value) => text(value))))).toThrow(
+      "nodx: compileTemplate() cannot cache nodes that read a context",
+    );
+  });
+});
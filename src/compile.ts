@@ -0,0 +1,433 @@
+import { NodeHead } from "./document.js";
+import { formatHtml } from "./format.js";
+import {
+  Node,
+  NodeAsync,
+  NodeConsumer,
+  NodeElement,
+  NodeProvider,
+  RenderOptions,
+  renderNodeAttributes,
+  renderNodeContent,
+  renderNodeContentAsync,
+  text,
+} from "./nodx.js";
+
+/**
+ * The markers rendered in place of the holes of a compiled template, around a nonce and the id
+ * of the hole. They use private-use characters, which are never escaped. Static text can contain
+ * these characters (e.g. icon font glyphs), the nonce drawn for each template keeps it from
+ * being taken for a hole.
+ */
+const contentMarker = "\uE000";
+const attributesMarker = "\uE002";
+const markerEnd = "\uE001";
+
+function markerPattern(nonce: string): RegExp {
+  return new RegExp(`([\uE000\uE002])${nonce}-(\\d+)\uE001`, "g");
+}
+
+/**
+ * Returns the key of the render options that change the markup of a cached node. The other
+ * options do not: `format` is applied to the whole markup and `context` cannot be read by the
+ * nodes that are cached.
+ */
+function cacheKey(options: RenderOptions): string {
+  return `${options.syntax ?? "html"}:${String(options.mergeAttributes !== false)}`;
+}
+
+/**
+ * A node whose markup is rendered once and cached, see `precompile()`.
+ *
+ * @implements {Node}
+ */
+export class NodeStatic implements Node {
+  private readonly node: Node;
+  private readonly cache = new Map<string, string>();
+
+  /**
+   * Creates a new precompiled node. Prefer the `precompile()` helper.
+   *
+   * @param {Node} node - The static node.
+   * @throws {Error} If the node is not static.
+   */
+  constructor(node: Node) {
+    checkStatic(node, "precompile()", []);
+    this.node = node;
+  }
+
+  /**
+   * Renders the node, from the cache after the first render with the same syntax.
+   *
+   * @param {RenderOptions} options - The options to control how the node is rendered.
+   * @returns {string} The string representation of the node.
+   */
+  render(options: RenderOptions = {}): string {
+    if (options.format !== undefined) {
+      return formatHtml(this.render({ ...options, format: undefined }), options);
+    }
+    return this.cached("render", options, () => this.node.render(options));
+  }
+
+  /**
+   * Renders the attributes the node contributes to its parent element. They are not merged
+   * with the other attributes of the parent element, like the ones of custom nodes.
+   *
+   * @param {RenderOptions} options - The options to control how the attributes are rendered.
+   * @returns {string} The attributes contributed by the node.
+   */
+  renderAttributes(options: RenderOptions = {}): string {
+    return this.cached("attributes", options, () => renderNodeAttributes(this.node, options));
+  }
+
+  /**
+   * Renders the content the node contributes to its parent element, from the cache after the
+   * first render with the same syntax.
+   *
+   * @param {RenderOptions} options - The options to control how the content is rendered.
+   * @returns {string} The content contributed by the node.
+   */
+  renderContent(options: RenderOptions = {}): string {
+    return this.cached("content", options, () => renderNodeContent(this.node, options));
+  }
+
+  private cached(part: string, options: RenderOptions, render: () => string): string {
+    const key = `${part}:${cacheKey(options)}`;
+    let html = this.cache.get(key);
+    if (html === undefined) {
+      html = render();
+      this.cache.set(key, html);
+    }
+    return html;
+  }
+}
+
+/**
+ * Precompiles a static subtree: its markup is rendered once per syntax and cached, and later
+ * renders splice the cached markup instead of walking and escaping the subtree again. Use it
+ * for the invariant parts of layouts, such as headers, footers and navigation menus.
+ *
+ * The subtree must not change after it is precompiled, and cannot contain nodes that depend
+ * on render time: context consumers (`Context.consume()`), head entries (`headTitle()`...),
+ * which are hoisted into the page head on every render, async nodes and custom nodes with
+ * `renderAsync`. Custom nodes that read a context (`Context.read()`) cannot be detected, but
+ * must not be precompiled either: the cached markup is the one of the first render. Use
+ * `compileTemplate()` for subtrees with parts that change on every render.
+ *
+ * Example usage:
+ * ```typescript
+ * const footer = precompile(el("footer", el("p", text("© nodx"))));
+ * const layout = (content: Node) => el("body", el("main", content), footer);
+ * layout(text("Page")).render(); // The footer is rendered once, on the first render.
+ * ```
+ *
+ * @param {Node} node - The static subtree.
+ * @returns {NodeStatic} The precompiled node.
+ * @throws {Error} If the subtree contains nodes that depend on render time.
+ */
+export function precompile(node: Node): NodeStatic {
+  return new NodeStatic(node);
+}
+
+/**
+ * A value filled into a hole of a compiled template: a node, or a string rendered as escaped
+ * text. `null` and `undefined` render nothing.
+ */
+export type TemplateHoleValue = Node | string | null | undefined;
+
+/**
+ * The values of the holes of a compiled template, by hole name.
+ */
+export type TemplateHoleValues = Record<string, TemplateHoleValue>;
+
+/**
+ * Marks a hole of a compiled template, see `compileTemplate()`.
+ */
+export type TemplateHoleFactory<T extends TemplateHoleValues> = (name: keyof T & string) => Node;
+
+/**
+ * A compiled template, which fills its holes with the given values, see `compileTemplate()`.
+ */
+export type CompiledTemplate<T extends TemplateHoleValues> = (values: T) => Node;
+
+/**
+ * A hole of a compiled template. It renders a marker with its id in place of its attributes
+ * and its content, which is replaced with the ones of the value of the hole.
+ */
+class TemplateHole implements Node {
+  readonly id: number;
+  readonly name: string;
+  readonly nonce: string;
+
+  /**
+   * The tag names of the ancestors of the hole, used for error reporting.
+   */
+  path: string[] = [];
+
+  /**
+   * Whether the hole is a child of a void element, which only accepts attributes in the
+   * `"html"` and `"xhtml"` syntaxes.
+   */
+  attributesOnly = false;
+
+  constructor(id: number, name: string, nonce: string) {
+    this.id = id;
+    this.name = name;
+    this.nonce = nonce;
+  }
+
+  render(options: RenderOptions = {}): string {
+    return this.renderContent(options);
+  }
+
+  renderAttributes(): string {
+    return `${attributesMarker}${this.nonce}-${this.id}${markerEnd}`;
+  }
+
+  renderContent(options: RenderOptions = {}): string {
+    // Void elements are regular elements in the `"xml"` syntax.
+    return this.attributesOnly && options.syntax !== "xml"
+      ? ""
+      : `${contentMarker}${this.nonce}-${this.id}${markerEnd}`;
+  }
+}
+
+/**
+ * A part of the markup of a compiled template: static markup, or the attributes or the content
+ * of the value of a hole.
+ */
+type TemplatePart = string | { hole: TemplateHole; attributes: boolean };
+
+/**
+ * The tree of a compiled template, with its markup split into parts and cached by syntax.
+ */
+class Template {
+  private readonly root: Node;
+  private readonly holes: TemplateHole[];
+  private readonly nonce: string;
+  private readonly cache = new Map<string, TemplatePart[]>();
+
+  constructor(root: Node, holes: TemplateHole[], nonce: string) {
+    this.root = root;
+    this.holes = holes;
+    this.nonce = nonce;
+  }
+
+  parts(options: RenderOptions): TemplatePart[] {
+    const key = cacheKey(options);
+    let parts = this.cache.get(key);
+    if (parts === undefined) {
+      parts = [];
+      const html = renderNodeContent(this.root, options);
+      const pattern = markerPattern(this.nonce);
+      let last = 0;
+      let match = pattern.exec(html);
+      while (match !== null) {
+        const hole = this.holes[Number(match[2])];
+        if (hole !== undefined) {
+          // A marker without hole is static text, it is kept in the next static part.
+          if (match.index > last) parts.push(html.slice(last, match.index));
+          parts.push({ hole, attributes: match[1] === attributesMarker });
+          last = match.index + match[0].length;
+        }
+        match = pattern.exec(html);
+      }
+      if (last < html.length) parts.push(html.slice(last));
+      this.cache.set(key, parts);
+    }
+    return parts;
+  }
+}
+
+/**
+ * A compiled template filled with values, see `compileTemplate()`.
+ *
+ * @implements {Node}
+ */
+class NodeCompiled implements Node {
+  private readonly template: Template;
+  private readonly values: TemplateHoleValues;
+
+  /**
+   * Creates a new filled template.
+   *
+   * @param {Template} template - The compiled template.
+   * @param {TemplateHoleValues} values - The values of the holes, by name.
+   */
+  constructor(template: Template, values: TemplateHoleValues) {
+    this.template = template;
+    this.values = values;
+  }
+
+  /**
+   * Renders the template, filling its holes with their values.
+   *
+   * @param {RenderOptions} options - The options to control how the template is rendered.
+   * @returns {string} The string representation of the template.
+   */
+  render(options: RenderOptions = {}): string {
+    if (options.format !== undefined) {
+      return formatHtml(this.render({ ...options, format: undefined }), options);
+    }
+
+    let html = "";
+    for (const part of this.template.parts(options)) {
+      if (typeof part === "string") {
+        html += part;
+        continue;
+      }
+      const value = this.valueOf(part.hole);
+      html += part.attributes
+        ? renderNodeAttributes(value, options)
+        : renderNodeContent(value, options);
+    }
+    return html;
+  }
+
+  /**
+   * Templates contribute no attributes to their parent element.
+   *
+   * @returns {string} An empty string.
+   */
+  renderAttributes(): string {
+    return "";
+  }
+
+  /**
+   * Renders the template as content of its parent element.
+   *
+   * @param {RenderOptions} options - The options to control how the template is rendered.
+   * @returns {string} The string representation of the template.
+   */
+  renderContent(options: RenderOptions = {}): string {
+    return this.render(options);
+  }
+
+  /**
+   * Renders the template, awaiting the async nodes of the values of its holes. They are
+   * resolved concurrently.
+   *
+   * @param {RenderOptions} options - The options to control how the template is rendered.
+   * @param {string[]} path - The tag names of the ancestors of the template, used for error reporting.
+   * @returns {Promise<string>} The string representation of the template.
+   */
+  async renderAsync(options: RenderOptions = {}, path: string[] = []): Promise<string> {
+    if (options.format !== undefined) {
+      const html = await this.renderAsync({ ...options, format: undefined }, path);
+      return formatHtml(html, options);
+    }
+
+    const parts = this.template.parts(options).map(async (part) => {
+      if (typeof part === "string") return part;
+      const value = this.valueOf(part.hole);
+      return part.attributes
+        ? renderNodeAttributes(value, options)
+        : await renderNodeContentAsync(value, options, [...path, ...part.hole.path]);
+    });
+    return (await Promise.all(parts)).join("");
+  }
+
+  private valueOf(hole: TemplateHole): Node {
+    const value = this.values[hole.name];
+    if (value === null || value === undefined) return text("");
+    return typeof value === "string" ? text(value) : value;
+  }
+}
+
+/**
+ * Compiles a template with holes: the template is built once, its static markup is rendered
+ * once per syntax, and each render only fills the holes with their values. Use it for the
+ * components rendered many times with different data, such as the rows of a list.
+ *
+ * The `build` function receives a `hole` function, which marks a hole by name. A hole can be
+ * placed anywhere a child node can: its value contributes content (nodes, or strings rendered
+ * as escaped text) or attributes (attribute nodes such as `attr()` or `classx()`). Attributes
+ * filled into holes are not merged with the static attributes of their element.
+ *
+ * The static parts of the template follow the rules of `precompile()`, and holes cannot be
+ * placed in `<script>` and `<style>` elements, whose content is guarded as a whole, or inside
+ * `Context.provide()`, as the values are rendered with the options of the template.
+ *
+ * Example usage:
+ * ```typescript
+ * const row = compileTemplate<{ name: string; link: Node }>((hole) =>
+ *   el("li", classx("row"), el("a", hole("link"), hole("name")))
+ * );
+ * row({ name: "Docs", link: attr("href", "/docs") }).render();
+ * // Output: '<li class="row"><a href="/docs">Docs</a></li>'
+ * ```
+ *
+ * @param {Function} build - Builds the template, marking its holes with `hole(name)`.
+ * @returns {CompiledTemplate} A function filling the holes with values, by name.
+ * @throws {Error} If the template contains nodes that depend on render time or misplaced holes.
+ */
+export function compileTemplate<T extends TemplateHoleValues>(
+  build: (hole: TemplateHoleFactory<T>) => Node,
+): CompiledTemplate<T> {
+  const holes: TemplateHole[] = [];
+  const nonce = Math.random().toString(36).slice(2);
+  const root = build((name) => {
+    const hole = new TemplateHole(holes.length, name, nonce);
+    holes.push(hole);
+    return hole;
+  });
+
+  checkStatic(root, "compileTemplate()", []);
+  const template = new Template(root, holes, nonce);
+  return (values) => new NodeCompiled(template, values);
+}
+
+/**
+ * Checks that the nodes of a subtree do not depend on render time, and records where the holes
+ * of a compiled template are.
+ *
+ * @param {Node} node - The root of the subtree.
+ * @param {string} helper - The helper checking the subtree, for error messages.
+ * @param {string[]} path - The tag names of the ancestors of the node.
+ * @param {NodeElement} parent - The nearest ancestor that is not a fragment.
+ * @param {boolean} provided - Whether the node is inside a `Context.provide()` node.
+ * @throws {Error} If the subtree contains nodes that depend on render time or misplaced holes.
+ */
+function checkStatic(
+  node: Node,
+  helper: string,
+  path: string[],
+  parent?: NodeElement,
+  provided = false,
+): void {
+  if (node instanceof TemplateHole) {
+    if (parent !== undefined && ["script", "style"].includes(parent.name.toLowerCase())) {
+      throw new Error(`nodx: ${helper} holes cannot be placed in <${parent.name}> content`);
+    }
+    if (provided) {
+      throw new Error(`nodx: ${helper} holes cannot be placed inside Context.provide()`);
+    }
+    node.path = path;
+    node.attributesOnly = parent?.isVoid ?? false;
+    return;
+  }
+
+  if (node instanceof NodeElement) {
+    const isFragment = node.name === "";
+    for (const child of node.children) {
+      checkStatic(
+        child,
+        helper,
+        isFragment ? path : [...path, node.name],
+        isFragment ? parent : node,
+        provided || node instanceof NodeProvider,
+      );
+    }
+    return;
+  }
+
+  if (node instanceof NodeConsumer) {
+    throw new Error(`nodx: ${helper} cannot cache nodes that read a context`);
+  }
+  if (node instanceof NodeHead) {
+    throw new Error(`nodx: ${helper} cannot cache head entries, they are hoisted on every render`);
+  }
+  if (node instanceof NodeAsync || typeof node.renderAsync === "function") {
+    throw new Error(`nodx: ${helper} cannot cache async nodes`);
+  }
+}
@@ -0,0 +1,514 @@
+/**
+ * The standard CSS properties in camelCase, as listed by the `CSSStyleDeclaration`
+ * interface of the DOM, without vendor prefixed properties.
+ */
+export type CssPropertyName =
+  | "accentColor"
+  | "alignContent"
+  | "alignItems"
+  | "alignSelf"
+  | "alignmentBaseline"
+  | "all"
+  | "animation"
+  | "animationComposition"
+  | "animationDelay"
+  | "animationDirection"
+  | "animationDuration"
+  | "animationFillMode"
+  | "animationIterationCount"
+  | "animationName"
+  | "animationPlayState"
+  | "animationTimingFunction"
+  | "appearance"
+  | "aspectRatio"
+  | "backdropFilter"
+  | "backfaceVisibility"
+  | "background"
+  | "backgroundAttachment"
+  | "backgroundBlendMode"
+  | "backgroundClip"
+  | "backgroundColor"
+  | "backgroundImage"
+  | "backgroundOrigin"
+  | "backgroundPosition"
+  | "backgroundPositionX"
+  | "backgroundPositionY"
+  | "backgroundRepeat"
+  | "backgroundSize"
+  | "baselineShift"
+  | "blockSize"
+  | "border"
+  | "borderBlock"
+  | "borderBlockColor"
+  | "borderBlockEnd"
+  | "borderBlockEndColor"
+  | "borderBlockEndStyle"
+  | "borderBlockEndWidth"
+  | "borderBlockStart"
+  | "borderBlockStartColor"
+  | "borderBlockStartStyle"
+  | "borderBlockStartWidth"
+  | "borderBlockStyle"
+  | "borderBlockWidth"
+  | "borderBottom"
+  | "borderBottomColor"
+  | "borderBottomLeftRadius"
+  | "borderBottomRightRadius"
+  | "borderBottomStyle"
+  | "borderBottomWidth"
+  | "borderCollapse"
+  | "borderColor"
+  | "borderEndEndRadius"
+  | "borderEndStartRadius"
+  | "borderImage"
+  | "borderImageOutset"
+  | "borderImageRepeat"
+  | "borderImageSlice"
+  | "borderImageSource"
+  | "borderImageWidth"
+  | "borderInline"
+  | "borderInlineColor"
+  | "borderInlineEnd"
+  | "borderInlineEndColor"
+  | "borderInlineEndStyle"
+  | "borderInlineEndWidth"
+  | "borderInlineStart"
+  | "borderInlineStartColor"
+  | "borderInlineStartStyle"
+  | "borderInlineStartWidth"
+  | "borderInlineStyle"
+  | "borderInlineWidth"
+  | "borderLeft"
+  | "borderLeftColor"
+  | "borderLeftStyle"
+  | "borderLeftWidth"
+  | "borderRadius"
+  | "borderRight"
+  | "borderRightColor"
+  | "borderRightStyle"
+  | "borderRightWidth"
+  | "borderSpacing"
+  | "borderStartEndRadius"
+  | "borderStartStartRadius"
+  | "borderStyle"
+  | "borderTop"
+  | "borderTopColor"
+  | "borderTopLeftRadius"
+  | "borderTopRightRadius"
+  | "borderTopStyle"
+  | "borderTopWidth"
+  | "borderWidth"
+  | "bottom"
+  | "boxShadow"
+  | "boxSizing"
+  | "breakAfter"
+  | "breakBefore"
+  | "breakInside"
+  | "captionSide"
+  | "caretColor"
+  | "clear"
+  | "clip"
+  | "clipPath"
+  | "clipRule"
+  | "color"
+  | "colorInterpolation"
+  | "colorInterpolationFilters"
+  | "colorScheme"
+  | "columnCount"
+  | "columnFill"
+  | "columnGap"
+  | "columnRule"
+  | "columnRuleColor"
+  | "columnRuleStyle"
+  | "columnRuleWidth"
+  | "columnSpan"
+  | "columnWidth"
+  | "columns"
+  | "contain"
+  | "containIntrinsicBlockSize"
+  | "containIntrinsicHeight"
+  | "containIntrinsicInlineSize"
+  | "containIntrinsicSize"
+  | "containIntrinsicWidth"
+  | "container"
+  | "containerName"
+  | "containerType"
+  | "content"
+  | "counterIncrement"
+  | "counterReset"
+  | "counterSet"
+  | "cursor"
+  | "direction"
+  | "display"
+  | "dominantBaseline"
+  | "emptyCells"
+  | "fill"
+  | "fillOpacity"
+  | "fillRule"
+  | "filter"
+  | "flex"
+  | "flexBasis"
+  | "flexDirection"
+  | "flexFlow"
+  | "flexGrow"
+  | "flexShrink"
+  | "flexWrap"
+  | "float"
+  | "floodColor"
+  | "floodOpacity"
+  | "font"
+  | "fontFamily"
+  | "fontFeatureSettings"
+  | "fontKerning"
+  | "fontOpticalSizing"
+  | "fontPalette"
+  | "fontSize"
+  | "fontSizeAdjust"
+  | "fontStretch"
+  | "fontStyle"
+  | "fontSynthesis"
+  | "fontSynthesisSmallCaps"
+  | "fontSynthesisStyle"
+  | "fontSynthesisWeight"
+  | "fontVariant"
+  | "fontVariantAlternates"
+  | "fontVariantCaps"
+  | "fontVariantEastAsian"
+  | "fontVariantLigatures"
+  | "fontVariantNumeric"
+  | "fontVariantPosition"
+  | "fontVariationSettings"
+  | "fontWeight"
+  | "gap"
+  | "grid"
+  | "gridArea"
+  | "gridAutoColumns"
+  | "gridAutoFlow"
+  | "gridAutoRows"
+  | "gridColumn"
+  | "gridColumnEnd"
+  | "gridColumnGap"
+  | "gridColumnStart"
+  | "gridGap"
+  | "gridRow"
+  | "gridRowEnd"
+  | "gridRowGap"
+  | "gridRowStart"
+  | "gridTemplate"
+  | "gridTemplateAreas"
+  | "gridTemplateColumns"
+  | "gridTemplateRows"
+  | "height"
+  | "hyphenateCharacter"
+  | "hyphens"
+  | "imageOrientation"
+  | "imageRendering"
+  | "inlineSize"
+  | "inset"
+  | "insetBlock"
+  | "insetBlockEnd"
+  | "insetBlockStart"
+  | "insetInline"
+  | "insetInlineEnd"
+  | "insetInlineStart"
+  | "isolation"
+  | "justifyContent"
+  | "justifyItems"
+  | "justifySelf"
+  | "left"
+  | "letterSpacing"
+  | "lightingColor"
+  | "lineBreak"
+  | "lineHeight"
+  | "listStyle"
+  | "listStyleImage"
+  | "listStylePosition"
+  | "listStyleType"
+  | "margin"
+  | "marginBlock"
+  | "marginBlockEnd"
+  | "marginBlockStart"
+  | "marginBottom"
+  | "marginInline"
+  | "marginInlineEnd"
+  | "marginInlineStart"
+  | "marginLeft"
+  | "marginRight"
+  | "marginTop"
+  | "marker"
+  | "markerEnd"
+  | "markerMid"
+  | "markerStart"
+  | "mask"
+  | "maskClip"
+  | "maskComposite"
+  | "maskImage"
+  | "maskMode"
+  | "maskOrigin"
+  | "maskPosition"
+  | "maskRepeat"
+  | "maskSize"
+  | "maskType"
+  | "mathStyle"
+  | "maxBlockSize"
+  | "maxHeight"
+  | "maxInlineSize"
+  | "maxWidth"
+  | "minBlockSize"
+  | "minHeight"
+  | "minInlineSize"
+  | "minWidth"
+  | "mixBlendMode"
+  | "objectFit"
+  | "objectPosition"
+  | "offset"
+  | "offsetDistance"
+  | "offsetPath"
+  | "offsetRotate"
+  | "opacity"
+  | "order"
+  | "orphans"
+  | "outline"
+  | "outlineColor"
+  | "outlineOffset"
+  | "outlineStyle"
+  | "outlineWidth"
+  | "overflow"
+  | "overflowAnchor"
+  | "overflowClipMargin"
+  | "overflowWrap"
+  | "overflowX"
+  | "overflowY"
+  | "overscrollBehavior"
+  | "overscrollBehaviorBlock"
+  | "overscrollBehaviorInline"
+  | "overscrollBehaviorX"
+  | "overscrollBehaviorY"
+  | "padding"
+  | "paddingBlock"
+  | "paddingBlockEnd"
+  | "paddingBlockStart"
+  | "paddingBottom"
+  | "paddingInline"
+  | "paddingInlineEnd"
+  | "paddingInlineStart"
+  | "paddingLeft"
+  | "paddingRight"
+  | "paddingTop"
+  | "page"
+  | "pageBreakAfter"
+  | "pageBreakBefore"
+  | "pageBreakInside"
+  | "paintOrder"
+  | "perspective"
+  | "perspectiveOrigin"
+  | "placeContent"
+  | "placeItems"
+  | "placeSelf"
+  | "pointerEvents"
+  | "position"
+  | "printColorAdjust"
+  | "quotes"
+  | "resize"
+  | "right"
+  | "rotate"
+  | "rowGap"
+  | "rubyPosition"
+  | "scale"
+  | "scrollBehavior"
+  | "scrollMargin"
+  | "scrollMarginBlock"
+  | "scrollMarginBlockEnd"
+  | "scrollMarginBlockStart"
+  | "scrollMarginBottom"
+  | "scrollMarginInline"
+  | "scrollMarginInlineEnd"
+  | "scrollMarginInlineStart"
+  | "scrollMarginLeft"
+  | "scrollMarginRight"
+  | "scrollMarginTop"
+  | "scrollPadding"
+  | "scrollPaddingBlock"
+  | "scrollPaddingBlockEnd"
+  | "scrollPaddingBlockStart"
+  | "scrollPaddingBottom"
+  | "scrollPaddingInline"
+  | "scrollPaddingInlineEnd"
+  | "scrollPaddingInlineStart"
+  | "scrollPaddingLeft"
+  | "scrollPaddingRight"
+  | "scrollPaddingTop"
+  | "scrollSnapAlign"
+  | "scrollSnapStop"
+  | "scrollSnapType"
+  | "scrollbarGutter"
+  | "shapeImageThreshold"
+  | "shapeMargin"
+  | "shapeOutside"
+  | "shapeRendering"
+  | "stopColor"
+  | "stopOpacity"
+  | "stroke"
+  | "strokeDasharray"
+  | "strokeDashoffset"
+  | "strokeLinecap"
+  | "strokeLinejoin"
+  | "strokeMiterlimit"
+  | "strokeOpacity"
+  | "strokeWidth"
+  | "tabSize"
+  | "tableLayout"
+  | "textAlign"
+  | "textAlignLast"
+  | "textAnchor"
+  | "textCombineUpright"
+  | "textDecoration"
+  | "textDecorationColor"
+  | "textDecorationLine"
+  | "textDecorationSkipInk"
+  | "textDecorationStyle"
+  | "textDecorationThickness"
+  | "textEmphasis"
+  | "textEmphasisColor"
+  | "textEmphasisPosition"
+  | "textEmphasisStyle"
+  | "textIndent"
+  | "textOrientation"
+  | "textOverflow"
+  | "textRendering"
+  | "textShadow"
+  | "textTransform"
+  | "textUnderlineOffset"
+  | "textUnderlinePosition"
+  | "top"
+  | "touchAction"
+  | "transform"
+  | "transformBox"
+  | "transformOrigin"
+  | "transformStyle"
+  | "transition"
+  | "transitionDelay"
+  | "transitionDuration"
+  | "transitionProperty"
+  | "transitionTimingFunction"
+  | "translate"
+  | "unicodeBidi"
+  | "userSelect"
+  | "verticalAlign"
+  | "visibility"
+  | "whiteSpace"
+  | "widows"
+  | "width"
+  | "willChange"
+  | "wordBreak"
+  | "wordSpacing"
+  | "wordWrap"
+  | "writingMode"
+  | "zIndex";
+
+/**
+ * Converts a camelCase CSS property name to its kebab-case form
+ * (e.g. `backgroundColor` to `background-color`).
+ */
+export type KebabCase<S extends string> = S extends `${infer Head}${infer Tail}`
+  ? `${Head extends Lowercase<Head> ? Head : `-${Lowercase<Head>}`}${KebabCase<Tail>}`
+  : S;
+
+/**
+ * A CSS custom property (e.g. `--main-color`).
+ */
+export type CssCustomProperty = `--${string}`;
+
+/**
+ * The value of a CSS property. Numbers get the `px` unit unless the property is
+ * unitless (see `unitlessCssProperties`), and `false`, `null` or `undefined` skip the property.
+ */
+export type CssValue = string | number | false | null | undefined;
+
+/**
+ * An object of CSS properties, in camelCase or kebab-case, including custom properties.
+ *
+ * Example usage:
+ * ```typescript
+ * const styles: StyleObject = { backgroundColor: "red", "font-size": 12, "--gap": "4px" };
+ * ```
+ */
+export type StyleObject = {
+  [Property in CssPropertyName | KebabCase<CssPropertyName>]?: CssValue;
+} & {
+  [Property in CssCustomProperty]?: CssValue;
+};
+
+/**
+ * The CSS properties, in kebab-case, whose numeric values are rendered without a unit.
+ */
+export const unitlessCssProperties: ReadonlySet<string> = new Set([
+  "animation-iteration-count",
+  "aspect-ratio",
+  "border-image-outset",
+  "border-image-slice",
+  "border-image-width",
+  "column-count",
+  "columns",
+  "fill-opacity",
+  "flex",
+  "flex-grow",
+  "flex-shrink",
+  "flood-opacity",
+  "font-weight",
+  "grid-area",
+  "grid-column",
+  "grid-column-end",
+  "grid-column-start",
+  "grid-row",
+  "grid-row-end",
+  "grid-row-start",
+  "line-clamp",
+  "line-height",
+  "opacity",
+  "order",
+  "orphans",
+  "scale",
+  "stop-opacity",
+  "stroke-dasharray",
+  "stroke-dashoffset",
+  "stroke-miterlimit",
+  "stroke-opacity",
+  "stroke-width",
+  "tab-size",
+  "widows",
+  "z-index",
+  "zoom",
+]);
+
+/**
+ * Converts a CSS property name to kebab-case. Custom properties and names that are
+ * already in kebab-case are returned unchanged.
+ *
+ * @param {string} property - The CSS property name, in camelCase or kebab-case.
+ * @returns {string} The CSS property name in kebab-case.
+ */
+export function cssPropertyName(property: string): string {
+  if (property.startsWith("--")) return property;
+  return property.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+}
+
+/**
+ * Formats the value of a CSS property, adding the `px` unit to non zero numbers
+ * of properties that are not unitless.
+ *
+ * @param {string} property - The CSS property name, in kebab-case.
+ * @param {string | number} value - The value of the property.
+ * @returns {string} The formatted value.
+ */
+export function cssValue(property: string, value: string | number): string {
+  if (typeof value === "string") return value.trim();
+  if (
+    value === 0 ||
+    property.startsWith("--") ||
+    unitlessCssProperties.has(property)
+  ) {
+    return String(value);
+  }
+  return `${value}px`;
+}
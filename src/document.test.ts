@@ -0,0 +1,354 @@
+import { describe, expect, it } from "vitest";
+import {
+  dedupeHead,
+  doctype,
+  headEntry,
+  headMeta,
+  headScript,
+  headStylesheet,
+  headTitle,
+  NodeHead,
+  page,
+  sortHead,
+} from "./document.js";
+import {
+  asyncx,
+  attr,
+  el,
+  group,
+  ifx,
+  mapx,
+  Node,
+  renderAsync,
+  renderStream,
+  text,
+} from "./nodx.js";
+
+describe("doctype", () => {
+  it("Renders the HTML5 doctype", () => {
+    expect(doctype().render()).toBe("<!DOCTYPE html>");
+  });
+});
+
+describe("Head entries", () => {
+  it("Renders the title escaped", () => {
+    expect(headTitle("Tom & Jerry").render()).toBe(
+      "<title>Tom &amp; Jerry</title>",
+    );
+  });
+
+  it("Renders meta tags", () => {
+    expect(headMeta({ charset: "utf-8" }).render()).toBe('<meta charset="utf-8">');
+    expect(headMeta({ name: "description", content: "A page" }).render()).toBe(
+      '<meta name="description" content="A page">',
+    );
+    expect(headMeta({ property: "og:title", content: "Title" }).render()).toBe(
+      '<meta property="og:title" content="Title">',
+    );
+    expect(
+      headMeta({ httpEquiv: "refresh", content: "30" }).render(),
+    ).toBe('<meta http-equiv="refresh" content="30">');
+  });
+
+  it("Keys meta tags by their identifying attribute", () => {
+    expect(headMeta({ charset: "utf-8" }).key).toBe("meta:charset");
+    expect(headMeta({ name: "robots", content: "none" }).key).toBe(
+      "meta:name:robots",
+    );
+    expect(headMeta({ property: "og:title" }).key).toBe("meta:property:og:title");
+    expect(headMeta({ httpEquiv: "refresh" }).key).toBe("meta:http-equiv:refresh");
+    expect(headMeta({ content: "orphan" }).key).toBeUndefined();
+  });
+
+  it("Renders stylesheets", () => {
+    expect(headStylesheet("/a.css").render()).toBe(
+      '<link rel="stylesheet" href="/a.css">',
+    );
+    expect(
+      headStylesheet({ href: "/print.css", media: "print" }).render(),
+    ).toBe('<link rel="stylesheet" href="/print.css" media="print">');
+  });
+
+  it("Renders scripts", () => {
+    expect(headScript("/app.js").render()).toBe(
+      '<script src="/app.js"></script>',
+    );
+    expect(
+      headScript({ src: "/app.js", type: "module", defer: true }).render(),
+    ).toBe('<script src="/app.js" type="module" defer></script>');
+    expect(headScript({ content: "window.a = 1 < 2;" }).render()).toBe(
+      "<script>window.a = 1 < 2;</script>",
+    );
+  });
+
+  it("Keys external scripts only", () => {
+    expect(headScript("/app.js").key).toBe("script:/app.js");
+    expect(headScript({ content: "1" }).key).toBeUndefined();
+  });
+});
+
+describe("dedupeHead", () => {
+  it("Keeps the first position and the last node of each key", () => {
+    const nodes: Node[] = [
+      headTitle("First"),
+      headStylesheet("/a.css"),
+      el("noscript", text("No JS")),
+      headTitle("Second"),
+      headStylesheet("/a.css"),
+    ];
+    const got = dedupeHead(nodes).map((node) => node.render()).join("");
+    expect(got).toBe(
+      '<title>Second</title><link rel="stylesheet" href="/a.css"><noscript>No JS</noscript>',
+    );
+  });
+
+  it("Never deduplicates entries without a key", () => {
+    const nodes = [
+      headEntry(undefined, text("a")),
+      headEntry(undefined, text("a")),
+    ];
+    expect(dedupeHead(nodes).length).toBe(2);
+  });
+});
+
+describe("page", () => {
+  it("Renders a minimal document", () => {
+    const got = page({}).render();
+    expect(got).toBe(
+      "<!DOCTYPE html><html><head>" +
+        '<meta charset="utf-8">' +
+        '<meta name="viewport" content="width=device-width, initial-scale=1">' +
+        "</head><body></body></html>",
+    );
+  });
+
+  it("Renders every option in a deterministic order", () => {
+    const got = page(
+      {
+        lang: "en",
+        charset: "iso-8859-1",
+        viewport: "width=device-width",
+        title: "Home",
+        meta: [{ name: "description", content: "The home page" }],
+        stylesheets: ["/a.css", { href: "/b.css", media: "print" }],
+        scripts: ["/app.js", { content: "init();" }],
+        head: [el("link", attr("rel", "icon"), attr("href", "/favicon.ico"))],
+      },
+      attr("class", "home"),
+      el("h1", text("Hello, World!")),
+    ).render();
+
+    expect(got).toBe(
+      '<!DOCTYPE html><html lang="en"><head>' +
+        '<meta charset="iso-8859-1">' +
+        '<meta name="viewport" content="width=device-width">' +
+        "<title>Home</title>" +
+        '<meta name="description" content="The home page">' +
+        '<link rel="stylesheet" href="/a.css">' +
+        '<link rel="stylesheet" href="/b.css" media="print">' +
+        '<link rel="icon" href="/favicon.ico">' +
+        '<script src="/app.js"></script>' +
+        "<script>init();</script>" +
+        '</head><body class="home"><h1>Hello, World!</h1></body></html>',
+    );
+  });
+
+  it("Omits the viewport when empty", () => {
+    expect(page({ viewport: "" }).render()).not.toContain("viewport");
+  });
+
+  it("Deduplicates head entries contributed by nested components", () => {
+    const widget = (): NodeHead[] => [
+      headStylesheet("/widget.css"),
+      headMeta({ property: "og:title", content: "Widget" }),
+    ];
+    const got = page({
+      title: "Layout",
+      stylesheets: ["/widget.css"],
+      head: [...widget(), ...widget(), headTitle("Page")],
+    }).render();
+
+    expect(got.match(/widget\.css/g)?.length).toBe(1);
+    expect(got.match(/og:title/g)?.length).toBe(1);
+    expect(got).toContain("<title>Page</title>");
+    expect(got).not.toContain("<title>Layout</title>");
+  });
+
+  it("Renders in XHTML syntax", () => {
+    const got = page({ viewport: "" }).render({ syntax: "xhtml" });
+    expect(got).toBe(
+      '<!DOCTYPE html><html><head><meta charset="utf-8" /></head><body></body></html>',
+    );
+  });
+});
+
+describe("sortHead", () => {
+  it("Sorts head entries by kind keeping the order within each kind", () => {
+    const nodes: Node[] = [
+      headScript("/a.js"),
+      el("noscript"),
+      headStylesheet("/a.css"),
+      headTitle("Title"),
+      headMeta({ name: "viewport", content: "width=device-width" }),
+      headMeta({ name: "description", content: "A" }),
+      headScript("/b.js"),
+      headMeta({ charset: "utf-8" }),
+      headMeta({ name: "author", content: "B" }),
+    ];
+    expect(sortHead(nodes).map((node) => node.render()).join("")).toBe(
+      '<meta charset="utf-8">' +
+        '<meta name="viewport" content="width=device-width">' +
+        "<title>Title</title>" +
+        '<meta name="description" content="A">' +
+        '<meta name="author" content="B">' +
+        '<link rel="stylesheet" href="/a.css">' +
+        "<noscript></noscript>" +
+        '<script src="/a.js"></script>' +
+        '<script src="/b.js"></script>',
+    );
+  });
+});
+
+describe("Head hoisting", () => {
+  const productCard = (name: string): Node =>
+    el(
+      "article",
+      headStylesheet("/card.css"),
+      headMeta({ property: "og:title", content: name }),
+      el("h2", text(name)),
+    );
+
+  it("Renders head entries in place outside of a page", () => {
+    expect(el("div", headStylesheet("/card.css")).render()).toBe(
+      '<div><link rel="stylesheet" href="/card.css"></div>',
+    );
+  });
+
+  it("Hoists head entries from deep components into the head", () => {
+    const got = page(
+      { title: "Shop", viewport: "" },
+      el("main", el("section", productCard("Chair"))),
+      headScript({ src: "/cart.js", defer: true }),
+    ).render();
+
+    expect(got).toBe(
+      "<!DOCTYPE html><html><head>" +
+        '<meta charset="utf-8">' +
+        "<title>Shop</title>" +
+        '<meta property="og:title" content="Chair">' +
+        '<link rel="stylesheet" href="/card.css">' +
+        '<script src="/cart.js" defer></script>' +
+        "</head><body><main><section><article><h2>Chair</h2></article></section></main></body></html>",
+    );
+  });
+
+  it("Deduplicates hoisted entries by key with the last one winning", () => {
+    const got = page(
+      { title: "Layout", viewport: "" },
+      mapx(["Chair", "Table"], productCard),
+      ifx(true, group(headTitle("Products"))),
+    ).render();
+
+    expect(got.match(/card\.css/g)?.length).toBe(1);
+    expect(got).toContain('<meta property="og:title" content="Table">');
+    expect(got).not.toContain('content="Chair"');
+    expect(got).toContain("<title>Products</title>");
+    expect(got).not.toContain("Layout");
+  });
+
+  it("Places entries from the options before hoisted entries of the same kind", () => {
+    const got = page(
+      { viewport: "", stylesheets: ["/layout.css"] },
+      headStylesheet("/widget.css"),
+    ).render();
+
+    expect(got).toContain(
+      '<head><meta charset="utf-8">' +
+        '<link rel="stylesheet" href="/layout.css">' +
+        '<link rel="stylesheet" href="/widget.css"></head>',
+    );
+  });
+
+  it("Hoists head entries from async components", async () => {
+    const doc = page(
+      { viewport: "" },
+      el(
+        "main",
+        asyncx(async () => productCard("Lamp")),
+      ),
+    );
+    const expected =
+      "<!DOCTYPE html><html><head>" +
+      '<meta charset="utf-8">' +
+      '<meta property="og:title" content="Lamp">' +
+      '<link rel="stylesheet" href="/card.css">' +
+      "</head><body><main><article><h2>Lamp</h2></article></main></body></html>";
+
+    expect(await renderAsync(doc)).toBe(expected);
+    expect(await renderAsync(el("div", doc))).toBe(`<div>${expected}</div>`);
+
+    let streamed = "";
+    for await (const chunk of renderStream(doc)) streamed += chunk;
+    expect(streamed).toBe(expected);
+  });
+
+  it("Hoists async entries in document order whatever order they resolve in", async () => {
+    const later = (ms: number, node: Node): Node =>
+      asyncx(async () => {
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        return node;
+      });
+    const doc = page(
+      { viewport: "" },
+      later(20, group(headTitle("A"), headStylesheet("/a.css"))),
+      later(5, group(headTitle("B"), headStylesheet("/b.css"))),
+    );
+    const sync = page(
+      { viewport: "" },
+      group(headTitle("A"), headStylesheet("/a.css")),
+      group(headTitle("B"), headStylesheet("/b.css")),
+    ).render();
+    const expected =
+      '<!DOCTYPE html><html><head><meta charset="utf-8"><title>B</title>' +
+      '<link rel="stylesheet" href="/a.css"><link rel="stylesheet" href="/b.css">' +
+      "</head><body></body></html>";
+
+    expect(sync).toBe(expected);
+    expect(await renderAsync(doc)).toBe(expected);
+  });
+
+  it("Renders head entries in place and streams the head first without hoisting", async () => {
+    let release: (node: Node) => void = () => undefined;
+    const content = new Promise<Node>((resolve) => {
+      release = resolve;
+    });
+    const doc = page(
+      { viewport: "", stylesheets: ["/layout.css"], hoist: false },
+      el("main", asyncx(async () => await content)),
+    );
+
+    const chunks: string[] = [];
+    const streaming = (async () => {
+      for await (const chunk of renderStream(doc, { chunkSize: 0 })) chunks.push(chunk);
+    })();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(chunks.join("")).toBe(
+      "<!DOCTYPE html><html><head>" +
+        '<meta charset="utf-8"><link rel="stylesheet" href="/layout.css">' +
+        "</head><body><main>",
+    );
+
+    release(productCard("Lamp"));
+    await streaming;
+    expect(chunks.join("")).toContain(
+      '<main><article><link rel="stylesheet" href="/card.css">' +
+        '<meta property="og:title" content="Lamp"><h2>Lamp</h2></article></main>',
+    );
+    expect(chunks.join("")).toBe(await renderAsync(doc));
+  });
+
+  it("Renders the same document on every render", () => {
+    const doc = page({ viewport: "" }, productCard("Chair"));
+    expect(doc.render()).toBe(doc.render());
+  });
+});
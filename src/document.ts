@@ -0,0 +1,562 @@
+import {
+  attr,
+  createContext,
+  el,
+  Node,
+  raw,
+  renderAsync,
+  RenderOptions,
+  text,
+} from "./nodx.js";
+
+/**
+ * The head entries found while rendering the body of a page. Each entry renders a marker in
+ * place of itself, with the nonce of the render and the index of the entry, so that the entries
+ * are hoisted in document order even when async nodes resolve out of order.
+ */
+interface HeadCollector {
+  nonce: string;
+  entries: NodeHead[];
+}
+
+/**
+ * The collector of the head entries found while rendering. It is provided by `page()` so
+ * that components deep in the tree can contribute to the document head (see `NodeHead`).
+ */
+const headCollector = createContext<HeadCollector | undefined>(undefined);
+
+/**
+ * The private-use characters around the markers of the hoisted head entries, which are never
+ * escaped.
+ */
+const headMarker = "\uE003";
+const headMarkerEnd = "\uE001";
+
+/**
+ * The kinds of head entries, in the order they are rendered in the document head.
+ */
+export const headEntryKinds = [
+  "charset",
+  "viewport",
+  "title",
+  "meta",
+  "stylesheet",
+  "other",
+  "script",
+] as const;
+
+/**
+ * The kind of a head entry, which determines its position in the document head.
+ */
+export type HeadEntryKind = typeof headEntryKinds[number];
+
+/**
+ * Represents an entry of the document head, such as a title, a meta tag, a stylesheet or a script.
+ *
+ * Head entries with the same key are deduplicated by `page()`: the entry keeps the position of
+ * the first occurrence and the node of the last one. Entries without a key are never deduplicated.
+ *
+ * When rendered inside the body of a `page()`, the entry renders nothing in place and is hoisted
+ * into the document head instead, so components deep in the tree can contribute to the head.
+ * Anywhere else, the entry is rendered in place.
+ *
+ * @implements {Node}
+ */
+export class NodeHead implements Node {
+  /**
+   * The kind of the entry, which determines its position in the document head.
+   */
+  readonly kind: HeadEntryKind;
+
+  /**
+   * The key used to deduplicate the entry, or undefined if it must never be deduplicated.
+   */
+  readonly key: string | undefined;
+
+  /**
+   * The node rendered in the document head.
+   */
+  readonly node: Node;
+
+  /**
+   * Creates a new head entry.
+   *
+   * @param {HeadEntryKind} kind - The kind of the entry, which determines its position in the document head.
+   * @param {string | undefined} key - The key used to deduplicate the entry.
+   * @param {Node} node - The node rendered in the document head.
+   */
+  constructor(kind: HeadEntryKind, key: string | undefined, node: Node) {
+    this.kind = kind;
+    this.key = key;
+    this.node = node;
+  }
+
+  /**
+   * Renders the node of the head entry, or registers the entry in the head collector
+   * of the document being rendered, if any.
+   *
+   * @param {RenderOptions} options - The options to control how the entry is rendered.
+   * @returns {string} The string representation of the head entry, or the marker of the
+   * hoisted entry, which the document removes.
+   */
+  render(options: RenderOptions = {}): string {
+    const collector = headCollector.read(options);
+    if (collector !== undefined) {
+      collector.entries.push(this);
+      return `${headMarker}${collector.nonce}-${collector.entries.length - 1}${headMarkerEnd}`;
+    }
+    return this.node.render(options);
+  }
+}
+
+/**
+ * Represents a full HTML document, see `page()`.
+ *
+ * The body is rendered first, so that the head entries found in it can be hoisted into the head.
+ * As a consequence, when streamed, the document is only emitted once the body is fully rendered,
+ * see the `hoist` option of `page()` to flush the head early instead.
+ *
+ * @implements {Node}
+ */
+export class NodePage implements Node {
+  private readonly lang: string | undefined;
+  private readonly head: Node[];
+  private readonly body: Node;
+
+  /**
+   * Creates a new HTML document.
+   *
+   * @param {string | undefined} lang - The language of the document.
+   * @param {Node[]} head - The nodes of the document head.
+   * @param {Node} body - The `<body>` element.
+   */
+  constructor(lang: string | undefined, head: Node[], body: Node) {
+    this.lang = lang;
+    this.head = head;
+    this.body = body;
+  }
+
+  /**
+   * Renders the full HTML document to a string.
+   *
+   * @param {RenderOptions} options - The options to control how the document is rendered.
+   * @returns {string} The string representation of the document.
+   */
+  render(options: RenderOptions = {}): string {
+    const collector = newHeadCollector();
+    // The body is formatted as part of the whole document.
+    const body = headCollector
+      .provide(collector, this.body)
+      .render({ ...options, format: undefined });
+    return this.renderDocument(collector, body, options);
+  }
+
+  /**
+   * Renders the full HTML document to a string, awaiting any async node found in the body.
+   *
+   * @param {RenderOptions} options - The options to control how the document is rendered.
+   * @param {string[]} path - The tag names of the ancestors of the document, used for error reporting.
+   * @returns {Promise<string>} The string representation of the document.
+   */
+  async renderAsync(
+    options: RenderOptions = {},
+    path: string[] = [],
+  ): Promise<string> {
+    const collector = newHeadCollector();
+    const body = await renderAsync(
+      headCollector.provide(collector, this.body),
+      { ...options, format: undefined },
+      [...path, "html"],
+    );
+    return this.renderDocument(collector, body, options);
+  }
+
+  /**
+   * Renders the document around the rendered body, hoisting the head entries whose markers
+   * are found in the body, in document order, and removing the markers.
+   */
+  private renderDocument(
+    collector: HeadCollector,
+    body: string,
+    options: RenderOptions,
+  ): string {
+    const collected: Node[] = [];
+    const pattern = new RegExp(`${headMarker}${collector.nonce}-(\\d+)${headMarkerEnd}`, "g");
+    const bodyHtml = body.replace(pattern, (_, index: string) => {
+      collected.push(collector.entries[Number(index)]);
+      return "";
+    });
+
+    const html = el(
+      "html",
+      optionalAttr("lang", this.lang),
+      el("head", ...sortHead(dedupeHead([...this.head, ...collected]))),
+      raw(bodyHtml),
+    );
+    return headCollector.provide(undefined, doctype(), html).render(options);
+  }
+}
+
+/**
+ * The attributes of a meta tag.
+ */
+export interface MetaOptions {
+  name?: string;
+  property?: string;
+  httpEquiv?: string;
+  charset?: string;
+  content?: string;
+}
+
+/**
+ * The attributes of a stylesheet link.
+ */
+export interface StylesheetOptions {
+  href: string;
+  media?: string;
+  integrity?: string;
+  crossorigin?: string;
+}
+
+/**
+ * The attributes of a script. Either `src` or `content` must be given.
+ *
+ * **Warning:** The `content` of an inline script is rendered as-is, it must be trusted.
+ */
+export interface ScriptOptions {
+  src?: string;
+  content?: string;
+  type?: string;
+  async?: boolean;
+  defer?: boolean;
+  integrity?: string;
+  crossorigin?: string;
+}
+
+/**
+ * Options to build a full HTML document with `page()`.
+ */
+export interface DocumentOptions {
+  /**
+   * The language of the document, rendered as the `lang` attribute of `<html>`.
+   */
+  lang?: string;
+
+  /**
+   * The character encoding of the document.
+   *
+   * @default "utf-8"
+   */
+  charset?: string;
+
+  /**
+   * The content of the viewport meta tag, use an empty string to omit it.
+   *
+   * @default "width=device-width, initial-scale=1"
+   */
+  viewport?: string;
+
+  /**
+   * The title of the document.
+   */
+  title?: string;
+
+  /**
+   * The meta tags of the document.
+   */
+  meta?: MetaOptions[];
+
+  /**
+   * The stylesheets of the document, as URLs or link attributes.
+   */
+  stylesheets?: Array<string | StylesheetOptions>;
+
+  /**
+   * The scripts of the document, as URLs or script attributes. They are rendered at the end of the head.
+   */
+  scripts?: Array<string | ScriptOptions>;
+
+  /**
+   * Any other node to be rendered in the head. Head entries (see `NodeHead`) are deduplicated
+   * with the ones created from the other options.
+   */
+  head?: Node[];
+
+  /**
+   * Whether the head entries found in the body are hoisted into the head. Hoisting requires the
+   * body to be fully rendered before the head, so a streamed document is only emitted at the end.
+   * When `false`, the head entries of the body are rendered in place and the document is rendered
+   * in order: `renderStream()` and `renderToSink()` flush the head, and the browser starts
+   * loading its stylesheets and scripts, while the async nodes of the body are still pending.
+   *
+   * @default true
+   */
+  hoist?: boolean;
+}
+
+/**
+ * Creates a new head entry.
+ * This helper function allows any node to be deduplicated in the document head by a key.
+ *
+ * Example usage:
+ * ```typescript
+ * headEntry('icon', link(attr('rel', 'icon'), attr('href', '/favicon.ico')));
+ * ```
+ *
+ * @param {string | undefined} key - The key used to deduplicate the entry.
+ * @param {Node} node - The node rendered in the document head.
+ * @returns {NodeHead} A new instance of NodeHead representing the head entry.
+ */
+export function headEntry(key: string | undefined, node: Node): NodeHead {
+  return new NodeHead("other", key, node);
+}
+
+/**
+ * Creates a new title head entry. A document has a single title, so the last one wins.
+ *
+ * @param {string} title - The title of the document.
+ * @returns {NodeHead} A new instance of NodeHead representing the title.
+ */
+export function headTitle(title: string): NodeHead {
+  return new NodeHead("title", "title", el("title", text(title)));
+}
+
+/**
+ * Creates a new meta tag head entry, deduplicated by its `charset`, `name`, `property`
+ * or `http-equiv` attribute.
+ *
+ * Example usage:
+ * ```typescript
+ * headMeta({ property: 'og:title', content: 'My page' });
+ * ```
+ *
+ * @param {MetaOptions} meta - The attributes of the meta tag.
+ * @returns {NodeHead} A new instance of NodeHead representing the meta tag.
+ */
+export function headMeta(meta: MetaOptions): NodeHead {
+  let kind: HeadEntryKind = "meta";
+  let key: string | undefined;
+  if (meta.charset !== undefined) {
+    kind = "charset";
+    key = "meta:charset";
+  } else if (meta.name !== undefined) {
+    if (meta.name === "viewport") kind = "viewport";
+    key = `meta:name:${meta.name}`;
+  } else if (meta.property !== undefined) {
+    key = `meta:property:${meta.property}`;
+  } else if (meta.httpEquiv !== undefined) {
+    key = `meta:http-equiv:${meta.httpEquiv}`;
+  }
+
+  return new NodeHead(
+    kind,
+    key,
+    el(
+      "meta",
+      optionalAttr("charset", meta.charset),
+      optionalAttr("name", meta.name),
+      optionalAttr("property", meta.property),
+      optionalAttr("http-equiv", meta.httpEquiv),
+      optionalAttr("content", meta.content),
+    ),
+  );
+}
+
+/**
+ * Creates a new stylesheet link head entry, deduplicated by its URL.
+ *
+ * @param {string | StylesheetOptions} stylesheet - The URL or the attributes of the stylesheet.
+ * @returns {NodeHead} A new instance of NodeHead representing the stylesheet link.
+ */
+export function headStylesheet(
+  stylesheet: string | StylesheetOptions,
+): NodeHead {
+  const options = typeof stylesheet === "string"
+    ? { href: stylesheet }
+    : stylesheet;
+
+  return new NodeHead(
+    "stylesheet",
+    `stylesheet:${options.href}`,
+    el(
+      "link",
+      attr("rel", "stylesheet"),
+      attr("href", options.href),
+      optionalAttr("media", options.media),
+      optionalAttr("integrity", options.integrity),
+      optionalAttr("crossorigin", options.crossorigin),
+    ),
+  );
+}
+
+/**
+ * Creates a new script head entry. External scripts are deduplicated by their URL,
+ * inline scripts are never deduplicated.
+ *
+ * **Warning:** The `content` of an inline script is rendered as-is, it must be trusted.
+ *
+ * @param {string | ScriptOptions} script - The URL or the attributes of the script.
+ * @returns {NodeHead} A new instance of NodeHead representing the script.
+ */
+export function headScript(script: string | ScriptOptions): NodeHead {
+  const options = typeof script === "string" ? { src: script } : script;
+
+  return new NodeHead(
+    "script",
+    options.src !== undefined ? `script:${options.src}` : undefined,
+    el(
+      "script",
+      optionalAttr("src", options.src),
+      optionalAttr("type", options.type),
+      attr("async", options.async ?? false),
+      attr("defer", options.defer ?? false),
+      optionalAttr("integrity", options.integrity),
+      optionalAttr("crossorigin", options.crossorigin),
+      raw(options.content ?? ""),
+    ),
+  );
+}
+
+/**
+ * Creates the HTML5 doctype.
+ *
+ * @returns {Node} A node rendering `<!DOCTYPE html>`.
+ */
+export function doctype(): Node {
+  return raw("<!DOCTYPE html>");
+}
+
+/**
+ * Deduplicates head entries: entries sharing a key keep the position of the first
+ * occurrence and the node of the last one. Any other node is kept as-is.
+ *
+ * @param {Node[]} nodes - The head nodes, in order.
+ * @returns {Node[]} The deduplicated head nodes.
+ */
+export function dedupeHead(nodes: Node[]): Node[] {
+  const result: Node[] = [];
+  const indexes = new Map<string, number>();
+
+  for (const node of nodes) {
+    if (!(node instanceof NodeHead) || node.key === undefined) {
+      result.push(node);
+      continue;
+    }
+
+    const index = indexes.get(node.key);
+    if (index === undefined) {
+      indexes.set(node.key, result.length);
+      result.push(node);
+    } else {
+      result[index] = node;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Sorts head nodes by the kind of entry (see `headEntryKinds`), keeping the order of the nodes
+ * of the same kind. Nodes that are not head entries are sorted as `"other"` entries.
+ *
+ * @param {Node[]} nodes - The head nodes, in order.
+ * @returns {Node[]} The sorted head nodes.
+ */
+export function sortHead(nodes: Node[]): Node[] {
+  const rank = (node: Node): number =>
+    headEntryKinds.indexOf(node instanceof NodeHead ? node.kind : "other");
+
+  return nodes
+    .map((node, index) => ({ node, index }))
+    .sort((a, b) => {
+      const byRank = rank(a.node) - rank(b.node);
+      return byRank !== 0 ? byRank : a.index - b.index;
+    })
+    .map(({ node }) => node);
+}
+
+/**
+ * Creates a full HTML document, with the doctype, `<html>`, `<head>` and `<body>`.
+ *
+ * Components anywhere in the body can contribute to the head by rendering head entries
+ * (see `headTitle`, `headMeta`, `headStylesheet`, `headScript` and `headEntry`): they are
+ * hoisted into the head instead of being rendered in place.
+ *
+ * The head is rendered in a deterministic order: charset, viewport, title, meta tags,
+ * stylesheets, the other head nodes and finally the scripts. Within each group, the entries
+ * given in the options come first, followed by the ones found in the body in document order.
+ * Head entries sharing a key (e.g. two stylesheets with the same URL, or two `og:title` meta
+ * tags) are rendered once, with the last entry winning.
+ *
+ * Hoisting delays the whole document until the body is rendered: to stream the head before the
+ * async nodes of the body are resolved, set the `hoist` option to `false`.
+ *
+ * Example usage:
+ * ```typescript
+ * page(
+ *   {
+ *     lang: 'en',
+ *     title: 'Home',
+ *     meta: [{ name: 'description', content: 'The home page' }],
+ *     stylesheets: ['/styles.css'],
+ *     scripts: [{ src: '/app.js', defer: true }],
+ *   },
+ *   h1(text('Hello, World!')),
+ * ).render();
+ * ```
+ *
+ * @param {DocumentOptions} options - The options of the document.
+ * @param {...Node} body - The child nodes of the `<body>` element.
+ * @returns {Node} A new instance of NodePage representing the full HTML document.
+ */
+export function page(options: DocumentOptions, ...body: Node[]): Node {
+  const headNodes: Node[] = [
+    headMeta({ charset: options.charset ?? "utf-8" }),
+  ];
+
+  const viewport = options.viewport ?? "width=device-width, initial-scale=1";
+  if (viewport !== "") {
+    headNodes.push(headMeta({ name: "viewport", content: viewport }));
+  }
+
+  if (options.title !== undefined) {
+    headNodes.push(headTitle(options.title));
+  }
+
+  for (const meta of options.meta ?? []) {
+    headNodes.push(headMeta(meta));
+  }
+
+  for (const stylesheet of options.stylesheets ?? []) {
+    headNodes.push(headStylesheet(stylesheet));
+  }
+
+  headNodes.push(...(options.head ?? []));
+
+  for (const script of options.scripts ?? []) {
+    headNodes.push(headScript(script));
+  }
+
+  if (options.hoist === false) {
+    const html = el(
+      "html",
+      optionalAttr("lang", options.lang),
+      el("head", ...sortHead(dedupeHead(headNodes))),
+      el("body", ...body),
+    );
+    return headCollector.provide(undefined, doctype(), html);
+  }
+
+  return new NodePage(options.lang, headNodes, el("body", ...body));
+}
+
+function newHeadCollector(): HeadCollector {
+  return { nonce: Math.random().toString(36).slice(2), entries: [] };
+}
+
+/**
+ * Creates an attribute node that is omitted when the value is undefined.
+ */
+function optionalAttr(name: string, value: string | undefined): Node {
+  return attr(name, value ?? false);
+}
@@ -0,0 +1,156 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { mount, toDom } from "./dom.js";
+import { a, b, div, img, input, li, p, script, span, ul } from "./elements.js";
+import { alt, href, src } from "./attributes.js";
+import {
+  foreignObject,
+  g,
+  linearGradient,
+  path,
+  svg,
+  use,
+  svgNamespace,
+  xhtmlNamespace,
+  xlinkHref,
+  xlinkNamespace,
+} from "./svg.js";
+import {
+  asyncx,
+  attr,
+  classx,
+  createContext,
+  group,
+  mapx,
+  raw,
+  stylex,
+  text,
+  unsafeUrlReplacement,
+} from "./nodx.js";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("toDom", () => {
+  it("Builds elements, attributes and texts", () => {
+    const node = div(
+      attr("id", "main"),
+      classx("a"),
+      classx("b"),
+      stylex({ color: "red" }),
+      p(text("Tom & <Jerry>"), b(text("!"))),
+      input(attr("checked", true), attr("disabled", false)),
+      img(src("/a.png"), alt("A")),
+    );
+    const element = toDom(node, document) as Element;
+
+    expect(element).toBeInstanceOf(HTMLDivElement);
+    expect(element.getAttribute("id")).toBe("main");
+    expect(element.getAttribute("class")).toBe("a b");
+    expect(element.getAttribute("style")).toBe("color: red");
+    expect(element.querySelector("p")?.textContent).toBe("Tom & <Jerry>!");
+    expect(element.querySelector("input")?.hasAttribute("checked")).toBe(true);
+    expect(element.querySelector("input")?.hasAttribute("disabled")).toBe(false);
+    expect(element.outerHTML).toBe(node.render().replace("<input checked>", '<input checked="">'));
+  });
+
+  it("Builds texts as text nodes without parsing them", () => {
+    const built = toDom(p(text("<b>not bold</b>")), document) as Element;
+    expect(built.childNodes).toHaveLength(1);
+    expect(built.firstChild?.nodeType).toBe(3);
+    expect(built.textContent).toBe("<b>not bold</b>");
+  });
+
+  it("Parses the markup of raw nodes and custom nodes", () => {
+    const custom = { render: () => "<em>custom</em> &amp; more" };
+    const built = toDom(div(raw("<b>raw</b><!-- note -->"), custom), document) as Element;
+    expect(built.querySelector("b")?.textContent).toBe("raw");
+    expect(built.querySelector("em")?.textContent).toBe("custom");
+    expect(built.childNodes[1].nodeType).toBe(8);
+    expect(built.textContent).toBe("rawcustom & more");
+  });
+
+  it("Checks URL attributes like when rendering", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const built = toDom(a(href("javascript:alert(1)"), text("x")), document) as Element;
+    expect(built.getAttribute("href")).toBe(unsafeUrlReplacement);
+  });
+
+  it("Keeps the content of script elements as text", () => {
+    const built = toDom(script(raw("if (a < b) run();")), document) as Element;
+    expect(built.childNodes).toHaveLength(1);
+    expect(built.textContent).toBe("if (a < b) run();");
+  });
+
+  it("Builds groups as fragments", () => {
+    const built = toDom(group(li(text("a")), mapx(["b", "c"], (item) => li(text(item)))), document);
+    expect(built.nodeType).toBe(11);
+    expect(Array.from(built.childNodes, (node) => node.textContent)).toEqual(["a", "b", "c"]);
+
+    const list = toDom(ul(group(classx("list"), li(text("a")))), document) as Element;
+    expect(list.outerHTML).toBe('<ul class="list"><li>a</li></ul>');
+  });
+
+  it("Builds texts and empty trees", () => {
+    expect(toDom(text("hi"), document).nodeType).toBe(3);
+    expect(toDom(group(), document).childNodes).toHaveLength(0);
+  });
+
+  it("Resolves contexts", () => {
+    const theme = createContext("light");
+    const node = div(theme.provide("dark", span(theme.consume((value) => classx(value)))));
+    const built = toDom(node, document) as Element;
+    expect(built.outerHTML).toBe('<div><span class="dark"></span></div>');
+  });
+
+  it("Creates SVG elements in the SVG namespace", () => {
+    const node = svg(
+      attr("viewBox", "0 0 10 10"),
+      linearGradient(attr("id", "grad")),
+      g(path(attr("d", "M0 0L10 10"))),
+      use(xlinkHref("#grad")),
+      raw("<clipPath id=\"clip\"><rect width=\"1\"/></clipPath>"),
+      foreignObject(div(text("html"))),
+    );
+    const built = toDom(node, document) as Element;
+
+    expect(built.namespaceURI).toBe(svgNamespace);
+    expect(built.getAttribute("viewBox")).toBe("0 0 10 10");
+    expect(built.querySelector("path")?.namespaceURI).toBe(svgNamespace);
+    expect(built.children[0].localName).toBe("linearGradient");
+    expect(built.querySelector("use")?.getAttributeNS(xlinkNamespace, "href")).toBe("#grad");
+    expect(built.children[3].localName).toBe("clipPath");
+    expect(built.children[3].namespaceURI).toBe(svgNamespace);
+    expect(built.querySelector("div")?.namespaceURI).toBe(xhtmlNamespace);
+  });
+
+  it("Rejects async nodes", () => {
+    expect(() => toDom(div(asyncx(async () => text("a"))), document)).toThrow(
+      "nodx: async nodes cannot be built as DOM nodes, resolve them first",
+    );
+  });
+});
+
+describe("mount", () => {
+  it("Replaces the content of the container", () => {
+    const container = document.createElement("div");
+    container.innerHTML = "<p>old</p>";
+    mount(container, group(p(text("new")), p(text("nodes"))));
+    expect(container.innerHTML).toBe("<p>new</p><p>nodes</p>");
+  });
+
+  it("Creates SVG elements inside SVG containers", () => {
+    const container = document.createElementNS(svgNamespace, "svg");
+    mount(container, g(path(attr("d", "M0 0"))));
+    expect(container.firstElementChild?.namespaceURI).toBe(svgNamespace);
+    expect(container.querySelector("path")?.namespaceURI).toBe(svgNamespace);
+  });
+
+  it("Keeps the content of script containers as text", () => {
+    const container = document.createElement("script");
+    mount(container, group(raw("a < b;"), span(text("x"))));
+    expect(container.childNodes).toHaveLength(1);
+    expect(container.textContent).toBe("a < b;<span>x</span>");
+  });
+});
@@ -0,0 +1,262 @@
+import {
+  group,
+  Node,
+  NodeAsync,
+  NodeConsumer,
+  NodeElement,
+  RenderOptions,
+  renderNodeAttributes,
+  renderNodeContent,
+} from "./nodx.js";
+import { HtmlNode, parseHtmlTree } from "./parser.js";
+import { svgNamespace, xhtmlNamespace, xlinkNamespace } from "./svg.js";
+
+/**
+ * The namespace of MathML elements.
+ */
+const mathmlNamespace = "http://www.w3.org/1998/Math/MathML";
+
+/**
+ * The namespaces of the prefixed attributes of foreign elements, such as `xlink:href`.
+ */
+const attributeNamespaces: ReadonlyMap<string, string> = new Map([
+  ["xlink", xlinkNamespace],
+  ["xml", "http://www.w3.org/XML/1998/namespace"],
+  ["xmlns", "http://www.w3.org/2000/xmlns/"],
+]);
+
+/**
+ * Builds DOM nodes from a tree, to insert nodx components in a page on the client side without
+ * `innerHTML`. The DOM nodes are the ones a browser builds from the rendered markup:
+ * - Elements become `Element`s, in the SVG namespace inside `svg` (except the content of
+ *   `foreignObject`) and in the MathML namespace inside `math`.
+ * - Attributes are set on their element, merged and checked like when rendering.
+ * - Texts become `Text`s, and the markup rendered by raw nodes and custom nodes is parsed.
+ * - Groups (`group()`, `ifx()`, `mapx()`...) become a `DocumentFragment`.
+ *
+ * Async nodes cannot be built, as DOM nodes are built synchronously.
+ *
+ * Example usage:
+ * ```typescript
+ * const card = toDom(div(classx("card"), text("Hello")), document);
+ * document.body.append(card);
+ * ```
+ *
+ * @param {Node} node - The node to build.
+ * @param {Document} document - The document creating the DOM nodes.
+ * @param {RenderOptions} options - The options the node is rendered with, to resolve the nodes
+ * built from contexts.
+ * @returns {ChildNode | DocumentFragment} The DOM node, or a fragment with the DOM nodes of a
+ * group or of markup with several nodes.
+ * @throws {Error} If the tree contains async nodes.
+ */
+export function toDom(
+  node: Node,
+  document: Document,
+  options: RenderOptions = {},
+): ChildNode | DocumentFragment {
+  const fragment = document.createDocumentFragment();
+  appendNode(document, fragment, node, xhtmlNamespace, options);
+  const firstChild = fragment.firstChild;
+  if (firstChild !== null && firstChild === fragment.lastChild) {
+    return firstChild;
+  }
+  return fragment;
+}
+
+/**
+ * Replaces the content of a DOM element with the DOM nodes of a tree, see `toDom()`. Inside an
+ * SVG element, the elements of the tree are created in the SVG namespace.
+ *
+ * Example usage:
+ * ```typescript
+ * mount(document.getElementById("app")!, main(h1(text("Hello"))));
+ * ```
+ *
+ * @param {Element} container - The element whose content is replaced.
+ * @param {Node} node - The node to mount.
+ * @param {RenderOptions} options - The options the node is rendered with.
+ * @throws {Error} If the tree contains async nodes.
+ */
+export function mount(
+  container: Element,
+  node: Node,
+  options: RenderOptions = {},
+): void {
+  const document = container.ownerDocument;
+  const fragment = document.createDocumentFragment();
+  if (isRawText(container)) {
+    fragment.appendChild(document.createTextNode(renderNodeContent(node, options)));
+  } else {
+    appendNode(document, fragment, node, childNamespace(container), options);
+  }
+
+  while (container.firstChild !== null) container.removeChild(container.firstChild);
+  container.appendChild(fragment);
+}
+
+/**
+ * Returns the namespace of the elements created inside a DOM element.
+ */
+function childNamespace(parent: Element): string {
+  const namespace = parent.namespaceURI ?? xhtmlNamespace;
+  if (namespace === svgNamespace && parent.localName === "foreignObject") {
+    return xhtmlNamespace;
+  }
+  return namespace;
+}
+
+/**
+ * Returns the namespace of an element, from its name and the namespace of its parent.
+ */
+function elementNamespace(name: string, parentNamespace: string): string {
+  if (parentNamespace !== xhtmlNamespace) return parentNamespace;
+  switch (name.toLowerCase()) {
+    case "svg":
+      return svgNamespace;
+    case "math":
+      return mathmlNamespace;
+    default:
+      return xhtmlNamespace;
+  }
+}
+
+/**
+ * Checks whether the content of a DOM element is raw text, which is not parsed as markup: the
+ * content of the element is rendered as a single text, like in the rendered markup.
+ */
+function isRawText(element: Element): boolean {
+  return element.namespaceURI === xhtmlNamespace &&
+    (element.localName === "script" || element.localName === "style");
+}
+
+/**
+ * Appends the DOM nodes of a node to a DOM element or fragment.
+ *
+ * @param {Document} document - The document creating the DOM nodes.
+ * @param {Element | DocumentFragment} parent - The DOM parent of the nodes.
+ * @param {Node} node - The node to build.
+ * @param {string} namespace - The namespace of the elements created in the parent.
+ * @param {RenderOptions} options - The options the node is rendered with.
+ */
+function appendNode(
+  document: Document,
+  parent: Element | DocumentFragment,
+  node: Node,
+  namespace: string,
+  options: RenderOptions,
+): void {
+  node = resolveConsumer(node, options);
+
+  if (node instanceof NodeAsync) {
+    throw new Error("nodx: async nodes cannot be built as DOM nodes, resolve them first");
+  }
+
+  if (node instanceof NodeElement) {
+    const childOptions = node.scopeOptions(options);
+    if (node.name === "") {
+      for (const child of node.children) {
+        appendNode(document, parent, child, namespace, childOptions);
+      }
+      return;
+    }
+
+    // The consumers are built once, for both the attributes and the content.
+    const children = node.children.map((child) => resolveConsumer(child, childOptions));
+    const element = createElement(document, node.name, elementNamespace(node.name, namespace));
+    setAttributes(element, renderNodeAttributes(group(...children), childOptions));
+    if (isRawText(element)) {
+      const content = renderNodeContent(group(...children), childOptions);
+      if (content !== "") element.appendChild(document.createTextNode(content));
+    } else if (!node.isVoid) {
+      for (const child of children) {
+        appendNode(document, element, child, childNamespace(element), childOptions);
+      }
+    }
+    parent.appendChild(element);
+    return;
+  }
+
+  const html = renderNodeContent(node, options);
+  if (html === "") return;
+
+  if (!/[<&]/.test(html)) {
+    parent.appendChild(document.createTextNode(html));
+    return;
+  }
+  for (const child of parseHtmlTree(html, { xml: namespace !== xhtmlNamespace })) {
+    appendHtmlNode(document, parent, child, namespace);
+  }
+}
+
+/**
+ * Appends the DOM node of a parsed node to a DOM element or fragment.
+ */
+function appendHtmlNode(
+  document: Document,
+  parent: Element | DocumentFragment,
+  node: HtmlNode,
+  namespace: string,
+): void {
+  switch (node.kind) {
+    case "element": {
+      const element = createElement(document, node.name, elementNamespace(node.name, namespace));
+      for (const attribute of node.attributes) {
+        setAttribute(element, attribute.name, attribute.value);
+      }
+      for (const child of node.children) {
+        appendHtmlNode(document, element, child, childNamespace(element));
+      }
+      parent.appendChild(element);
+      return;
+    }
+    case "text":
+      parent.appendChild(document.createTextNode(node.text));
+      return;
+    case "comment":
+      parent.appendChild(document.createComment(node.text));
+  }
+}
+
+function resolveConsumer(node: Node, options: RenderOptions): Node {
+  while (node instanceof NodeConsumer) node = node.resolve(options);
+  return node;
+}
+
+function createElement(document: Document, name: string, namespace: string): Element {
+  return namespace === xhtmlNamespace
+    ? document.createElement(name)
+    : document.createElementNS(namespace, name);
+}
+
+/**
+ * Sets the rendered attributes of an element on its DOM element. The attributes are parsed
+ * from their markup, so they are merged, checked and decoded exactly like in the markup.
+ */
+function setAttributes(element: Element, attributes: string): void {
+  if (attributes === "") return;
+
+  const [parsed] = parseHtmlTree(`<x${attributes}>`, { xml: true });
+  if (parsed?.kind !== "element") return;
+  for (const attribute of parsed.attributes) {
+    setAttribute(element, attribute.name, attribute.value);
+  }
+}
+
+/**
+ * Sets an attribute on a DOM element, in its namespace for the prefixed attributes of foreign
+ * elements (`xlink:href`, `xmlns:xlink`...). Attributes without value are set to `""`.
+ */
+function setAttribute(element: Element, name: string, value: string | true): void {
+  const text = value === true ? "" : value;
+  if (element.namespaceURI !== xhtmlNamespace) {
+    const colon = name.indexOf(":");
+    const prefix = colon === -1 ? name : name.slice(0, colon);
+    const namespace = attributeNamespaces.get(prefix);
+    if (namespace !== undefined && (colon !== -1 || prefix === "xmlns")) {
+      element.setAttributeNS(namespace, name, text);
+      return;
+    }
+  }
+  element.setAttribute(name, text);
+}
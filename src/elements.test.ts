@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+import * as elements from "./elements.js";
+import { attr, Node, setDevMode, text } from "./nodx.js";
+
+const voidElements = [
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+];
+
+const helpers = Object.entries(elements) as Array<
+  [string, (...children: Node[]) => Node]
+>;
+
+function tagOf(helperName: string): string {
+  return helperName.endsWith("El") ? helperName.slice(0, -2) : helperName;
+}
+
+describe("elements", () => {
+  it("Exports a helper for every element", () => {
+    expect(helpers.length).toBe(112);
+  });
+
+  it("Exports a helper for every void element", () => {
+    const tags = helpers.map(([helperName]) => tagOf(helperName));
+    for (const tag of voidElements) {
+      expect(tags).toContain(tag);
+    }
+  });
+
+  it("Uses the El suffix for clashing names", () => {
+    expect(elements.varEl().render()).toBe("<var></var>");
+    expect(elements.styleEl().render()).toBe("<style></style>");
+  });
+
+  it("Renders anchors with their content", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    expect(elements.a(attr("href", "/"), text("Home")).render()).toBe(
+      '<a href="/">Home</a>',
+    );
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  describe.each(helpers)("%s", (helperName, helper) => {
+    const tag = tagOf(helperName);
+    const isVoid = voidElements.includes(tag);
+
+    it(`Renders the ${tag} tag`, () => {
+      const expected = isVoid ? `<${tag}>` : `<${tag}></${tag}>`;
+      expect(helper().render()).toBe(expected);
+    });
+
+    it(`Renders ${tag} with attributes and children`, () => {
+      const expected = isVoid
+        ? `<${tag} id="x">`
+        : `<${tag} id="x">Content</${tag}>`;
+      setDevMode(false);
+      try {
+        expect(helper(attr("id", "x"), text("Content")).render()).toBe(expected);
+      } finally {
+        setDevMode(true);
+      }
+    });
+  });
+});
@@ -1,53 +1,487 @@
-import { el, elVoid, Node } from "./nodx.js";
+/**
+ * Helpers for every element of the WHATWG HTML standard.
+ * See https://html.spec.whatwg.org/multipage/indices.html#elements-3
+ *
+ * Void elements (those that cannot have content, such as `img` or `br`) are created
+ * with `elVoid`, every other element is created with `el`.
+ *
+ * Naming convention: an element helper is named after its tag, unless the tag is a
+ * JavaScript reserved word (`var`) or is already taken by an attribute helper from
+ * `attributes.ts` (`style`). In that case the helper gets the `El` suffix
+ * (`varEl`, `styleEl`), just like clashing attribute helpers get the `Attr` suffix
+ * (`classAttr`, `forAttr`).
+ *
+ * Every helper only accepts the attribute nodes valid on its element, see `ElementChild`:
+ * `img(href("/"))` does not compile, while `img(src("/a.png"), id("logo"))` does.
+ */
+import { el, ElementChild, elVoid, Node } from "./nodx.js";
 
-export function div(...children: Node[]): Node {
-  return el("div", ...children);
+// Main root
+
+export function html(...children: Array<ElementChild<"html">>): Node {
+  return el("html", ...children);
 }
 
-export function span(...children: Node[]): Node {
-  return el("span", ...children);
+// Document metadata
+
+export function head(...children: Array<ElementChild<"head">>): Node {
+  return el("head", ...children);
+}
+
+export function title(...children: Array<ElementChild<"title">>): Node {
+  return el("title", ...children);
+}
+
+export function base(...children: Array<ElementChild<"base">>): Node {
+  return elVoid("base", ...children);
+}
+
+export function link(...children: Array<ElementChild<"link">>): Node {
+  return elVoid("link", ...children);
+}
+
+export function meta(...children: Array<ElementChild<"meta">>): Node {
+  return elVoid("meta", ...children);
+}
+
+export function styleEl(...children: Array<ElementChild<"style">>): Node {
+  return el("style", ...children);
 }
 
-export function h1(...children: Node[]): Node {
+// Sections
+
+export function body(...children: Array<ElementChild<"body">>): Node {
+  return el("body", ...children);
+}
+
+export function article(...children: Array<ElementChild<"article">>): Node {
+  return el("article", ...children);
+}
+
+export function section(...children: Array<ElementChild<"section">>): Node {
+  return el("section", ...children);
+}
+
+export function nav(...children: Array<ElementChild<"nav">>): Node {
+  return el("nav", ...children);
+}
+
+export function aside(...children: Array<ElementChild<"aside">>): Node {
+  return el("aside", ...children);
+}
+
+export function h1(...children: Array<ElementChild<"h1">>): Node {
   return el("h1", ...children);
 }
 
-export function h2(...children: Node[]): Node {
+export function h2(...children: Array<ElementChild<"h2">>): Node {
   return el("h2", ...children);
 }
 
-export function h3(...children: Node[]): Node {
+export function h3(...children: Array<ElementChild<"h3">>): Node {
   return el("h3", ...children);
 }
 
-export function h4(...children: Node[]): Node {
+export function h4(...children: Array<ElementChild<"h4">>): Node {
   return el("h4", ...children);
 }
 
-export function h5(...children: Node[]): Node {
+export function h5(...children: Array<ElementChild<"h5">>): Node {
   return el("h5", ...children);
 }
 
-export function h6(...children: Node[]): Node {
+export function h6(...children: Array<ElementChild<"h6">>): Node {
   return el("h6", ...children);
 }
 
-export function p(...children: Node[]): Node {
+export function hgroup(...children: Array<ElementChild<"hgroup">>): Node {
+  return el("hgroup", ...children);
+}
+
+export function header(...children: Array<ElementChild<"header">>): Node {
+  return el("header", ...children);
+}
+
+export function footer(...children: Array<ElementChild<"footer">>): Node {
+  return el("footer", ...children);
+}
+
+export function address(...children: Array<ElementChild<"address">>): Node {
+  return el("address", ...children);
+}
+
+// Grouping content
+
+export function p(...children: Array<ElementChild<"p">>): Node {
   return el("p", ...children);
 }
 
-export function button(...children: Node[]): Node {
-  return el("button", ...children);
+export function hr(...children: Array<ElementChild<"hr">>): Node {
+  return elVoid("hr", ...children);
+}
+
+export function pre(...children: Array<ElementChild<"pre">>): Node {
+  return el("pre", ...children);
+}
+
+export function blockquote(...children: Array<ElementChild<"blockquote">>): Node {
+  return el("blockquote", ...children);
+}
+
+export function ol(...children: Array<ElementChild<"ol">>): Node {
+  return el("ol", ...children);
+}
+
+export function ul(...children: Array<ElementChild<"ul">>): Node {
+  return el("ul", ...children);
+}
+
+export function menu(...children: Array<ElementChild<"menu">>): Node {
+  return el("menu", ...children);
+}
+
+export function li(...children: Array<ElementChild<"li">>): Node {
+  return el("li", ...children);
+}
+
+export function dl(...children: Array<ElementChild<"dl">>): Node {
+  return el("dl", ...children);
+}
+
+export function dt(...children: Array<ElementChild<"dt">>): Node {
+  return el("dt", ...children);
+}
+
+export function dd(...children: Array<ElementChild<"dd">>): Node {
+  return el("dd", ...children);
+}
+
+export function figure(...children: Array<ElementChild<"figure">>): Node {
+  return el("figure", ...children);
+}
+
+export function figcaption(...children: Array<ElementChild<"figcaption">>): Node {
+  return el("figcaption", ...children);
+}
+
+export function main(...children: Array<ElementChild<"main">>): Node {
+  return el("main", ...children);
+}
+
+export function search(...children: Array<ElementChild<"search">>): Node {
+  return el("search", ...children);
+}
+
+export function div(...children: Array<ElementChild<"div">>): Node {
+  return el("div", ...children);
+}
+
+// Text-level semantics
+
+export function a(...children: Array<ElementChild<"a">>): Node {
+  return el("a", ...children);
+}
+
+export function em(...children: Array<ElementChild<"em">>): Node {
+  return el("em", ...children);
+}
+
+export function strong(...children: Array<ElementChild<"strong">>): Node {
+  return el("strong", ...children);
+}
+
+export function small(...children: Array<ElementChild<"small">>): Node {
+  return el("small", ...children);
+}
+
+export function s(...children: Array<ElementChild<"s">>): Node {
+  return el("s", ...children);
+}
+
+export function cite(...children: Array<ElementChild<"cite">>): Node {
+  return el("cite", ...children);
+}
+
+export function q(...children: Array<ElementChild<"q">>): Node {
+  return el("q", ...children);
+}
+
+export function dfn(...children: Array<ElementChild<"dfn">>): Node {
+  return el("dfn", ...children);
 }
 
-export function a(...children: Node[]): Node {
-  return elVoid("a", ...children);
+export function abbr(...children: Array<ElementChild<"abbr">>): Node {
+  return el("abbr", ...children);
 }
 
-export function img(...children: Node[]): Node {
+export function ruby(...children: Array<ElementChild<"ruby">>): Node {
+  return el("ruby", ...children);
+}
+
+export function rt(...children: Array<ElementChild<"rt">>): Node {
+  return el("rt", ...children);
+}
+
+export function rp(...children: Array<ElementChild<"rp">>): Node {
+  return el("rp", ...children);
+}
+
+export function data(...children: Array<ElementChild<"data">>): Node {
+  return el("data", ...children);
+}
+
+export function time(...children: Array<ElementChild<"time">>): Node {
+  return el("time", ...children);
+}
+
+export function code(...children: Array<ElementChild<"code">>): Node {
+  return el("code", ...children);
+}
+
+export function varEl(...children: Array<ElementChild<"var">>): Node {
+  return el("var", ...children);
+}
+
+export function samp(...children: Array<ElementChild<"samp">>): Node {
+  return el("samp", ...children);
+}
+
+export function kbd(...children: Array<ElementChild<"kbd">>): Node {
+  return el("kbd", ...children);
+}
+
+export function sub(...children: Array<ElementChild<"sub">>): Node {
+  return el("sub", ...children);
+}
+
+export function sup(...children: Array<ElementChild<"sup">>): Node {
+  return el("sup", ...children);
+}
+
+export function i(...children: Array<ElementChild<"i">>): Node {
+  return el("i", ...children);
+}
+
+export function b(...children: Array<ElementChild<"b">>): Node {
+  return el("b", ...children);
+}
+
+export function u(...children: Array<ElementChild<"u">>): Node {
+  return el("u", ...children);
+}
+
+export function mark(...children: Array<ElementChild<"mark">>): Node {
+  return el("mark", ...children);
+}
+
+export function bdi(...children: Array<ElementChild<"bdi">>): Node {
+  return el("bdi", ...children);
+}
+
+export function bdo(...children: Array<ElementChild<"bdo">>): Node {
+  return el("bdo", ...children);
+}
+
+export function span(...children: Array<ElementChild<"span">>): Node {
+  return el("span", ...children);
+}
+
+export function br(...children: Array<ElementChild<"br">>): Node {
+  return elVoid("br", ...children);
+}
+
+export function wbr(...children: Array<ElementChild<"wbr">>): Node {
+  return elVoid("wbr", ...children);
+}
+
+// Edits
+
+export function ins(...children: Array<ElementChild<"ins">>): Node {
+  return el("ins", ...children);
+}
+
+export function del(...children: Array<ElementChild<"del">>): Node {
+  return el("del", ...children);
+}
+
+// Embedded content
+
+export function picture(...children: Array<ElementChild<"picture">>): Node {
+  return el("picture", ...children);
+}
+
+export function source(...children: Array<ElementChild<"source">>): Node {
+  return elVoid("source", ...children);
+}
+
+export function img(...children: Array<ElementChild<"img">>): Node {
   return elVoid("img", ...children);
 }
 
-export function input(...children: Node[]): Node {
+export function iframe(...children: Array<ElementChild<"iframe">>): Node {
+  return el("iframe", ...children);
+}
+
+export function embed(...children: Array<ElementChild<"embed">>): Node {
+  return elVoid("embed", ...children);
+}
+
+export function object(...children: Array<ElementChild<"object">>): Node {
+  return el("object", ...children);
+}
+
+export function video(...children: Array<ElementChild<"video">>): Node {
+  return el("video", ...children);
+}
+
+export function audio(...children: Array<ElementChild<"audio">>): Node {
+  return el("audio", ...children);
+}
+
+export function track(...children: Array<ElementChild<"track">>): Node {
+  return elVoid("track", ...children);
+}
+
+export function map(...children: Array<ElementChild<"map">>): Node {
+  return el("map", ...children);
+}
+
+export function area(...children: Array<ElementChild<"area">>): Node {
+  return elVoid("area", ...children);
+}
+
+// Tabular data
+
+export function table(...children: Array<ElementChild<"table">>): Node {
+  return el("table", ...children);
+}
+
+export function caption(...children: Array<ElementChild<"caption">>): Node {
+  return el("caption", ...children);
+}
+
+export function colgroup(...children: Array<ElementChild<"colgroup">>): Node {
+  return el("colgroup", ...children);
+}
+
+export function col(...children: Array<ElementChild<"col">>): Node {
+  return elVoid("col", ...children);
+}
+
+export function tbody(...children: Array<ElementChild<"tbody">>): Node {
+  return el("tbody", ...children);
+}
+
+export function thead(...children: Array<ElementChild<"thead">>): Node {
+  return el("thead", ...children);
+}
+
+export function tfoot(...children: Array<ElementChild<"tfoot">>): Node {
+  return el("tfoot", ...children);
+}
+
+export function tr(...children: Array<ElementChild<"tr">>): Node {
+  return el("tr", ...children);
+}
+
+export function td(...children: Array<ElementChild<"td">>): Node {
+  return el("td", ...children);
+}
+
+export function th(...children: Array<ElementChild<"th">>): Node {
+  return el("th", ...children);
+}
+
+// Forms
+
+export function form(...children: Array<ElementChild<"form">>): Node {
+  return el("form", ...children);
+}
+
+export function label(...children: Array<ElementChild<"label">>): Node {
+  return el("label", ...children);
+}
+
+export function input(...children: Array<ElementChild<"input">>): Node {
   return elVoid("input", ...children);
 }
+
+export function button(...children: Array<ElementChild<"button">>): Node {
+  return el("button", ...children);
+}
+
+export function select(...children: Array<ElementChild<"select">>): Node {
+  return el("select", ...children);
+}
+
+export function datalist(...children: Array<ElementChild<"datalist">>): Node {
+  return el("datalist", ...children);
+}
+
+export function optgroup(...children: Array<ElementChild<"optgroup">>): Node {
+  return el("optgroup", ...children);
+}
+
+export function option(...children: Array<ElementChild<"option">>): Node {
+  return el("option", ...children);
+}
+
+export function textarea(...children: Array<ElementChild<"textarea">>): Node {
+  return el("textarea", ...children);
+}
+
+export function output(...children: Array<ElementChild<"output">>): Node {
+  return el("output", ...children);
+}
+
+export function progress(...children: Array<ElementChild<"progress">>): Node {
+  return el("progress", ...children);
+}
+
+export function meter(...children: Array<ElementChild<"meter">>): Node {
+  return el("meter", ...children);
+}
+
+export function fieldset(...children: Array<ElementChild<"fieldset">>): Node {
+  return el("fieldset", ...children);
+}
+
+export function legend(...children: Array<ElementChild<"legend">>): Node {
+  return el("legend", ...children);
+}
+
+// Interactive elements
+
+export function details(...children: Array<ElementChild<"details">>): Node {
+  return el("details", ...children);
+}
+
+export function summary(...children: Array<ElementChild<"summary">>): Node {
+  return el("summary", ...children);
+}
+
+export function dialog(...children: Array<ElementChild<"dialog">>): Node {
+  return el("dialog", ...children);
+}
+
+// Scripting
+
+export function script(...children: Array<ElementChild<"script">>): Node {
+  return el("script", ...children);
+}
+
+export function noscript(...children: Array<ElementChild<"noscript">>): Node {
+  return el("noscript", ...children);
+}
+
+export function template(...children: Array<ElementChild<"template">>): Node {
+  return el("template", ...children);
+}
+
+export function slot(...children: Array<ElementChild<"slot">>): Node {
+  return el("slot", ...children);
+}
+
+export function canvas(...children: Array<ElementChild<"canvas">>): Node {
+  return el("canvas", ...children);
+}
@@ -0,0 +1,312 @@
+import { describe, expect, it } from "vitest";
+import { formatHtml } from "./format.js";
+import { page } from "./document.js";
+import {
+  asyncx,
+  attr,
+  classx,
+  el,
+  elVoid,
+  group,
+  Node,
+  raw,
+  renderAsync,
+  renderChunks,
+  renderStream,
+  text,
+} from "./nodx.js";
+import { HtmlNode, parseHtmlTree } from "./parser.js";
+
+/**
+ * The elements laid out as blocks by browsers, among the ones used in these tests.
+ */
+const blockElements = ["article", "div", "h1", "hr", "li", "main", "p", "pre", "script", "ul"];
+
+/**
+ * Parses the markup with `parseHtmlTree()` into a tree to compare, which is the DOM browsers build
+ * for well-nested markup. Texts are compared exactly, except
+ * the whitespace-only texts between block elements (or between a block element and the start or
+ * the end of its block parent), which browsers do not render and are dropped. With `collapse`,
+ * whitespace in texts is collapsed to a single space outside whitespace-sensitive elements, like
+ * in minified markup. Attributes without value have an empty value, like in the DOM.
+ */
+function dom(html: string, collapse = false): unknown[] {
+  const isBlock = (node: HtmlNode | undefined, edge: boolean): boolean =>
+    node === undefined ? edge : node.kind === "element" && blockElements.includes(node.name);
+
+  const normalize = (nodes: HtmlNode[], block: boolean, preserve: boolean): unknown[] => {
+    const normalized: unknown[] = [];
+    nodes.forEach((node, i) => {
+      if (node.kind === "text") {
+        const between = isBlock(nodes[i - 1], block) && isBlock(nodes[i + 1], block);
+        if (!preserve && between && /^[ \t\n\r\f]*$/.test(node.text)) return;
+        normalized.push(
+          collapse && !preserve ? node.text.replace(/[ \t\n\r\f]+/g, " ") : node.text,
+        );
+      } else if (node.kind === "element") {
+        const keep = preserve || ["pre", "textarea", "script", "style"].includes(node.name);
+        normalized.push({
+          ...node,
+          attributes: node.attributes.map(({ name, value }) => ({
+            name,
+            value: value === true ? "" : value,
+          })),
+          children: normalize(node.children, isBlock(node, false), keep),
+        });
+      } else {
+        normalized.push(node);
+      }
+    });
+    return normalized;
+  };
+  return normalize(parseHtmlTree(html), true, false);
+}
+
+const article = el(
+  "article",
+  classx("post"),
+  el("h1", text("Title")),
+  el("p", text("Some "), el("em", text("inline")), text(" text.")),
+  el("ul", el("li", text("One")), el("li", el("a", attr("href", "/two"), text("Two")))),
+  el("pre", text("line 1\n  line 2")),
+  el("textarea", text("  keep  \n  spaces  ")),
+  el("script", raw("if (a) {\n  run();\n}")),
+  elVoid("hr"),
+  el("div", text("Mixed"), el("p", text("block")), text("content")),
+);
+
+describe("Pretty format", () => {
+  it("Indents block elements and keeps inline content on one line", () => {
+    const expected = [
+      '<article class="post">',
+      "  <h1>Title</h1>",
+      "  <p>Some <em>inline</em> text.</p>",
+      "  <ul>",
+      "    <li>One</li>",
+      '    <li><a href="/two">Two</a></li>',
+      "  </ul>",
+      "  <pre>line 1\n  line 2</pre><textarea>  keep  \n  spaces  </textarea><script>if (a) {\n  run();\n}</script>",
+      "  <hr>",
+      "  <div>Mixed<p>block</p>content</div>",
+      "</article>",
+    ].join("\n");
+    const got = article.render({ format: "pretty" });
+    expect(got).toBe(expected);
+  });
+
+  it("Builds the same tree as the compact markup", () => {
+    const compact = article.render();
+    const pretty = article.render({ format: "pretty" });
+    expect(dom(pretty)).toEqual(dom(compact));
+  });
+
+  it("Keeps the whitespace of pre and textarea content exactly", () => {
+    const pretty = article.render({ format: "pretty" });
+    expect(pretty).toContain("<pre>line 1\n  line 2</pre>");
+    expect(pretty).toContain("<textarea>  keep  \n  spaces  </textarea>");
+  });
+
+  it("Keeps the text around blocks and between inline elements", () => {
+    const node = el(
+      "div",
+      el("p", text("a")),
+      text(" Text "),
+      el("b", text("a")),
+      text(" "),
+      el("i", text("b")),
+      el("p", text("c")),
+      el("p", text("d")),
+    );
+    const expected = [
+      "<div>",
+      "  <p>a</p> Text <b>a</b> <i>b</i><p>c</p>",
+      "  <p>d</p>",
+      "</div>",
+    ].join("\n");
+    const pretty = node.render({ format: "pretty" });
+    expect(pretty).toBe(expected);
+    expect(dom(pretty)).toEqual(dom(node.render()));
+    expect(dom("<p><b>a</b><i>b</i></p>")).not.toEqual(dom("<p><b>a</b> <i>b</i></p>"));
+  });
+
+  it("Keeps elements without block children on one line", () => {
+    const node = el("p", text("Hello "), el("b", text("world")), el("br"), text("!"));
+    const expected = "<p>Hello <b>world</b><br>!</p>";
+    expect(node.render({ format: "pretty" })).toBe(expected);
+  });
+
+  it("Uses a custom indent", () => {
+    const node = el("div", el("p", text("a")));
+    const expected = "<div>\n\t<p>a</p>\n</div>";
+    expect(node.render({ format: "pretty", indent: "\t" })).toBe(expected);
+  });
+
+  it("Formats groups and documents", () => {
+    const expected = [
+      "<!DOCTYPE html>",
+      '<html lang="en">',
+      "  <head>",
+      '    <meta charset="utf-8">',
+      "    <title>Page</title>",
+      "  </head>",
+      "  <body>",
+      "    <main>",
+      "      <p>Hi</p>",
+      "    </main>",
+      "  </body>",
+      "</html>",
+    ].join("\n");
+    const document = page(
+      { lang: "en", title: "Page", viewport: "" },
+      el("main", el("p", text("Hi"))),
+    );
+    expect(document.render({ format: "pretty" })).toBe(expected);
+    expect(group(el("p", text("a")), el("p", text("b"))).render({ format: "pretty" })).toBe(
+      "<p>a</p>\n<p>b</p>",
+    );
+  });
+
+  it("Is idempotent", () => {
+    const pretty = article.render({ format: "pretty" });
+    expect(formatHtml(pretty, { format: "pretty" })).toBe(pretty);
+  });
+
+  it("Is the same with every renderer", async () => {
+    const node = el("div", el("p", asyncx(async () => text("async"))), el("p", text("sync")));
+    const expected = "<div>\n  <p>async</p>\n  <p>sync</p>\n</div>";
+    expect(await renderAsync(node, { format: "pretty" })).toBe(expected);
+    const chunks: string[] = [];
+    for await (const chunk of renderStream(node, { format: "pretty" })) chunks.push(chunk);
+    expect(chunks.join("")).toBe(expected);
+
+    const syncNode = el("div", el("p", text("sync")));
+    expect([...renderChunks(syncNode, { format: "pretty" })].join("")).toBe(
+      syncNode.render({ format: "pretty" }),
+    );
+  });
+
+  it("Honors the XHTML syntax", () => {
+    const node = el("div", elVoid("br"), el("input", attr("checked", true)));
+    const expected = '<div><br /><input checked="checked" /></div>';
+    expect(node.render({ format: "pretty", syntax: "xhtml" })).toBe(expected);
+  });
+});
+
+describe("Minify format", () => {
+  const node = el(
+    "div",
+    attr("id", "main"),
+    classx("a b"),
+    attr("data-empty", ""),
+    attr("title", "Hello world"),
+    attr("hidden", true),
+    text("  Some   text\n  on   lines  "),
+    el("pre", text("keep   this\n  whitespace")),
+    el("textarea", text("and   this")),
+    el("script", raw("let  a = 1;")),
+    el("a", attr("href", "/path/to?a&b"), text("link")),
+    el("a", attr("href", "/path?a=1"), text("query")),
+  );
+
+  it("Collapses whitespace and drops optional quotes", () => {
+    const expected =
+      '<div id=main class="a b" data-empty title="Hello world" hidden> Some text on lines <pre>keep   this\n  whitespace</pre><textarea>and   this</textarea><script>let  a = 1;</script><a href=/path/to?a&amp;b>link</a><a href="/path?a=1">query</a></div>';
+    expect(node.render({ format: "minify" })).toBe(expected);
+  });
+
+  it("Builds the same tree as the compact markup", () => {
+    expect(dom(node.render({ format: "minify" }), true)).toEqual(dom(node.render(), true));
+  });
+
+  it("Keeps quotes around values that need them", () => {
+    const values = ["a b", "a\tb", "a=b", "a`b"];
+    for (const value of values) {
+      const node = el("div", attr("title", value));
+      const got = node.render({ format: "minify" });
+      expect(got).toMatch(/title="/);
+      expect(parseHtmlTree(got)).toEqual(parseHtmlTree(node.render()));
+    }
+  });
+
+  it("Drops quotes around escaped values", () => {
+    const values = ['a"b', "a'b", "a<b", "a>b", "a&b"];
+    for (const value of values) {
+      const node = el("div", attr("title", value));
+      const got = node.render({ format: "minify" });
+      expect(got).not.toMatch(/title="/);
+      expect(parseHtmlTree(got)).toEqual(parseHtmlTree(node.render()));
+    }
+  });
+
+  it("Keeps quotes in XHTML syntax", () => {
+    const got = el("input", attr("id", "a"), attr("checked", true)).render({
+      format: "minify",
+      syntax: "xhtml",
+    });
+    expect(got).toBe('<input id="a" checked="checked" />');
+  });
+
+  it("Is the same with every renderer", async () => {
+    const expected = node.render({ format: "minify" });
+    expect(await renderAsync(node, { format: "minify" })).toBe(expected);
+    expect([...renderChunks(node, { format: "minify" })].join("")).toBe(expected);
+  });
+});
+
+describe("XML syntax", () => {
+  it("Self-closes empty elements and keeps the case of names", () => {
+    const node = el(
+      "svg",
+      attr("viewBox", "0 0 10 10"),
+      el("linearGradient", attr("id", "g")),
+      el("path", attr("d", "M0 0")),
+    );
+    const expected =
+      '<svg viewBox="0 0 10 10"><linearGradient id="g" /><path d="M0 0" /></svg>';
+    expect(node.render({ format: "minify", syntax: "xml" })).toBe(expected);
+    expect(node.render({ format: "pretty", syntax: "xml" })).toBe(expected);
+  });
+
+  it("Keeps the content of HTML void element names", () => {
+    const node = el("item", el("link", text("https://example.com/")), el("enclosure"));
+    const expected = "<item><link>https://example.com/</link><enclosure /></item>";
+    expect(node.render({ format: "minify", syntax: "xml" })).toBe(expected);
+    expect(node.render({ format: "pretty", syntax: "xml" })).toBe(expected);
+  });
+
+  it("Pretty-prints XHTML documents", () => {
+    const node = el("div", el("p", text("a")), el("div"));
+    const expected = "<div>\n  <p>a</p>\n  <div />\n</div>";
+    expect(node.render({ format: "pretty", syntax: "xml" })).toBe(expected);
+  });
+});
+
+describe("formatHtml", () => {
+  it("Returns the markup unchanged without format", () => {
+    const html = "<div>\n  <p>a</p></div>";
+    expect(formatHtml(html, {})).toBe(html);
+  });
+
+  it("Normalizes misnested markup", () => {
+    const node = el("p", el("div", text("x")));
+    expect(node.render()).toBe("<p><div>x</div></p>");
+    expect(node.render({ format: "minify" })).toBe("<p></p><div>x</div>");
+    expect(node.render({ format: "pretty" })).toBe("<p></p>\n<div>x</div>");
+  });
+
+  it("Formats markup from custom nodes and raw nodes", () => {
+    const custom: Node = { render: () => "<section><p>custom</p></section>" };
+    const node = el("main", custom, raw("<aside><p>raw</p></aside>"));
+    const expected = [
+      "<main>",
+      "  <section>",
+      "    <p>custom</p>",
+      "  </section>",
+      "  <aside>",
+      "    <p>raw</p>",
+      "  </aside>",
+      "</main>",
+    ].join("\n");
+    expect(node.render({ format: "pretty" })).toBe(expected);
+  });
+});
@@ -0,0 +1,253 @@
+import { escapeHtml, RenderOptions, voidElements } from "./nodx.js";
+import { HtmlAttribute, HtmlElement, HtmlNode, parseHtmlTree } from "./parser.js";
+
+/**
+ * The elements laid out as blocks by browsers, which are put on their own line when
+ * pretty-printing. Any other element is inline and is kept on the line of its siblings.
+ */
+const blockElements: ReadonlySet<string> = new Set([
+  "address",
+  "article",
+  "aside",
+  "base",
+  "blockquote",
+  "body",
+  "caption",
+  "col",
+  "colgroup",
+  "dd",
+  "details",
+  "dialog",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "head",
+  "header",
+  "hgroup",
+  "hr",
+  "html",
+  "legend",
+  "li",
+  "link",
+  "main",
+  "menu",
+  "meta",
+  "nav",
+  "noscript",
+  "ol",
+  "optgroup",
+  "option",
+  "p",
+  "pre",
+  "script",
+  "search",
+  "section",
+  "style",
+  "summary",
+  "table",
+  "tbody",
+  "td",
+  "template",
+  "tfoot",
+  "th",
+  "thead",
+  "title",
+  "tr",
+  "ul",
+]);
+
+/**
+ * The elements whose whitespace is significant, which are never reformatted.
+ */
+const whitespaceSensitiveElements: ReadonlySet<string> = new Set([
+  "pre",
+  "textarea",
+  "script",
+  "style",
+]);
+
+/**
+ * Reformats rendered HTML, see `RenderOptions.format`:
+ * - `"pretty"`: adjacent block elements are put on their own line and indented, inline content
+ *   and text are kept exactly as they are, and whitespace-sensitive elements (`pre`, `textarea`,
+ *   `script`, `style`) are kept as-is.
+ * - `"minify"`: whitespace in text is collapsed to a single space (except in whitespace-sensitive
+ *   elements) and attribute values are unquoted when the quotes are optional.
+ *
+ * The HTML is parsed with `parseHtmlTree()` and serialized again. Well-nested markup builds the
+ * same DOM as the original one, up to whitespace that browsers do not render. Misnested markup
+ * is normalized by the simplified tree builder of `parseHtmlTree()`, which does not follow every
+ * recovery rule of browsers: `<p><div>x</div></p>` is formatted as `<p></p><div>x</div>`, while
+ * browsers build `<p></p><div>x</div><p></p>` from it.
+ *
+ * @param {string} html - The HTML to reformat.
+ * @param {RenderOptions} options - The options, `format` selects the mode.
+ * @returns {string} The reformatted HTML, or the same HTML if no format is selected.
+ */
+export function formatHtml(html: string, options: RenderOptions): string {
+  if (options.format === undefined) return html;
+
+  const nodes = parseHtmlTree(html, { xml: options.syntax === "xml" });
+  if (options.format === "minify") {
+    return serializeNodes(nodes, options, true);
+  }
+  return prettyNodes(withoutBlockWhitespace(nodes), options, 0);
+}
+
+function prettyNodes(
+  nodes: HtmlNode[],
+  options: RenderOptions,
+  depth: number,
+): string {
+  const indent = (options.indent ?? "  ").repeat(depth);
+  let html = "";
+  nodes.forEach((node, i) => {
+    if (!isBlock(node)) {
+      html += serializeNode(node, options, false);
+      return;
+    }
+    // Only the whitespace between two blocks is not rendered, any other text is kept as-is.
+    if (i > 0 && isBlock(nodes[i - 1])) html += `\n${indent}`;
+    html += prettyNode(node, options, depth);
+  });
+  return html;
+}
+
+function prettyNode(
+  node: HtmlNode,
+  options: RenderOptions,
+  depth: number,
+): string {
+  if (node.kind !== "element" || whitespaceSensitiveElements.has(node.name)) {
+    return serializeNode(node, options, false);
+  }
+
+  const children = withoutBlockWhitespace(node.children);
+  const breakStart = children.length > 0 && isBlock(children[0]);
+  const breakEnd = children.length > 0 && isBlock(children[children.length - 1]);
+  const breakInside = children.some((child, i) => i > 0 && isBlock(child) && isBlock(children[i - 1]));
+  if (!breakStart && !breakEnd && !breakInside) {
+    return serializeNode(node, options, false);
+  }
+
+  const indent = (options.indent ?? "  ").repeat(depth);
+  const childIndent = (options.indent ?? "  ").repeat(depth + 1);
+  return `${openTag(node, options, false)}${breakStart ? `\n${childIndent}` : ""}${
+    prettyNodes(children, options, depth + 1)
+  }${breakEnd ? `\n${indent}` : ""}</${node.name}>`;
+}
+
+/**
+ * Drops the whitespace-only texts between two blocks, or between a block and the start or the
+ * end of its parent, which browsers do not render.
+ */
+function withoutBlockWhitespace(nodes: HtmlNode[]): HtmlNode[] {
+  return nodes.filter((node, i) =>
+    node.kind !== "text" ||
+    node.raw ||
+    !/^[ \t\n\r\f]*$/.test(node.text) ||
+    (i > 0 && !isBlock(nodes[i - 1])) ||
+    (i < nodes.length - 1 && !isBlock(nodes[i + 1]))
+  );
+}
+
+function isBlock(node: HtmlNode): boolean {
+  if (node.kind === "doctype") return true;
+  return node.kind === "element" && !node.foreign && blockElements.has(node.name);
+}
+
+/**
+ * Checks whether an element is a void element, which is not the case of any element in the
+ * `"xml"` syntax.
+ */
+function isVoid(node: HtmlElement, options: RenderOptions): boolean {
+  return options.syntax !== "xml" && !node.foreign && voidElements.has(node.name);
+}
+
+function serializeNodes(
+  nodes: HtmlNode[],
+  options: RenderOptions,
+  minify: boolean,
+): string {
+  let html = "";
+  for (const node of nodes) html += serializeNode(node, options, minify);
+  return html;
+}
+
+function serializeNode(
+  node: HtmlNode,
+  options: RenderOptions,
+  minify: boolean,
+): string {
+  switch (node.kind) {
+    case "text":
+      if (node.raw) return node.text;
+      return escapeHtml(minify ? node.text.replace(/[ \t\n\r\f]+/g, " ") : node.text);
+    case "comment":
+      return `<!--${node.text}-->`;
+    case "doctype":
+      return `<!${node.text}>`;
+    case "element": {
+      if (isVoid(node, options)) return openTag(node, options, minify);
+      if (node.children.length === 0 && options.syntax === "xml") {
+        return openTag(node, options, minify, true);
+      }
+
+      // Whitespace is significant in some elements, their text is never collapsed.
+      const collapse = minify && !whitespaceSensitiveElements.has(node.name);
+      return `${openTag(node, options, minify)}${serializeNodes(node.children, options, collapse)}</${node.name}>`;
+    }
+  }
+}
+
+function openTag(
+  node: HtmlElement,
+  options: RenderOptions,
+  minify: boolean,
+  empty = false,
+): string {
+  let attributes = "";
+  for (const attribute of node.attributes) {
+    attributes += serializeAttribute(attribute, options, minify);
+  }
+
+  const selfClosed = options.syntax === "xml"
+    ? empty
+    : isVoid(node, options) && options.syntax === "xhtml";
+  if (selfClosed) {
+    return `<${node.name}${attributes} />`;
+  }
+  return `<${node.name}${attributes}>`;
+}
+
+function serializeAttribute(
+  attribute: HtmlAttribute,
+  options: RenderOptions,
+  minify: boolean,
+): string {
+  const xhtml = options.syntax === "xhtml" || options.syntax === "xml";
+  if (attribute.value === true) {
+    return xhtml
+      ? ` ${attribute.name}="${escapeHtml(attribute.name)}"`
+      : ` ${attribute.name}`;
+  }
+
+  const value = escapeHtml(attribute.value);
+  if (minify && !xhtml) {
+    // Quotes are optional around values without whitespace, quotes, `=`, `<`, `>` or backticks.
+    if (value === "") return ` ${attribute.name}`;
+    if (/^[^\s"'=<>`]+$/.test(value)) return ` ${attribute.name}=${value}`;
+  }
+  return ` ${attribute.name}="${value}"`;
+}
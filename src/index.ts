@@ -1,3 +1,67 @@
 export * from "./nodx.js";
 export * from "./elements.js";
 export * from "./attributes.js";
+export * from "./css.js";
+export * from "./document.js";
+export * from "./parser.js";
+export * from "./sanitize.js";
+export * from "./format.js";
+export * from "./svg.js";
+// The JSX runtime is published as the `nodx/jsx-runtime` entry point, only its types are exported here.
+export type {
+  JsxChild,
+  JsxAttributeValue,
+  JsxClassValue,
+  Component,
+  HtmlProps,
+  VoidProps,
+  AnchorProps,
+  AreaProps,
+  MediaProps,
+  VideoProps,
+  BaseProps,
+  QuoteProps,
+  ModProps,
+  ButtonProps,
+  CanvasProps,
+  ColProps,
+  DataProps,
+  DetailsProps,
+  DialogProps,
+  EmbedProps,
+  FieldsetProps,
+  FormProps,
+  IframeProps,
+  ImgProps,
+  InputProps,
+  LabelProps,
+  LiProps,
+  LinkProps,
+  MapProps,
+  MetaProps,
+  MeterProps,
+  ObjectProps,
+  OlProps,
+  OptgroupProps,
+  OptionProps,
+  OutputProps,
+  ProgressProps,
+  ScriptProps,
+  SelectProps,
+  SlotProps,
+  SourceProps,
+  StyleProps,
+  TdProps,
+  ThProps,
+  TimeProps,
+  TextareaProps,
+  TrackProps,
+  SvgProps,
+  HtmlIntrinsicElements,
+  SvgIntrinsicElements,
+} from "./jsx-runtime.js";
+export * from "./template.js";
+export * from "./query.js";
+export * from "./transform.js";
+export * from "./compile.js";
+export * from "./dom.js";
@@ -0,0 +1,21 @@
+/**
+ * The development JSX runtime of nodx, published as the `nodx/jsx-dev-runtime` entry point.
+ * It is used instead of `nodx/jsx-runtime` by the `"react-jsxdev"` compiler option and by
+ * bundlers in development mode, and renders exactly the same nodes.
+ */
+import { Component, Fragment, jsx, JsxChild } from "./jsx-runtime.js";
+import { Node } from "./nodx.js";
+
+export { Fragment };
+export type { JSX } from "./jsx-runtime.js";
+
+/**
+ * Creates the node of a JSX element in development mode, see `jsx()`. The debugging
+ * information added by the compiler (source location, static children) is ignored.
+ */
+export function jsxDEV<P extends object>(
+  type: string | Component<P>,
+  props: P & { children?: JsxChild },
+): Node {
+  return jsx(type, props);
+}
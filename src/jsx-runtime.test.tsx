@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from "vitest";
+import { Fragment, jsx, JsxChild } from "./jsx-runtime.js";
+import {
+  attr,
+  createContext,
+  group,
+  Node,
+  raw,
+  renderAsync,
+  asyncx,
+  text,
+  trustedUrl,
+} from "./nodx.js";
+import { div, p } from "./elements.js";
+
+describe("JSX runtime", () => {
+  it("Renders intrinsic elements with attributes and children", () => {
+    const node = (
+      <div id="main" data-count={3}>
+        <p>Hello <b>world</b></p>
+      </div>
+    );
+    const expected = '<div id="main" data-count="3"><p>Hello <b>world</b></p></div>';
+    expect(node.render()).toBe(expected);
+  });
+
+  it("Escapes string children and attribute values", () => {
+    const name = '<script>alert("x")</script>';
+    const node = <p title={name}>{name}</p>;
+    const expected =
+      '<p title="&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;">&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>';
+    expect(node.render()).toBe(expected);
+  });
+
+  it("Maps className and htmlFor", () => {
+    const node = (
+      <label className="field" htmlFor="email">
+        Email
+      </label>
+    );
+    expect(node.render()).toBe('<label class="field" for="email">Email</label>');
+  });
+
+  it("Accepts classx and stylex inputs", () => {
+    const node = (
+      <div class={["card", { active: true, hidden: false }]} style={{ marginTop: "1px" }} />
+    );
+    expect(node.render()).toBe('<div class="card active" style="margin-top: 1px"></div>');
+  });
+
+  it("Renders boolean attributes and skips empty props", () => {
+    const node = (
+      <input type="checkbox" checked disabled={false} placeholder={undefined} />
+    );
+    expect(node.render()).toBe('<input type="checkbox" checked>');
+  });
+
+  it("Skips boolean, null and undefined children and flattens arrays", () => {
+    const items = ["a", "b"];
+    const node = (
+      <ul>
+        {false}
+        {null}
+        {undefined}
+        {true}
+        {items.map((item) => (
+          <li>{item}</li>
+        ))}
+        {0}
+      </ul>
+    );
+    expect(node.render()).toBe("<ul><li>a</li><li>b</li>0</ul>");
+  });
+
+  it("Uses nodes as children as-is", () => {
+    const node = (
+      <div>
+        {attr("role", "note")}
+        {raw("<b>trusted</b>")}
+        {p(text("helper"))}
+      </div>
+    );
+    expect(node.render()).toBe('<div role="note"><b>trusted</b><p>helper</p></div>');
+  });
+
+  it("Checks URL attributes", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    expect((<a href="javascript:alert(1)">x</a>).render()).toBe(
+      '<a href="about:invalid#nodx-unsafe-url">x</a>',
+    );
+    expect((<a href={trustedUrl("javascript:void(0)")}>x</a>).render()).toBe(
+      '<a href="javascript:void(0)">x</a>',
+    );
+    vi.restoreAllMocks();
+  });
+
+  it("Renders fragments", () => {
+    const node = (
+      <>
+        <p>One</p>
+        <p>Two</p>
+      </>
+    );
+    expect(node.render()).toBe("<p>One</p><p>Two</p>");
+    expect(Fragment({}).render()).toBe(group().render());
+  });
+
+  it("Renders function components with props and children", () => {
+    function Card(props: { title: string; children?: JsxChild }): Node {
+      return (
+        <article class="card">
+          <h2>{props.title}</h2>
+          {props.children}
+        </article>
+      );
+    }
+    const node = (
+      <Card title="Tom & Jerry">
+        <p>Hi</p>
+      </Card>
+    );
+    const expected = '<article class="card"><h2>Tom &amp; Jerry</h2><p>Hi</p></article>';
+    expect(node.render()).toBe(expected);
+  });
+
+  it("Renders SVG with case-sensitive attributes", () => {
+    const node = (
+      <svg viewBox="0 0 24 24" stroke-width={2}>
+        <linearGradient id="g" />
+        <path d="M0 0L24 24" />
+      </svg>
+    );
+    const expected =
+      '<svg viewBox="0 0 24 24" stroke-width="2"><linearGradient id="g" /><path d="M0 0L24 24" /></svg>';
+    expect(node.render({ syntax: "xml" })).toBe(expected);
+  });
+
+  it("Composes with helpers, contexts and async nodes", async () => {
+    const theme = createContext("light");
+    const node = div(
+      theme.provide(
+        "dark",
+        <main>{theme.consume((value) => <p>{value}</p>)}</main>,
+      ),
+      <footer>{asyncx(async () => <small>async</small>)}</footer>,
+    );
+    expect(await renderAsync(node)).toBe(
+      "<div><main><p>dark</p></main><footer><small>async</small></footer></div>",
+    );
+  });
+
+  it("Can be called without compilation", () => {
+    const node = jsx("p", { className: "a", children: ["x", 1] });
+    expect(node.render()).toBe('<p class="a">x1</p>');
+  });
+});
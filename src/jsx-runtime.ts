@@ -0,0 +1,720 @@
+/**
+ * The JSX runtime of nodx, published as the `nodx/jsx-runtime` entry point.
+ *
+ * Set `"jsx": "react-jsx"` and `"jsxImportSource": "nodx"` in `tsconfig.json` to write nodes
+ * with TSX. Intrinsic elements (`<div>`) are created with `el()`, their props become attributes
+ * and their children become child nodes:
+ * - String and number children are escaped text, like `text()`. Node children are used as-is,
+ *   so `raw()`, `attr()` and any other node can be used as a child.
+ * - `true`, `false`, `null` and `undefined` children render nothing, like in React.
+ * - `className` and `htmlFor` render the `class` and `for` attributes. `class`/`className`
+ *   also accept the inputs of `classx()` and `style` accepts the inputs of `stylex()`.
+ * - Other props are rendered with their name as-is (`tabindex`, `aria-label`, `viewBox`):
+ *   `true` renders a boolean attribute, and `false`, `null` and `undefined` render nothing.
+ *
+ * Function components receive their props (including `children`) and return a node.
+ *
+ * Example usage:
+ * ```tsx
+ * function Card(props: { title: string; children?: JsxChild }): Node {
+ *   return (
+ *     <article className={["card", { active: true }]}>
+ *       <h2>{props.title}</h2>
+ *       {props.children}
+ *     </article>
+ *   );
+ * }
+ *
+ * (<Card title="Tom & Jerry"><p>Hi</p></Card>).render();
+ * // Output: '<article class="card active"><h2>Tom &amp; Jerry</h2><p>Hi</p></article>'
+ * ```
+ */
+import {
+  attr,
+  classx,
+  el,
+  group,
+  Node,
+  SafeUrl,
+  StyleInput,
+  stylex,
+  text,
+} from "./nodx.js";
+
+/**
+ * A child of a JSX element: a node, a text, or a nested list of children. Booleans, `null`
+ * and `undefined` render nothing, so conditions such as `{isAdmin && <Admin />}` can be used.
+ */
+export type JsxChild =
+  | Node
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | JsxChild[];
+
+/**
+ * The value of an attribute prop. `true` renders a boolean attribute, and `false`, `null` and
+ * `undefined` render nothing.
+ */
+export type JsxAttributeValue =
+  | string
+  | number
+  | boolean
+  | SafeUrl
+  | null
+  | undefined;
+
+/**
+ * The value of the `class` and `className` props, see `classx()`.
+ */
+export type JsxClassValue =
+  | string
+  | { [key: string]: boolean }
+  | Array<string | { [key: string]: boolean }>
+  | null
+  | undefined;
+
+/**
+ * A function component, which receives its props and returns a node.
+ */
+export type Component<P = {}> = (props: P & { children?: JsxChild }) => Node;
+
+/**
+ * The props accepted by every HTML element.
+ */
+export interface HtmlProps {
+  children?: JsxChild;
+  key?: string | number;
+  id?: string;
+  class?: JsxClassValue;
+  className?: JsxClassValue;
+  style?: StyleInput;
+  title?: string;
+  lang?: string;
+  dir?: "ltr" | "rtl" | "auto";
+  hidden?: boolean | "until-found";
+  inert?: boolean;
+  tabindex?: number | string;
+  accesskey?: string;
+  autofocus?: boolean;
+  contenteditable?: boolean | "true" | "false" | "plaintext-only";
+  draggable?: boolean | "true" | "false";
+  spellcheck?: boolean | "true" | "false";
+  translate?: "yes" | "no";
+  enterkeyhint?: string;
+  inputmode?: string;
+  is?: string;
+  nonce?: string;
+  part?: string;
+  popover?: boolean | "auto" | "manual";
+  role?: string;
+  slot?: string;
+  [data: `data-${string}`]: JsxAttributeValue;
+  [aria: `aria-${string}`]: JsxAttributeValue;
+  [hx: `hx-${string}`]: JsxAttributeValue;
+}
+
+/**
+ * The props of void elements, which cannot have children.
+ */
+export type VoidProps<P extends HtmlProps> = Omit<P, "children"> & { children?: never };
+
+export interface AnchorProps extends HtmlProps {
+  href?: string | SafeUrl;
+  target?: string;
+  rel?: string;
+  download?: boolean | string;
+  hreflang?: string;
+  ping?: string;
+  referrerpolicy?: string;
+  type?: string;
+}
+
+export interface AreaProps extends HtmlProps {
+  alt?: string;
+  coords?: string;
+  shape?: "rect" | "circle" | "poly" | "default";
+  href?: string | SafeUrl;
+  target?: string;
+  rel?: string;
+  download?: boolean | string;
+  referrerpolicy?: string;
+}
+
+export interface MediaProps extends HtmlProps {
+  src?: string | SafeUrl;
+  autoplay?: boolean;
+  controls?: boolean;
+  crossorigin?: "anonymous" | "use-credentials";
+  loop?: boolean;
+  muted?: boolean;
+  preload?: "none" | "metadata" | "auto";
+}
+
+export interface VideoProps extends MediaProps {
+  poster?: string | SafeUrl;
+  width?: number | string;
+  height?: number | string;
+  playsinline?: boolean;
+}
+
+export interface BaseProps extends HtmlProps {
+  href?: string | SafeUrl;
+  target?: string;
+}
+
+export interface QuoteProps extends HtmlProps {
+  cite?: string | SafeUrl;
+}
+
+export interface ModProps extends QuoteProps {
+  datetime?: string;
+}
+
+export interface ButtonProps extends HtmlProps {
+  type?: "button" | "submit" | "reset";
+  name?: string;
+  value?: string | number;
+  disabled?: boolean;
+  form?: string;
+  formaction?: string | SafeUrl;
+  formmethod?: string;
+  formnovalidate?: boolean;
+  formtarget?: string;
+  popovertarget?: string;
+  popovertargetaction?: "toggle" | "show" | "hide";
+}
+
+export interface CanvasProps extends HtmlProps {
+  width?: number | string;
+  height?: number | string;
+}
+
+export interface ColProps extends HtmlProps {
+  span?: number | string;
+}
+
+export interface DataProps extends HtmlProps {
+  value?: string | number;
+}
+
+export interface DetailsProps extends HtmlProps {
+  open?: boolean;
+  name?: string;
+}
+
+export interface DialogProps extends HtmlProps {
+  open?: boolean;
+}
+
+export interface EmbedProps extends HtmlProps {
+  src?: string | SafeUrl;
+  type?: string;
+  width?: number | string;
+  height?: number | string;
+}
+
+export interface FieldsetProps extends HtmlProps {
+  disabled?: boolean;
+  form?: string;
+  name?: string;
+}
+
+export interface FormProps extends HtmlProps {
+  action?: string | SafeUrl;
+  method?: "get" | "post" | "dialog";
+  enctype?: string;
+  target?: string;
+  name?: string;
+  autocomplete?: "on" | "off";
+  novalidate?: boolean;
+  "accept-charset"?: string;
+}
+
+export interface IframeProps extends HtmlProps {
+  src?: string | SafeUrl;
+  srcdoc?: string;
+  name?: string;
+  sandbox?: string;
+  allow?: string;
+  width?: number | string;
+  height?: number | string;
+  loading?: "eager" | "lazy";
+  referrerpolicy?: string;
+}
+
+export interface ImgProps extends HtmlProps {
+  src?: string | SafeUrl;
+  srcset?: string;
+  sizes?: string;
+  alt?: string;
+  width?: number | string;
+  height?: number | string;
+  loading?: "eager" | "lazy";
+  decoding?: "sync" | "async" | "auto";
+  fetchpriority?: "high" | "low" | "auto";
+  crossorigin?: "anonymous" | "use-credentials";
+  referrerpolicy?: string;
+  usemap?: string;
+  ismap?: boolean;
+}
+
+export interface InputProps extends HtmlProps {
+  type?: string;
+  name?: string;
+  value?: string | number;
+  checked?: boolean;
+  disabled?: boolean;
+  readonly?: boolean;
+  required?: boolean;
+  multiple?: boolean;
+  placeholder?: string;
+  autocomplete?: string;
+  min?: number | string;
+  max?: number | string;
+  step?: number | string;
+  minlength?: number | string;
+  maxlength?: number | string;
+  pattern?: string;
+  size?: number | string;
+  accept?: string;
+  capture?: string;
+  list?: string;
+  form?: string;
+  alt?: string;
+  src?: string | SafeUrl;
+  width?: number | string;
+  height?: number | string;
+  formaction?: string | SafeUrl;
+  formmethod?: string;
+}
+
+export interface LabelProps extends HtmlProps {
+  for?: string;
+  htmlFor?: string;
+}
+
+export interface LiProps extends HtmlProps {
+  value?: number | string;
+}
+
+export interface LinkProps extends HtmlProps {
+  href?: string | SafeUrl;
+  rel?: string;
+  as?: string;
+  type?: string;
+  media?: string;
+  sizes?: string;
+  hreflang?: string;
+  crossorigin?: "anonymous" | "use-credentials";
+  integrity?: string;
+  referrerpolicy?: string;
+  fetchpriority?: "high" | "low" | "auto";
+  disabled?: boolean;
+}
+
+export interface MapProps extends HtmlProps {
+  name?: string;
+}
+
+export interface MetaProps extends HtmlProps {
+  name?: string;
+  content?: string;
+  charset?: string;
+  "http-equiv"?: string;
+  property?: string;
+  media?: string;
+}
+
+export interface MeterProps extends HtmlProps {
+  value?: number | string;
+  min?: number | string;
+  max?: number | string;
+  low?: number | string;
+  high?: number | string;
+  optimum?: number | string;
+}
+
+export interface ObjectProps extends HtmlProps {
+  data?: string | SafeUrl;
+  type?: string;
+  name?: string;
+  form?: string;
+  width?: number | string;
+  height?: number | string;
+}
+
+export interface OlProps extends HtmlProps {
+  start?: number | string;
+  reversed?: boolean;
+  type?: "1" | "a" | "A" | "i" | "I";
+}
+
+export interface OptgroupProps extends HtmlProps {
+  label?: string;
+  disabled?: boolean;
+}
+
+export interface OptionProps extends HtmlProps {
+  value?: string | number;
+  label?: string;
+  selected?: boolean;
+  disabled?: boolean;
+}
+
+export interface OutputProps extends HtmlProps {
+  for?: string;
+  htmlFor?: string;
+  form?: string;
+  name?: string;
+}
+
+export interface ProgressProps extends HtmlProps {
+  value?: number | string;
+  max?: number | string;
+}
+
+export interface ScriptProps extends HtmlProps {
+  src?: string | SafeUrl;
+  type?: string;
+  async?: boolean;
+  defer?: boolean;
+  nomodule?: boolean;
+  crossorigin?: "anonymous" | "use-credentials";
+  integrity?: string;
+  referrerpolicy?: string;
+}
+
+export interface SelectProps extends HtmlProps {
+  name?: string;
+  multiple?: boolean;
+  disabled?: boolean;
+  required?: boolean;
+  size?: number | string;
+  form?: string;
+  autocomplete?: string;
+}
+
+export interface SlotProps extends HtmlProps {
+  name?: string;
+}
+
+export interface SourceProps extends HtmlProps {
+  src?: string | SafeUrl;
+  srcset?: string;
+  sizes?: string;
+  type?: string;
+  media?: string;
+  width?: number | string;
+  height?: number | string;
+}
+
+export interface StyleProps extends HtmlProps {
+  media?: string;
+}
+
+export interface TdProps extends HtmlProps {
+  colspan?: number | string;
+  rowspan?: number | string;
+  headers?: string;
+}
+
+export interface ThProps extends TdProps {
+  scope?: "row" | "col" | "rowgroup" | "colgroup";
+  abbr?: string;
+}
+
+export interface TimeProps extends HtmlProps {
+  datetime?: string;
+}
+
+export interface TextareaProps extends HtmlProps {
+  name?: string;
+  rows?: number | string;
+  cols?: number | string;
+  disabled?: boolean;
+  readonly?: boolean;
+  required?: boolean;
+  placeholder?: string;
+  minlength?: number | string;
+  maxlength?: number | string;
+  wrap?: "hard" | "soft" | "off";
+  autocomplete?: string;
+  form?: string;
+}
+
+export interface TrackProps extends HtmlProps {
+  src?: string | SafeUrl;
+  kind?: "subtitles" | "captions" | "descriptions" | "chapters" | "metadata";
+  srclang?: string;
+  label?: string;
+  default?: boolean;
+}
+
+/**
+ * The props of SVG elements. SVG attributes are case-sensitive (`viewBox`) and are not
+ * checked, any attribute value is accepted.
+ */
+export interface SvgProps {
+  children?: JsxChild;
+  key?: string | number;
+  class?: JsxClassValue;
+  className?: JsxClassValue;
+  style?: StyleInput;
+  [attribute: string]: unknown;
+}
+
+/**
+ * The HTML elements of JSX with the props they accept, see the helpers of `elements.ts`.
+ */
+export interface HtmlIntrinsicElements {
+  html: HtmlProps;
+  head: HtmlProps;
+  title: HtmlProps;
+  base: VoidProps<BaseProps>;
+  link: VoidProps<LinkProps>;
+  meta: VoidProps<MetaProps>;
+  style: StyleProps;
+  body: HtmlProps;
+  article: HtmlProps;
+  section: HtmlProps;
+  nav: HtmlProps;
+  aside: HtmlProps;
+  h1: HtmlProps;
+  h2: HtmlProps;
+  h3: HtmlProps;
+  h4: HtmlProps;
+  h5: HtmlProps;
+  h6: HtmlProps;
+  hgroup: HtmlProps;
+  header: HtmlProps;
+  footer: HtmlProps;
+  address: HtmlProps;
+  p: HtmlProps;
+  hr: VoidProps<HtmlProps>;
+  pre: HtmlProps;
+  blockquote: QuoteProps;
+  ol: OlProps;
+  ul: HtmlProps;
+  menu: HtmlProps;
+  li: LiProps;
+  dl: HtmlProps;
+  dt: HtmlProps;
+  dd: HtmlProps;
+  figure: HtmlProps;
+  figcaption: HtmlProps;
+  main: HtmlProps;
+  search: HtmlProps;
+  div: HtmlProps;
+  a: AnchorProps;
+  em: HtmlProps;
+  strong: HtmlProps;
+  small: HtmlProps;
+  s: HtmlProps;
+  cite: HtmlProps;
+  q: QuoteProps;
+  dfn: HtmlProps;
+  abbr: HtmlProps;
+  ruby: HtmlProps;
+  rt: HtmlProps;
+  rp: HtmlProps;
+  data: DataProps;
+  time: TimeProps;
+  code: HtmlProps;
+  var: HtmlProps;
+  samp: HtmlProps;
+  kbd: HtmlProps;
+  sub: HtmlProps;
+  sup: HtmlProps;
+  i: HtmlProps;
+  b: HtmlProps;
+  u: HtmlProps;
+  mark: HtmlProps;
+  bdi: HtmlProps;
+  bdo: HtmlProps;
+  span: HtmlProps;
+  br: VoidProps<HtmlProps>;
+  wbr: VoidProps<HtmlProps>;
+  ins: ModProps;
+  del: ModProps;
+  picture: HtmlProps;
+  source: VoidProps<SourceProps>;
+  img: VoidProps<ImgProps>;
+  iframe: IframeProps;
+  embed: VoidProps<EmbedProps>;
+  object: ObjectProps;
+  video: VideoProps;
+  audio: MediaProps;
+  track: VoidProps<TrackProps>;
+  map: MapProps;
+  area: VoidProps<AreaProps>;
+  table: HtmlProps;
+  caption: HtmlProps;
+  colgroup: ColProps;
+  col: VoidProps<ColProps>;
+  tbody: HtmlProps;
+  thead: HtmlProps;
+  tfoot: HtmlProps;
+  tr: HtmlProps;
+  td: TdProps;
+  th: ThProps;
+  form: FormProps;
+  label: LabelProps;
+  input: VoidProps<InputProps>;
+  button: ButtonProps;
+  select: SelectProps;
+  datalist: HtmlProps;
+  optgroup: OptgroupProps;
+  option: OptionProps;
+  textarea: TextareaProps;
+  output: OutputProps;
+  progress: ProgressProps;
+  meter: MeterProps;
+  fieldset: FieldsetProps;
+  legend: HtmlProps;
+  details: DetailsProps;
+  summary: HtmlProps;
+  dialog: DialogProps;
+  script: ScriptProps;
+  noscript: HtmlProps;
+  template: HtmlProps;
+  slot: SlotProps;
+  canvas: CanvasProps;
+}
+
+/**
+ * The SVG elements of JSX that are not HTML elements, see the helpers of `svg.ts`.
+ */
+export interface SvgIntrinsicElements {
+  svg: SvgProps;
+  g: SvgProps;
+  defs: SvgProps;
+  symbol: SvgProps;
+  use: SvgProps;
+  switch: SvgProps;
+  desc: SvgProps;
+  metadata: SvgProps;
+  path: SvgProps;
+  rect: SvgProps;
+  circle: SvgProps;
+  ellipse: SvgProps;
+  line: SvgProps;
+  polyline: SvgProps;
+  polygon: SvgProps;
+  text: SvgProps;
+  tspan: SvgProps;
+  textPath: SvgProps;
+  linearGradient: SvgProps;
+  radialGradient: SvgProps;
+  stop: SvgProps;
+  pattern: SvgProps;
+  clipPath: SvgProps;
+  mask: SvgProps;
+  marker: SvgProps;
+  filter: SvgProps;
+  feBlend: SvgProps;
+  feColorMatrix: SvgProps;
+  feComposite: SvgProps;
+  feFlood: SvgProps;
+  feGaussianBlur: SvgProps;
+  feMerge: SvgProps;
+  feMergeNode: SvgProps;
+  feOffset: SvgProps;
+  feDropShadow: SvgProps;
+  animate: SvgProps;
+  animateMotion: SvgProps;
+  animateTransform: SvgProps;
+  set: SvgProps;
+  mpath: SvgProps;
+  image: SvgProps;
+  foreignObject: SvgProps;
+  view: SvgProps;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export declare namespace JSX {
+  type Element = Node;
+
+  interface ElementChildrenAttribute {
+    children: {};
+  }
+
+  interface IntrinsicElements extends HtmlIntrinsicElements, SvgIntrinsicElements {}
+}
+
+/**
+ * Appends the nodes of a JSX child to a list of nodes, flattening lists of children.
+ */
+function appendChild(nodes: Node[], child: unknown): void {
+  if (child === null || child === undefined || typeof child === "boolean") return;
+  if (Array.isArray(child)) {
+    for (const item of child) appendChild(nodes, item);
+    return;
+  }
+  if (typeof child === "string" || typeof child === "number") {
+    nodes.push(text(String(child)));
+    return;
+  }
+  nodes.push(child as Node);
+}
+
+/**
+ * Creates the attribute node of a prop, or undefined if the prop renders nothing.
+ */
+function propToAttribute(name: string, value: unknown): Node | undefined {
+  if (value === null || value === undefined || value === false) return undefined;
+
+  if (name === "class" || name === "className") {
+    if (typeof value === "string") return attr("class", value);
+    return classx(...(Array.isArray(value) ? value : [value]));
+  }
+  if (name === "style" && typeof value !== "string") {
+    return stylex(value as StyleInput);
+  }
+  if (name === "htmlFor") name = "for";
+
+  if (value === true || value instanceof SafeUrl) return attr(name, value);
+  return attr(name, String(value));
+}
+
+/**
+ * Creates the node of a JSX element. This function is called by the code compiled from TSX,
+ * and is not meant to be called directly.
+ *
+ * @param {string | Component<P>} type - The tag of an intrinsic element, or a component.
+ * @param {P} props - The props of the element, including its children.
+ * @returns {Node} The node of the element.
+ */
+export function jsx<P extends object>(
+  type: string | Component<P>,
+  props: P & { children?: JsxChild },
+): Node {
+  if (typeof type === "function") return type(props);
+
+  const attributes = props as Record<string, unknown>;
+  const children: Node[] = [];
+  for (const name in attributes) {
+    if (name === "children" || name === "key") continue;
+    const attribute = propToAttribute(name, attributes[name]);
+    if (attribute !== undefined) children.push(attribute);
+  }
+  appendChild(children, props.children);
+
+  return el(type, ...children);
+}
+
+/**
+ * Creates the node of a JSX element with several static children, see `jsx()`.
+ */
+export const jsxs = jsx;
+
+/**
+ * Groups children without a wrapping element (`<>...</>`), like `group()`.
+ */
+export function Fragment(props: { children?: JsxChild }): Node {
+  const children: Node[] = [];
+  appendChild(children, props.children);
+  return group(...children);
+}
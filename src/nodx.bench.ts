@@ -0,0 +1,120 @@
+import { bench, describe } from "vitest";
+import {
+  attr,
+  classx,
+  el,
+  elVoid,
+  escapeHtml,
+  group,
+  mapx,
+  Node,
+  renderAsync,
+  renderChunks,
+  stylex,
+  text,
+} from "./nodx.js";
+
+/**
+ * The trees are built once, so the benchmarks measure rendering only. Run them with
+ * `npm run bench` and compare the results before and after a change to the renderer.
+ */
+
+function deepTree(depth: number): Node {
+  let node: Node = text("leaf");
+  for (let i = 0; i < depth; i++) {
+    node = i % 3 === 0
+      ? group(node)
+      : el("div", classx(`level-${i}`), node);
+  }
+  return node;
+}
+
+const items = Array.from({ length: 1000 }, (_, i) => ({
+  id: i,
+  name: i % 10 === 0 ? `Item <${i}> & "friends"` : `Item ${i}`,
+  done: i % 3 === 0,
+}));
+
+const wideList = el(
+  "ul",
+  mapx(items, (item) =>
+    el(
+      "li",
+      classx("item", { done: item.done }),
+      el("a", attr("href", `/items/${item.id}`), text(item.name)),
+    )
+  ),
+);
+
+const attributeHeavy = el(
+  "form",
+  mapx(items.slice(0, 200), (item) =>
+    elVoid(
+      "input",
+      attr("id", `field-${item.id}`),
+      attr("name", `field[${item.id}]`),
+      attr("type", "text"),
+      attr("value", item.name),
+      attr("placeholder", "Type something"),
+      attr("data-index", String(item.id)),
+      attr("aria-label", `Field ${item.id}`),
+      attr("required", item.done),
+      classx("input", "input-text", { done: item.done }),
+      classx("extra"),
+      stylex({ width: "100%", color: "red" }, { color: "blue" }),
+    )
+  ),
+);
+
+const deep = deepTree(300);
+
+describe("Deep tree", () => {
+  bench("render()", () => {
+    deep.render();
+  });
+
+  bench("renderChunks()", () => {
+    for (const chunk of renderChunks(deep)) chunk.toString();
+  });
+
+  bench("renderAsync()", async () => {
+    await renderAsync(deep);
+  });
+});
+
+describe("Wide list with mapx", () => {
+  bench("render()", () => {
+    wideList.render();
+  });
+
+  bench("renderChunks()", () => {
+    for (const chunk of renderChunks(wideList)) chunk.toString();
+  });
+
+  bench("renderAsync()", async () => {
+    await renderAsync(wideList);
+  });
+});
+
+describe("Attribute-heavy markup", () => {
+  bench("render()", () => {
+    attributeHeavy.render();
+  });
+
+  bench("render() without merging", () => {
+    attributeHeavy.render({ mergeAttributes: false });
+  });
+});
+
+const plainText = "The quick brown fox jumps over the lazy dog. ".repeat(20);
+const specialText = 'The <quick> "brown" fox & the \'lazy\' dog. '.repeat(20);
+
+describe("escapeHtml", () => {
+  bench("Text without special characters", () => {
+    escapeHtml(plainText);
+  });
+
+  bench("Text with special characters", () => {
+    escapeHtml(specialText);
+  });
+});
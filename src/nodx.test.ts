@@ -1,21 +1,56 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, MockInstance, vi } from "vitest";
 import {
+  asyncx,
   attr,
+  attrIf,
   classx,
+  createContext,
   el,
   elVoid,
   escapeHtml,
   group,
   ifx,
+  isNode,
+  isSafeUrl,
+  json,
   mapx,
   Node,
+  NodeAsync,
   NodeAttribute,
   NodeElement,
+  NodeRenderError,
+  NodeWritableSink,
   NodeText,
   raw,
+  renderAsync,
+  renderChunks,
+  renderStream,
+  renderNodeAttributes,
+  renderNodeContent,
+  renderToSink,
+  safeUrl,
+  setDevMode,
+  stylex,
   text,
+  trustedUrl,
+  unsafeUrlReplacement,
+  voidElements,
 } from "./nodx.js";
 
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function silenceWarnings(): MockInstance {
+  return vi.spyOn(console, "warn").mockImplementation(() => undefined);
+}
+
+async function collect(iterable: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of iterable) chunks.push(chunk);
+  return chunks;
+}
+
 describe("escapeHtml", () => {
   it("Escape HTML", () => {
     const input = "<script>alert('XSS')</script>";
@@ -171,6 +206,7 @@ describe("NodeElement", () => {
   });
 
   it("Void element with text", () => {
+    const warn = silenceWarnings();
     const tag = "link";
     const expected = "<link>";
 
@@ -178,6 +214,7 @@ describe("NodeElement", () => {
     const got = n.render();
 
     expect(got).toBe(expected);
+    expect(warn).toHaveBeenCalledOnce();
   });
 
   it("Element with attributes", () => {
@@ -227,6 +264,7 @@ describe("NodeElement", () => {
   });
 
   it("Void element with text and attributes", () => {
+    const warn = silenceWarnings();
     const tag = "link";
     const expected = '<link rel="stylesheet" href="style.css">';
 
@@ -240,6 +278,7 @@ describe("NodeElement", () => {
     const got = n.render();
 
     expect(got).toBe(expected);
+    expect(warn).toHaveBeenCalledOnce();
   });
 
   it("Element with children in mixed order", () => {
@@ -263,6 +302,7 @@ describe("NodeElement", () => {
   });
 
   it("Void element with children in mixed order", () => {
+    const warn = silenceWarnings();
     const tag = "img";
     const expected = '<img src="image.jpg" alt="Image">';
 
@@ -277,6 +317,7 @@ describe("NodeElement", () => {
     const got = n.render();
 
     expect(got).toBe(expected);
+    expect(warn).toHaveBeenCalledOnce();
   });
 
   it("Element with nested elements", () => {
@@ -296,7 +337,7 @@ describe("NodeElement", () => {
 
   it("Element with duplicate attributes", () => {
     const tag = "div";
-    const expected = '<div class="container" class="main"></div>';
+    const expected = '<div class="container main"></div>';
 
     const n = new NodeElement(
       false,
@@ -309,6 +350,21 @@ describe("NodeElement", () => {
     expect(got).toBe(expected);
   });
 
+  it("Element with duplicate attributes and merging disabled", () => {
+    const tag = "div";
+    const expected = '<div class="container" class="main"></div>';
+
+    const n = new NodeElement(
+      false,
+      tag,
+      new NodeAttribute("class", "container"),
+      new NodeAttribute("class", "main"),
+    );
+    const got = n.render({ mergeAttributes: false });
+
+    expect(got).toBe(expected);
+  });
+
   it("Element with special attributes", () => {
     const tag = "button";
     const expected =
@@ -485,10 +541,14 @@ describe("elVoid", () => {
     expect(element.render()).toBe(expected);
   });
 
-  it("Void element with children (should ignore children)", () => {
+  it("Void element with children (should warn and ignore children)", () => {
+    const warn = silenceWarnings();
     const element = elVoid("input", text("Should be ignored"));
     const expected = "<input>";
     expect(element.render()).toBe(expected);
+    expect(warn).toHaveBeenCalledWith(
+      "nodx: <input> is a void element and cannot have content, its content children are ignored",
+    );
   });
 });
 
@@ -732,9 +792,33 @@ describe("NodeElement Edge Cases", () => {
       attr("data-test", "value2"),
       attr("data-test", "value3"),
     );
-    const expected =
-      '<div data-test="value1" data-test="value2" data-test="value3"></div>';
+    const expected = '<div data-test="value3"></div>';
+    expect(n.render()).toBe(expected);
+    expect(n.render({ mergeAttributes: false })).toBe(
+      '<div data-test="value1" data-test="value2" data-test="value3"></div>',
+    );
+  });
+
+  it("Deeply nested elements and fragments", () => {
+    let n: Node = text("leaf");
+    for (let i = 0; i < 1000; i++) {
+      n = i % 2 === 0 ? el("div", n) : group(n);
+    }
+    const expected = `${"<div>".repeat(500)}leaf${"</div>".repeat(500)}`;
     expect(n.render()).toBe(expected);
+    expect([...renderChunks(n)].join("")).toBe(expected);
+  });
+
+  it("Raw text and empty elements nested in fragments", () => {
+    const n = el(
+      "svg",
+      group(el("script", group(raw("a</script>"), raw("<!--b")))),
+      group(el("g"), el("g", group())),
+    );
+    expect(n.render()).toBe("<svg><script>a<\\/script><\\!--b</script><g></g><g></g></svg>");
+    expect(n.render({ syntax: "xml" })).toBe(
+      "<svg><script>a<\\/script><\\!--b</script><g /><g /></svg>",
+    );
   });
 });
 
@@ -762,6 +846,31 @@ describe("escapeHtml Edge Cases", () => {
     const got = escapeHtml(input);
     expect(got).toBe(expected);
   });
+
+  it("String with repeated special characters at both ends", () => {
+    const input = "<<a&&b>>";
+    const expected = "&lt;&lt;a&amp;&amp;b&gt;&gt;";
+    const got = escapeHtml(input);
+    expect(got).toBe(expected);
+  });
+
+  it("Same output as escaping each character separately", () => {
+    const alphabet = ["a", "&", "<", ">", "'", '"', "😊", " "];
+    const reference = (input: string): string =>
+      input
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+    for (let seed = 0; seed < 500; seed++) {
+      let input = "";
+      for (let i = 0, n = seed; i < seed % 12; i++, n = Math.floor(n / alphabet.length) + i) {
+        input += alphabet[n % alphabet.length];
+      }
+      expect(escapeHtml(input)).toBe(reference(input));
+    }
+  });
 });
 
 /**
@@ -835,3 +944,1212 @@ describe("Combined Helpers", () => {
     expect(nav.render()).toBe(expected);
   });
 });
+
+describe("NodeElement chunks", () => {
+  it("Chunks match render output", () => {
+    const n = new NodeElement(
+      false,
+      "div",
+      new NodeAttribute("class", "container"),
+      new NodeText("Hello"),
+      new NodeElement(true, "img", new NodeAttribute("src", "a.png")),
+      new NodeElement(false, "", new NodeText("grouped")),
+    );
+    expect([...n.chunks()].join("")).toBe(n.render());
+  });
+
+  it("Chunks are yielded in document order", () => {
+    const n = new NodeElement(
+      false,
+      "ul",
+      new NodeElement(false, "li", new NodeText("Item 1")),
+      new NodeElement(false, "li", new NodeText("Item 2")),
+    );
+    expect([...n.chunks()]).toEqual([
+      "<ul>",
+      "<li>",
+      "Item 1",
+      "</li>",
+      "<li>",
+      "Item 2",
+      "</li>",
+      "</ul>",
+    ]);
+  });
+
+  it("Void element ignores children", () => {
+    const warn = silenceWarnings();
+    const n = new NodeElement(true, "input", new NodeText("Ignored"));
+    expect([...n.chunks()]).toEqual(["<input>"]);
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it("Void element with empty tag renders its children", () => {
+    const n = new NodeElement(true, "", new NodeText("Content"));
+    expect([...n.chunks()].join("")).toBe(n.render());
+  });
+
+  it("Non element nodes render as a single chunk", () => {
+    expect([...renderChunks(text("a & b"))]).toEqual(["a &amp; b"]);
+  });
+});
+
+describe("renderStream", () => {
+  const page = el(
+    "html",
+    el("head", el("title", text("Stream"))),
+    el(
+      "body",
+      mapx([1, 2, 3], (num) => el("p", classx("item"), text(`Item ${num}`))),
+    ),
+  );
+
+  it("Produces the same output as render", async () => {
+    const chunks = await collect(renderStream(page));
+    expect(chunks.join("")).toBe(page.render());
+  });
+
+  it("Emits every chunk when chunkSize is 0", async () => {
+    const chunks = await collect(renderStream(page, { chunkSize: 0 }));
+    expect(chunks.length).toBe([...renderChunks(page)].length);
+    expect(chunks[0]).toBe("<html>");
+    expect(chunks.join("")).toBe(page.render());
+  });
+
+  it("Buffers chunks up to chunkSize", async () => {
+    const chunks = await collect(renderStream(page, { chunkSize: 20 }));
+    for (const chunk of chunks.slice(0, -1)) {
+      expect(chunk.length).toBeGreaterThanOrEqual(20);
+    }
+    expect(chunks.join("")).toBe(page.render());
+  });
+
+  it("Empty group produces no chunks", async () => {
+    const chunks = await collect(renderStream(group()));
+    expect(chunks).toEqual([]);
+  });
+});
+
+describe("renderToSink", () => {
+  const page = el("div", mapx(["a", "b", "c"], (item) => el("span", text(item))));
+
+  it("Writes to a Node.js writable and ends it", async () => {
+    const written: string[] = [];
+    let ended = false;
+    const sink = {
+      write: (chunk: string) => {
+        written.push(chunk);
+        return true;
+      },
+      once: () => undefined,
+      removeListener: () => undefined,
+      end: () => {
+        ended = true;
+      },
+      destroy: () => undefined,
+    };
+
+    await renderToSink(page, sink, { chunkSize: 0 });
+    expect(written.join("")).toBe(page.render());
+    expect(ended).toBe(true);
+  });
+
+  it("Waits for drain on a Node.js writable", async () => {
+    const written: string[] = [];
+    let drains = 0;
+    const sink = {
+      write: (chunk: string) => {
+        written.push(chunk);
+        return false;
+      },
+      once: (event: string, listener: () => void) => {
+        if (event !== "drain") return;
+        drains++;
+        setTimeout(listener, 0);
+      },
+      removeListener: () => undefined,
+      end: () => undefined,
+      destroy: () => undefined,
+    };
+
+    await renderToSink(page, sink, { chunkSize: 0 });
+    expect(written.join("")).toBe(page.render());
+    expect(drains).toBe(written.length);
+  });
+
+  it("Does not end the sink when end is false", async () => {
+    let ended = false;
+    const sink = {
+      write: () => true,
+      once: () => undefined,
+      removeListener: () => undefined,
+      end: () => {
+        ended = true;
+      },
+      destroy: () => undefined,
+    };
+
+    await renderToSink(page, sink, { end: false });
+    expect(ended).toBe(false);
+  });
+
+  /**
+   * Creates a Node.js writable that signals backpressure on every write, like a slow socket.
+   */
+  function slowSink(): NodeWritableSink & { written: string[]; emit: (event: string, error?: unknown) => void } {
+    const listeners = new Map<string, Set<(error?: unknown) => void>>();
+    const sink = {
+      written: [] as string[],
+      destroyed: false,
+      write: (chunk: string) => {
+        sink.written.push(chunk);
+        return false;
+      },
+      once: (event: string, listener: (error?: unknown) => void) => {
+        if (!listeners.has(event)) listeners.set(event, new Set());
+        listeners.get(event)?.add(listener);
+      },
+      removeListener: (event: string, listener: (error?: unknown) => void) => {
+        listeners.get(event)?.delete(listener);
+      },
+      emit: (event: string, error?: unknown) => {
+        for (const listener of listeners.get(event) ?? []) listener(error);
+      },
+      end: () => undefined,
+      destroy: () => {
+        if (sink.destroyed) return;
+        sink.destroyed = true;
+        sink.emit("close");
+      },
+    };
+    return sink;
+  }
+
+  it("Rejects when a Node.js writable is destroyed mid-render", async () => {
+    const sink = slowSink();
+    const rendering = renderToSink(page, sink, { chunkSize: 0 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    sink.destroy();
+
+    await expect(rendering).rejects.toThrow(
+      "nodx: the sink was closed before the node was fully rendered",
+    );
+    expect(sink.written).toHaveLength(1);
+  });
+
+  it("Rejects when a Node.js writable fails", async () => {
+    const sink = slowSink();
+    const destroy = vi.spyOn(sink, "destroy");
+    const rendering = renderToSink(page, sink, { chunkSize: 0 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    sink.emit("error", new Error("EPIPE"));
+
+    await expect(rendering).rejects.toThrow("EPIPE");
+    expect(destroy).toHaveBeenCalledWith(new Error("EPIPE"));
+  });
+
+  it("Destroys a Node.js writable when the rendering fails", async () => {
+    const sink = slowSink();
+    sink.write = () => true;
+    const failing = el("div", asyncx(async () => {
+      throw new Error("boom");
+    }));
+
+    await expect(renderToSink(failing, sink)).rejects.toThrow("boom");
+    expect(sink.destroyed).toBe(true);
+  });
+
+  it("Writes to a WHATWG WritableStream and closes it", async () => {
+    const written: string[] = [];
+    let closed = false;
+    const sink = new WritableStream<string>({
+      write: (chunk) => {
+        written.push(chunk);
+      },
+      close: () => {
+        closed = true;
+      },
+    });
+
+    await renderToSink(page, sink, { chunkSize: 0 });
+    expect(written.join("")).toBe(page.render());
+    expect(closed).toBe(true);
+  });
+});
+
+describe("NodeAsync", () => {
+  const delay = async (ms: number): Promise<void> =>
+    await new Promise((resolve) => setTimeout(resolve, ms));
+
+  it("Resolves a promise of a node", async () => {
+    const n = new NodeAsync(Promise.resolve(text("Loaded")));
+    expect(await renderAsync(n)).toBe("Loaded");
+  });
+
+  it("Resolves an async component function", async () => {
+    const n = asyncx(async () => {
+      await delay(1);
+      return el("p", text("Loaded"));
+    });
+    expect(await renderAsync(el("div", n))).toBe("<div><p>Loaded</p></div>");
+  });
+
+  it("Calls the component function on every render", async () => {
+    let calls = 0;
+    const n = asyncx(() => text(`Call ${++calls}`));
+    expect(await renderAsync(n)).toBe("Call 1");
+    expect(await renderAsync(n)).toBe("Call 2");
+  });
+
+  it("Throws when rendered synchronously", () => {
+    const n = el("div", asyncx(async () => text("Loaded")));
+    expect(() => n.render()).toThrow(/renderAsync/);
+    expect(() => [...renderChunks(n)]).toThrow(/renderAsync/);
+  });
+
+  it("Renders synchronous trees like render", async () => {
+    const warn = silenceWarnings();
+    const n = el(
+      "ul",
+      attr("class", "list"),
+      mapx(["a", "b"], (item) => el("li", text(item))),
+      elVoid("input", text("Ignored")),
+    );
+    expect(await renderAsync(n)).toBe(n.render());
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("Keeps document order while resolving siblings concurrently", async () => {
+    const finished: string[] = [];
+    const component = (name: string, ms: number): Node =>
+      asyncx(async () => {
+        await delay(ms);
+        finished.push(name);
+        return el("section", text(name));
+      });
+
+    const n = el("main", component("slow", 20), component("fast", 1));
+    const got = await renderAsync(n);
+
+    expect(got).toBe("<main><section>slow</section><section>fast</section></main>");
+    expect(finished).toEqual(["fast", "slow"]);
+  });
+
+  it("Resolves nested async nodes", async () => {
+    const n = el(
+      "div",
+      asyncx(async () => el("ul", asyncx(async () => el("li", text("Deep"))))),
+    );
+    expect(await renderAsync(n)).toBe("<div><ul><li>Deep</li></ul></div>");
+  });
+
+  it("Reports the element path of a failing node", async () => {
+    const n = el(
+      "html",
+      el(
+        "body",
+        group(
+          el(
+            "section",
+            asyncx(async () => {
+              throw new Error("Database unavailable");
+            }),
+          ),
+        ),
+      ),
+    );
+
+    const error = await renderAsync(n).catch((error) => error);
+    expect(error).toBeInstanceOf(NodeRenderError);
+    expect(error.path).toEqual(["html", "body", "section"]);
+    expect(error.cause).toBeInstanceOf(Error);
+    expect(error.message).toBe(
+      "Failed to render async node at html > body > section: Database unavailable",
+    );
+  });
+
+  it("Reports the root path when the root node fails", async () => {
+    const n = asyncx(async () => await Promise.reject(new Error("Boom")));
+    await expect(renderAsync(n)).rejects.toThrow(
+      "Failed to render async node at <root>: Boom",
+    );
+  });
+
+  it("Streams async nodes in document order", async () => {
+    const n = el(
+      "body",
+      asyncx(async () => {
+        await delay(5);
+        return el("p", text("First"));
+      }),
+      asyncx(async () => el("p", text("Second"))),
+    );
+    const chunks = await collect(renderStream(n));
+    expect(chunks.join("")).toBe(await renderAsync(n));
+  });
+
+  it("Starts every async descendant before streaming the first one", async () => {
+    const started: string[] = [];
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const slow = (name: string): Node =>
+      asyncx(async () => {
+        started.push(name);
+        await gate;
+        return text(name);
+      });
+    const n = el(
+      "main",
+      el("section", el("p", slow("a"))),
+      el("aside", el("div", asyncx(async () => el("b", slow("b"))))),
+    );
+
+    const stream = renderStream(n, { chunkSize: 0 });
+    const first = await stream.next();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(started).toEqual(["a", "b"]);
+
+    release();
+    const rest = await collect(stream);
+    expect(String(first.value) + rest.join("")).toBe(
+      "<main><section><p>a</p></section><aside><div><b>b</b></div></aside></main>",
+    );
+  });
+
+  it("Yields the first chunk before rendering the later siblings", async () => {
+    const item = createContext(0);
+    const rendered: number[] = [];
+    const n = el(
+      "div",
+      el("h1", text("Items")),
+      asyncx(async () => text("async")),
+      mapx([1, 2, 3, 4, 5], (i) =>
+        item.provide(i, el("p", item.consume((value) => {
+          rendered.push(value);
+          return text(String(value));
+        })))
+      ),
+    );
+
+    const stream = renderStream(n, { chunkSize: 0 });
+    expect((await stream.next()).value).toBe("<div>");
+    expect(rendered).toEqual([]);
+
+    const rest = await collect(stream);
+    expect(rest.join("")).toBe("<h1>Items</h1>async<p>1</p><p>2</p><p>3</p><p>4</p><p>5</p></div>");
+    expect(rendered).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("Flushes buffered chunks before waiting on an async node", async () => {
+    const n = el(
+      "html",
+      el("head", el("title", text("Title"))),
+      el("body", asyncx(async () => el("p", text("Body")))),
+    );
+    const chunks = await collect(renderStream(n));
+    expect(chunks).toEqual([
+      "<html><head><title>Title</title></head><body>",
+      "<p>Body</p></body></html>",
+    ]);
+  });
+
+  it("Streaming reports the element path of a failing node", async () => {
+    const n = el(
+      "div",
+      asyncx(async () => text("Fine")),
+      asyncx(async () => {
+        throw new Error("Broken");
+      }),
+    );
+    await expect(collect(renderStream(n))).rejects.toThrow(
+      "Failed to render async node at div: Broken",
+    );
+  });
+});
+
+describe("Custom nodes", () => {
+  class CommentNode implements Node {
+    constructor(private readonly comment: string) {}
+
+    render(): string {
+      return `<!--${this.comment}-->`;
+    }
+  }
+
+  class DataAttributesNode implements Node {
+    constructor(private readonly data: Record<string, string>) {}
+
+    render(): string {
+      return this.renderAttributes();
+    }
+
+    renderAttributes(): string {
+      return Object.entries(this.data)
+        .map(([key, value]) => new NodeAttribute(`data-${key}`, value).render())
+        .join("");
+    }
+  }
+
+  class LazyNode implements Node {
+    constructor(private readonly fn: () => Node) {}
+
+    render(): string {
+      return this.fn().render();
+    }
+
+    renderAttributes(): string {
+      return renderNodeAttributes(this.fn());
+    }
+
+    renderContent(): string {
+      return renderNodeContent(this.fn());
+    }
+  }
+
+  it("Renders a custom node without protocol methods as content", () => {
+    const n = el("div", new CommentNode("note"), text("Content"));
+    expect(n.render()).toBe("<div><!--note-->Content</div>");
+  });
+
+  it("Renders a custom attribute node inside the opening tag", () => {
+    const n = el("div", text("Content"), new DataAttributesNode({ id: "1", role: "x" }));
+    expect(n.render()).toBe('<div data-id="1" data-role="x">Content</div>');
+  });
+
+  it("Renders a custom lazy wrapper as attribute or content", () => {
+    const n = el(
+      "div",
+      new LazyNode(() => attr("id", "main")),
+      new LazyNode(() => el("p", text("Lazy"))),
+    );
+    expect(n.render()).toBe('<div id="main"><p>Lazy</p></div>');
+  });
+
+  it("Composes custom nodes with group, ifx and mapx", () => {
+    const n = el(
+      "ul",
+      group(new CommentNode("start")),
+      ifx(true, new DataAttributesNode({ state: "open" })),
+      ifx(false, new CommentNode("hidden")),
+      mapx(["a", "b"], (item) => el("li", new CommentNode(item))),
+    );
+    expect(n.render()).toBe(
+      '<ul data-state="open"><!--start--><li><!--a--></li><li><!--b--></li></ul>',
+    );
+  });
+
+  it("Streams and renders custom nodes asynchronously like render", async () => {
+    const n = el(
+      "div",
+      new DataAttributesNode({ id: "1" }),
+      new CommentNode("note"),
+      group(new LazyNode(() => el("span", text("Lazy")))),
+    );
+    expect([...renderChunks(n)].join("")).toBe(n.render());
+    expect(await renderAsync(n)).toBe(n.render());
+    expect((await collect(renderStream(n))).join("")).toBe(n.render());
+  });
+
+  it("Fragments contribute their attributes to the parent element", () => {
+    const n = el(
+      "button",
+      ifx(true, attr("disabled", "")),
+      ifx(false, attr("hidden", "")),
+      group(attr("type", "submit"), text("Send")),
+    );
+    expect(n.render()).toBe('<button disabled="" type="submit">Send</button>');
+  });
+
+  it("Detects nodes", () => {
+    expect(isNode(text("a"))).toBe(true);
+    expect(isNode(new CommentNode("a"))).toBe(true);
+    expect(isNode(null)).toBe(false);
+    expect(isNode(123)).toBe(false);
+    expect(isNode({ render: "nope" })).toBe(false);
+  });
+});
+
+describe("Void elements", () => {
+  it("Lists the void elements of the HTML standard", () => {
+    expect([...voidElements].sort()).toEqual([
+      "area",
+      "base",
+      "br",
+      "col",
+      "embed",
+      "hr",
+      "img",
+      "input",
+      "link",
+      "meta",
+      "source",
+      "track",
+      "wbr",
+    ]);
+  });
+
+  it("el creates void elements from the spec list", () => {
+    expect(el("img", attr("src", "a.png")).render()).toBe('<img src="a.png">');
+    expect(el("BR").render()).toBe("<BR>");
+  });
+
+  it("el creates non void elements for any other tag", () => {
+    expect(el("a", attr("href", "/"), text("Home")).render()).toBe(
+      '<a href="/">Home</a>',
+    );
+    expect(el("my-element").render()).toBe("<my-element></my-element>");
+  });
+
+  it("Does not warn when a void element only has attributes", () => {
+    const warn = silenceWarnings();
+    el("input", attr("type", "text"), group(attr("name", "q")), text("")).render();
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("Warns when a fragment passes content to a void element", () => {
+    const warn = silenceWarnings();
+    el("img", ifx(true, el("span"))).render();
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it("Warns when streaming or rendering asynchronously", async () => {
+    const warn = silenceWarnings();
+    const n = el("br", text("Ignored"));
+    await renderAsync(n);
+    await collect(renderStream(n));
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("Does not warn when the development mode is disabled", () => {
+    const warn = silenceWarnings();
+    setDevMode(false);
+    try {
+      expect(el("hr", text("Ignored")).render()).toBe("<hr>");
+    } finally {
+      setDevMode(true);
+    }
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
+
+describe("Boolean attributes", () => {
+  it("True renders the bare attribute name", () => {
+    expect(new NodeAttribute("checked", true).render()).toBe(" checked");
+  });
+
+  it("False renders nothing", () => {
+    expect(new NodeAttribute("checked", false).render()).toBe("");
+  });
+
+  it("True renders the name as value in XHTML", () => {
+    const n = new NodeAttribute("checked", true);
+    expect(n.render({ syntax: "xhtml" })).toBe(' checked="checked"');
+  });
+
+  it("False renders nothing in XHTML", () => {
+    const n = new NodeAttribute("checked", false);
+    expect(n.render({ syntax: "xhtml" })).toBe("");
+  });
+
+  it("String values render the same in HTML and XHTML", () => {
+    const n = new NodeAttribute("value", "a&b");
+    expect(n.render()).toBe(' value="a&amp;b"');
+    expect(n.render({ syntax: "xhtml" })).toBe(' value="a&amp;b"');
+  });
+
+  it("Renders boolean attributes inside elements", () => {
+    const n = el(
+      "input",
+      attr("type", "checkbox"),
+      attr("checked", true),
+      attr("disabled", false),
+      attr("required", true),
+    );
+    expect(n.render()).toBe('<input type="checkbox" checked required>');
+    expect(n.render({ syntax: "xhtml" })).toBe(
+      '<input type="checkbox" checked="checked" required="required" />',
+    );
+  });
+
+  it("Renders boolean attributes when streaming and rendering asynchronously", async () => {
+    const n = el("select", el("option", attr("selected", true), text("One")));
+    const options = { syntax: "xhtml" as const };
+    expect([...renderChunks(n, options)].join("")).toBe(n.render(options));
+    expect(await renderAsync(n, options)).toBe(n.render(options));
+    expect((await collect(renderStream(n, options))).join("")).toBe(
+      n.render(options),
+    );
+  });
+});
+
+describe("XML syntax", () => {
+  const options = { syntax: "xml" as const };
+
+  it("Self-closes elements without content", () => {
+    const n = el("svg", el("path", attr("d", "M0 0")), el("g"), el("div", text("")));
+    expect(n.render(options)).toBe('<svg><path d="M0 0" /><g /><div /></svg>');
+    expect(n.render()).toBe('<svg><path d="M0 0"></path><g></g><div></div></svg>');
+  });
+
+  it("Self-closes void elements and renders boolean attributes with a value", () => {
+    const n = el("p", el("br"), el("input", attr("checked", true)));
+    expect(n.render(options)).toBe('<p><br /><input checked="checked" /></p>');
+  });
+
+  it("Renders the content of HTML void element names, such as in RSS and Atom feeds", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const rss = el(
+      "channel",
+      el("title", text("News")),
+      el("link", text("https://example.com/")),
+      el("item", el("source", attr("url", "https://example.com/rss"), text("Example"))),
+    );
+    const expected = "<channel><title>News</title><link>https://example.com/</link>" +
+      '<item><source url="https://example.com/rss">Example</source></item></channel>';
+    expect(rss.render(options)).toBe(expected);
+    expect([...renderChunks(rss, options)].join("")).toBe(expected);
+    expect(await renderAsync(rss, options)).toBe(expected);
+
+    const atom = el("feed", el("link", attr("href", "https://example.com/"), attr("rel", "self")));
+    expect(atom.render(options)).toBe('<feed><link href="https://example.com/" rel="self" /></feed>');
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("Keeps the case of element and attribute names", () => {
+    const n = el("linearGradient", attr("gradientUnits", "userSpaceOnUse"));
+    expect(n.render(options)).toBe('<linearGradient gradientUnits="userSpaceOnUse" />');
+  });
+
+  it("Keeps fragments without tags", () => {
+    const n = el("g", group(), group(el("rect"), el("circle")));
+    expect(n.render(options)).toBe("<g><rect /><circle /></g>");
+  });
+
+  it("Renders the same when streaming and rendering asynchronously", async () => {
+    const n = el(
+      "svg",
+      el("g", asyncx(async () => el("path"))),
+      el("g", asyncx(async () => group())),
+      el("defs"),
+    );
+    expect(await renderAsync(n, options)).toBe("<svg><g><path /></g><g /><defs /></svg>");
+    // Streaming cannot know in advance that async content is empty, it keeps the end tag.
+    expect((await collect(renderStream(n, options))).join("")).toBe(
+      "<svg><g><path /></g><g></g><defs /></svg>",
+    );
+
+    const syncNode = el("svg", el("g", el("path")), el("defs"));
+    expect([...renderChunks(syncNode, options)].join("")).toBe(syncNode.render(options));
+  });
+});
+
+describe("attrIf", () => {
+  it("Renders a bare attribute when the condition is true", () => {
+    expect(attrIf("disabled", true).render()).toBe(" disabled");
+  });
+
+  it("Renders nothing when the condition is false", () => {
+    expect(attrIf("disabled", false).render()).toBe("");
+    expect(attrIf("aria-current", false, "page").render()).toBe("");
+  });
+
+  it("Renders the value when the condition is true", () => {
+    expect(attrIf("aria-current", true, "page").render()).toBe(
+      ' aria-current="page"',
+    );
+  });
+
+  it("Renders an empty value when the condition is true", () => {
+    expect(attrIf("alt", true, "").render()).toBe(' alt=""');
+  });
+
+  it("Renders XHTML boolean attributes", () => {
+    expect(attrIf("readonly", true).render({ syntax: "xhtml" })).toBe(
+      ' readonly="readonly"',
+    );
+  });
+
+  it("Conditionally renders attributes of an element", () => {
+    const isLoading = true;
+    const n = el(
+      "button",
+      attrIf("disabled", isLoading),
+      attrIf("aria-busy", isLoading, "true"),
+      attrIf("hidden", !isLoading),
+      text("Send"),
+    );
+    expect(n.render()).toBe('<button disabled aria-busy="true">Send</button>');
+  });
+});
+
+describe("Attribute merging", () => {
+  it("Concatenates and deduplicates class values", () => {
+    const n = el(
+      "div",
+      attr("class", "btn  primary"),
+      classx("btn", { active: true, disabled: false }),
+      attr("class", "primary large"),
+    );
+    expect(n.render()).toBe('<div class="btn primary active large"></div>');
+  });
+
+  it("Merges class values contributed by fragments", () => {
+    const button = (...children: Node[]): Node =>
+      el("button", classx("btn"), attr("type", "button"), ...children);
+    const n = button(ifx(true, classx("btn-primary")), attr("type", "submit"));
+    expect(n.render()).toBe('<button class="btn btn-primary" type="submit"></button>');
+  });
+
+  it("Keeps a single class attribute as-is", () => {
+    expect(el("div", attr("class", "a  a")).render()).toBe('<div class="a  a"></div>');
+    expect(el("div", classx()).render()).toBe('<div class=""></div>');
+  });
+
+  it("Merges style declarations with later ones winning", () => {
+    const n = el(
+      "div",
+      attr("style", "color: red; margin: 0;"),
+      attr("style", "COLOR:blue;padding:1px"),
+    );
+    expect(n.render()).toBe('<div style="margin: 0; COLOR: blue; padding: 1px"></div>');
+  });
+
+  it("Keeps semicolons inside style values", () => {
+    const n = el(
+      "div",
+      attr("style", 'background: url("a;b.png"); color: red'),
+      attr("style", "color: blue"),
+    );
+    expect(n.render()).toBe(
+      '<div style="background: url(&quot;a;b.png&quot;); color: blue"></div>',
+    );
+  });
+
+  it("Keeps custom properties case sensitive", () => {
+    const n = el("div", attr("style", "--Main: red"), attr("style", "--main: blue"));
+    expect(n.render()).toBe('<div style="--Main: red; --main: blue"></div>');
+  });
+
+  it("Keeps the last value of other attributes in the first position", () => {
+    const n = el(
+      "a",
+      attr("href", "/a"),
+      attr("id", "link"),
+      attr("HREF", "/b"),
+      text("Link"),
+    );
+    expect(n.render()).toBe('<a href="/b" id="link">Link</a>');
+  });
+
+  it("Later boolean values win", () => {
+    const n = el("input", attr("disabled", true), attr("disabled", false));
+    expect(n.render()).toBe("<input>");
+  });
+
+  it("Keeps attributes rendered by custom nodes as-is", () => {
+    const custom: Node = {
+      render: () => ' data-raw="1"',
+      renderAttributes: () => ' data-raw="1"',
+    };
+    const n = el("div", attr("id", "a"), custom, attr("id", "b"));
+    expect(n.render()).toBe('<div id="b" data-raw="1"></div>');
+  });
+
+  it("Merges attributes when streaming and rendering asynchronously", async () => {
+    const n = el("div", classx("a"), classx("b", "a"), attr("id", "x"), attr("id", "y"));
+    const expected = '<div class="a b" id="y"></div>';
+    expect(n.render()).toBe(expected);
+    expect([...renderChunks(n)].join("")).toBe(expected);
+    expect(await renderAsync(n)).toBe(expected);
+    expect((await collect(renderStream(n))).join("")).toBe(expected);
+  });
+
+  it("Renders repeated attributes as-is when merging is disabled", () => {
+    const n = el(
+      "div",
+      classx("a"),
+      classx("a"),
+      attr("style", "color: red"),
+      attr("style", "color: blue"),
+    );
+    expect(n.render({ mergeAttributes: false })).toBe(
+      '<div class="a" class="a" style="color: red" style="color: blue"></div>',
+    );
+  });
+});
+
+describe("stylex", () => {
+  it("Single style string", () => {
+    expect(stylex("color: red;").render()).toBe(' style="color: red"');
+  });
+
+  it("Style object with camelCase and kebab-case properties", () => {
+    const got = stylex({ backgroundColor: "red", "font-size": "12px" });
+    expect(got.render()).toBe(' style="background-color: red; font-size: 12px"');
+  });
+
+  it("Adds px to numbers of length properties", () => {
+    const got = stylex({ marginTop: 8, width: 100.5, padding: 0, top: -4 });
+    expect(got.render()).toBe(
+      ' style="margin-top: 8px; width: 100.5px; padding: 0; top: -4px"',
+    );
+  });
+
+  it("Keeps numbers of unitless properties", () => {
+    const got = stylex({ opacity: 0.5, zIndex: 10, "line-height": 1.5, flexGrow: 1 });
+    expect(got.render()).toBe(
+      ' style="opacity: 0.5; z-index: 10; line-height: 1.5; flex-grow: 1"',
+    );
+  });
+
+  it("Supports custom properties", () => {
+    const got = stylex({ "--gap": 4, "--mainColor": "red" });
+    expect(got.render()).toBe(' style="--gap: 4; --mainColor: red"');
+  });
+
+  it("Skips false, null, undefined and non finite values", () => {
+    const got = stylex({
+      color: "red",
+      margin: undefined,
+      padding: false,
+      border: null,
+      width: NaN,
+    });
+    expect(got.render()).toBe(' style="color: red"');
+  });
+
+  it("Supports arrays and conditional styles", () => {
+    const isActive = true;
+    const isHidden = false;
+    const got = stylex(
+      "color: red",
+      isActive && { fontWeight: 700 },
+      isHidden && { display: "none" },
+      [{ margin: 0 }, ["padding: 1px", null]],
+      undefined,
+    );
+    expect(got.render()).toBe(
+      ' style="color: red; font-weight: 700; margin: 0; padding: 1px"',
+    );
+  });
+
+  it("Later declarations win", () => {
+    const got = stylex({ color: "red", margin: 0 }, "COLOR: blue", { marginTop: 1 });
+    expect(got.render()).toBe(' style="margin: 0; color: blue; margin-top: 1px"');
+  });
+
+  it("Escapes the style attribute", () => {
+    const got = stylex({ fontFamily: '"Open Sans", <sans-serif>' });
+    expect(got.render()).toBe(
+      ' style="font-family: &quot;Open Sans&quot;, &lt;sans-serif&gt;"',
+    );
+  });
+
+  it("No styles provided", () => {
+    expect(stylex().render()).toBe(' style=""');
+  });
+
+  it("Merges with other style attributes of the element", () => {
+    const n = el("div", stylex({ color: "red" }), stylex({ color: "blue", margin: 0 }));
+    expect(n.render()).toBe('<div style="color: blue; margin: 0"></div>');
+  });
+
+  it("Rejects unknown properties at compile time", () => {
+    // @ts-expect-error The property name has a typo.
+    const got = stylex({ colr: "red" });
+    expect(got.render()).toBe(' style="colr: red"');
+  });
+});
+
+describe("Context", () => {
+  const theme = createContext("light");
+  const themed = theme.consume((value) => el("button", classx(`btn-${value}`)));
+
+  it("Reads the default value without a provider", () => {
+    const expected = '<button class="btn-light"></button>';
+    const got = themed.render();
+    expect(got).toBe(expected);
+  });
+
+  it("Reads the nearest provided value", () => {
+    const node = theme.provide(
+      "dark",
+      el("div", themed, theme.provide("blue", el("p", themed))),
+    );
+    const expected =
+      '<div><button class="btn-dark"></button><p><button class="btn-blue"></button></p></div>';
+    const got = node.render();
+    expect(got).toBe(expected);
+  });
+
+  it("Reads values provided in the render options", () => {
+    const context = new Map([[theme, "dark"]]);
+    expect(themed.render({ context })).toBe('<button class="btn-dark"></button>');
+  });
+
+  it("Sibling subtrees see independent values", async () => {
+    const node = el(
+      "main",
+      theme.provide("dark", el("section", themed)),
+      el("section", themed),
+      theme.provide("blue", el("section", themed)),
+    );
+    const expected =
+      '<main><section><button class="btn-dark"></button></section><section><button class="btn-light"></button></section><section><button class="btn-blue"></button></section></main>';
+    expect(node.render()).toBe(expected);
+    expect([...renderChunks(node)].join("")).toBe(expected);
+    expect(await renderAsync(node)).toBe(expected);
+    expect((await collect(renderStream(node))).join("")).toBe(expected);
+  });
+
+  it("Multiple contexts", () => {
+    const locale = createContext("en");
+    const node = locale.provide(
+      "es",
+      theme.provide(
+        "dark",
+        theme.consume((t) => locale.consume((l) => text(`${t}:${l}`))),
+      ),
+    );
+    const expected = "dark:es";
+    const got = node.render();
+    expect(got).toBe(expected);
+  });
+
+  it("Consumer attributes are merged into the parent element", () => {
+    const node = theme.provide(
+      "dark",
+      el("div", classx("card"), theme.consume((value) => classx(value))),
+    );
+    const expected = '<div class="card dark"></div>';
+    const got = node.render();
+    expect(got).toBe(expected);
+  });
+
+  it("Values are visible to async nodes", async () => {
+    const node = theme.provide(
+      "dark",
+      el("div", asyncx(async () => themed)),
+    );
+    const expected = '<div><button class="btn-dark"></button></div>';
+    expect(await renderAsync(node)).toBe(expected);
+    expect((await collect(renderStream(node))).join("")).toBe(expected);
+  });
+
+  it("Read from custom nodes", () => {
+    const nonce = createContext<string | undefined>(undefined);
+    const script: Node = {
+      render: (options) => `<script nonce="${nonce.read(options) ?? ""}"></script>`,
+    };
+    const expected = '<head><script nonce="abc"></script></head>';
+    const got = nonce.provide("abc", el("head", script)).render();
+    expect(got).toBe(expected);
+  });
+
+  it("Consumers are built once per render", async () => {
+    let calls = 0;
+    const counted = theme.consume((value) => {
+      calls++;
+      return group(classx(value), text(value));
+    });
+    const node = el("div", counted, group(counted));
+    const expected = '<div class="light">lightlight</div>';
+    const renders: Array<() => string | Promise<string>> = [
+      () => node.render(),
+      () => node.render({ syntax: "xml" }),
+      () => [...renderChunks(node, { syntax: "xml" })].join(""),
+      async () => await renderAsync(node, { syntax: "xml" }),
+      async () => (await collect(renderStream(node, { syntax: "xml" }))).join(""),
+    ];
+    for (const render of renders) {
+      calls = 0;
+      expect(await render()).toBe(expected);
+      expect(calls).toBe(2);
+    }
+  });
+
+  it("Consumers can build async nodes", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const lazy = theme.consume((value) => asyncx(async () => text(value)));
+    const chunks = await collect(renderStream(el("g", lazy), { syntax: "xml" }));
+    expect(chunks.join("")).toBe("<g>light</g>");
+    expect(await renderAsync(el("br", lazy))).toBe("<br>");
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it("Provided values do not leak to later renders", () => {
+    const node = theme.provide("dark", themed);
+    node.render();
+    const expected = '<button class="btn-light"></button>';
+    const got = themed.render();
+    expect(got).toBe(expected);
+  });
+});
+
+describe("URL attributes", () => {
+  it("Keeps safe URLs", () => {
+    const urls = [
+      "https://example.com/?a=1&b=2",
+      "http://example.com",
+      "/path",
+      "page.html#top",
+      "?query",
+      "//cdn.example.com/a.js",
+      "mailto:a@example.com",
+      "tel:+123",
+      "data:image/png;base64,iVBORw0KGgo=",
+    ];
+    for (const url of urls) {
+      expect(isSafeUrl(url)).toBe(true);
+      expect(attr("href", url).render()).toBe(
+        ` href="${url.replace(/&/g, "&amp;")}"`,
+      );
+    }
+  });
+
+  it("Replaces unsafe URLs", () => {
+    const warn = silenceWarnings();
+    const urls = [
+      "javascript:alert(1)",
+      "JavaScript:alert(1)",
+      " javascript:alert(1)",
+      "java\tscript:alert(1)",
+      "\u0001javascript:alert(1)",
+      "vbscript:msgbox(1)",
+      "data:text/html;base64,PHNjcmlwdD4=",
+      "data:image/svg+xml;base64,PHN2Zz4=",
+    ];
+    for (const url of urls) {
+      expect(isSafeUrl(url)).toBe(false);
+      expect(attr("src", url).render()).toBe(` src="${unsafeUrlReplacement}"`);
+    }
+    expect(warn).toHaveBeenCalledTimes(urls.length);
+    expect(warn).toHaveBeenCalledWith(
+      'nodx: unsafe URL "javascript:alert(1)" in the src attribute was replaced, use trustedUrl() if it is safe',
+    );
+  });
+
+  it("Checks every URL attribute, whatever its case", () => {
+    silenceWarnings();
+    const node = el(
+      "form",
+      attr("ACTION", "javascript:alert(1)"),
+      el("button", attr("formaction", "javascript:alert(1)")),
+    );
+    const expected = `<form ACTION="${unsafeUrlReplacement}"><button formaction="${unsafeUrlReplacement}"></button></form>`;
+    expect(node.render()).toBe(expected);
+  });
+
+  it("Checks every URL of srcset", () => {
+    silenceWarnings();
+    expect(attr("srcset", "a.png 1x, b.png 2x").render()).toBe(' srcset="a.png 1x, b.png 2x"');
+    expect(attr("srcset", "a.png 1x, javascript:alert(1) 2x").render()).toBe(
+      ` srcset="${unsafeUrlReplacement}"`,
+    );
+  });
+
+  it("Does not check other attributes", () => {
+    const expected = ' title="javascript:alert(1)"';
+    const got = attr("title", "javascript:alert(1)").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Checks merged URL attributes", () => {
+    silenceWarnings();
+    const node = el("a", attr("href", "/"), attr("href", "javascript:alert(1)"));
+    const expected = `<a href="${unsafeUrlReplacement}"></a>`;
+    expect(node.render()).toBe(expected);
+  });
+
+  it("Does not warn outside of development mode", () => {
+    const warn = silenceWarnings();
+    setDevMode(false);
+    try {
+      attr("href", "javascript:alert(1)").render();
+    } finally {
+      setDevMode(true);
+    }
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("safeUrl checks the URL once", () => {
+    expect(attr("href", safeUrl("/profile")).render()).toBe(' href="/profile"');
+    expect(attr("href", safeUrl("javascript:alert(1)")).render()).toBe(
+      ` href="${unsafeUrlReplacement}"`,
+    );
+  });
+
+  it("trustedUrl renders the URL as-is, escaped", () => {
+    const warn = silenceWarnings();
+    expect(attr("href", trustedUrl("myapp://open?a=1&b=2")).render()).toBe(
+      ' href="myapp://open?a=1&amp;b=2"',
+    );
+    expect(attr("href", trustedUrl('javascript:void(0)"')).render()).toBe(
+      ' href="javascript:void(0)&quot;"',
+    );
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
+
+describe("Raw text elements", () => {
+  it("Guards script content against breakouts", async () => {
+    const node = el(
+      "script",
+      raw('const html = "</script><script>alert(1)</script>"; // <!-- x'),
+    );
+    const expected =
+      '<script>const html = "<\\/script><script>alert(1)<\\/script>"; // <\\!-- x</script>';
+    expect(node.render()).toBe(expected);
+    expect([...renderChunks(node)].join("")).toBe(expected);
+    expect(await renderAsync(node)).toBe(expected);
+    expect((await collect(renderStream(node))).join("")).toBe(expected);
+  });
+
+  it("Guards breakouts spanning several children", () => {
+    const node = el("SCRIPT", raw("a = '</"), raw("SCRIPT>'"));
+    const expected = "<SCRIPT>a = '<\\/SCRIPT>'</SCRIPT>";
+    expect(node.render()).toBe(expected);
+    expect([...renderChunks(node)].join("")).toBe(expected);
+  });
+
+  it("Guards style content against breakouts", async () => {
+    const node = el("style", raw('a::after { content: "</style><script>" }'));
+    const expected =
+      '<style>a::after { content: "\\3c /style><script>" }</style>';
+    expect(node.render()).toBe(expected);
+    expect((await collect(renderStream(node))).join("")).toBe(expected);
+  });
+
+  it("Keeps regular script and style content unchanged", () => {
+    const input =
+      "<script>if (a < b && c > d) { run(); }</script><style>a > b { color: red; }</style>";
+    const node = group(
+      el("script", raw("if (a < b && c > d) { run(); }")),
+      el("style", raw("a > b { color: red; }")),
+    );
+    expect(node.render()).toBe(input);
+  });
+});
+
+describe("json", () => {
+  it("Renders JSON", () => {
+    const expected = '{"a":1,"b":[true,null],"c":"text"}';
+    const got = json({ a: 1, b: [true, null], c: "text" }).render();
+    expect(got).toBe(expected);
+  });
+
+  it("Escapes characters that could break out of the script", () => {
+    const value = { html: "</script><!-- & \u2028\u2029" };
+    const got = el("script", attr("type", "application/json"), json(value)).render();
+    const expected =
+      '<script type="application/json">{"html":"\\u003c/script\\u003e\\u003c!-- \\u0026 \\u2028\\u2029"}</script>';
+    expect(got).toBe(expected);
+    expect(JSON.parse(json(value).render())).toEqual(value);
+  });
+
+  it("Renders undefined as null", () => {
+    expect(json(undefined).render()).toBe("null");
+  });
+});
@@ -1,3 +1,6 @@
+import { cssPropertyName, cssValue, StyleObject } from "./css.js";
+import { formatHtml } from "./format.js";
+
 /**
  * Represents a generic node in a document tree, which can be rendered to a string.
  * This interface is typically implemented by text, attribute, and element nodes.
@@ -8,25 +11,368 @@ export interface Node {
   /**
    * Renders the node to a string representation.
    *
+   * @param {RenderOptions} options - The options to control how the node is rendered.
    * @returns {string} The string representation of the node.
    */
-  render: () => string;
+  render: (options?: RenderOptions) => string;
+
+  /**
+   * Renders the part of the node that belongs inside the opening tag of its parent element.
+   *
+   * Optional: when a node implements neither `renderAttributes` nor `renderContent`,
+   * its `render()` output is used as content of its parent element.
+   *
+   * @param {RenderOptions} options - The options to control how the node is rendered.
+   * @returns {string} The attributes contributed by the node, each one prefixed with a space.
+   */
+  renderAttributes?: (options?: RenderOptions) => string;
+
+  /**
+   * Renders the part of the node that belongs between the opening and closing tags of its parent element.
+   *
+   * Optional: when a node implements neither `renderAttributes` nor `renderContent`,
+   * its `render()` output is used as content of its parent element.
+   *
+   * @param {RenderOptions} options - The options to control how the node is rendered.
+   * @returns {string} The content contributed by the node.
+   */
+  renderContent?: (options?: RenderOptions) => string;
+
+  /**
+   * Renders the node to a string representation, awaiting anything the node depends on.
+   * Used by `renderAsync()`, `renderStream()` and `renderToSink()` in place of `render()`
+   * (or `renderContent()`) when the node is rendered as content.
+   *
+   * Optional: nodes without it are rendered synchronously.
+   *
+   * @param {RenderOptions} options - The options to control how the node is rendered.
+   * @param {string[]} path - The tag names of the ancestors of the node, used for error reporting.
+   * @returns {Promise<string>} The string representation of the node.
+   */
+  renderAsync?: (options?: RenderOptions, path?: string[]) => Promise<string>;
+}
+
+/**
+ * The type-only key of the elements an attribute node is valid on, see `AttributeNode`.
+ */
+declare const attributeElements: unique symbol;
+
+/**
+ * A node created by an attribute helper, tagged with the tags of the elements the attribute is
+ * valid on (`string` for global attributes, see `GlobalAttribute`). The tag only exists at the
+ * type level: element helpers only accept the attributes valid on their element, see
+ * `ElementChild`.
+ *
+ * Example usage:
+ * ```typescript
+ * function href(value: string): AttributeNode<"a" | "area" | "base" | "link"> {
+ *   return attr("href", value);
+ * }
+ * ```
+ */
+export interface AttributeNode<E extends string = string> extends Node {
+  // A function type, so an attribute valid on more elements is accepted where fewer are expected.
+  readonly [attributeElements]?: (element: E) => void;
+}
+
+/**
+ * An attribute node valid on every element, such as `id` or `class`.
+ */
+export type GlobalAttribute = AttributeNode<string>;
+
+/**
+ * A child accepted by the helper of an element: any node, except attribute nodes that are not
+ * valid on the element (see `AttributeNode`). Nodes created with `attr()` are not tagged and are
+ * accepted by every element.
+ *
+ * Example usage:
+ * ```typescript
+ * function img(...children: Array<ElementChild<"img">>): Node {
+ *   return elVoid("img", ...children);
+ * }
+ *
+ * img(src("/a.png"), alt("A")); // OK
+ * img(href("/a")); // Type error: href is not valid on img
+ * ```
+ */
+export type ElementChild<E extends string> = AttributeNode<E>;
+
+/**
+ * Options to control how nodes are rendered.
+ */
+export interface RenderOptions {
+  /**
+   * The syntax used to serialize the nodes:
+   * - `"html"`: boolean attributes are rendered bare (`checked`) and void elements
+   *   have no closing slash (`<br>`).
+   * - `"xhtml"`: boolean attributes repeat their name as value (`checked="checked"`)
+   *   and void elements are self-closed (`<br />`). The markup is still valid HTML,
+   *   which is required by email clients.
+   * - `"xml"`: like `"xhtml"`, and every element without content is self-closed
+   *   (`<path />`, `<div />`). Void elements are regular elements, so that `<link>`
+   *   can have content in an RSS feed. Use it for standalone SVG files and XML documents,
+   *   as the markup is not valid HTML.
+   *
+   * @default "html"
+   */
+  syntax?: "html" | "xhtml" | "xml";
+
+  /**
+   * Whether repeated attributes of an element are merged into a single attribute:
+   * - `class` values are concatenated and deduplicated.
+   * - `style` declarations are merged, later declarations of a property win.
+   * - Any other attribute keeps its last value.
+   *
+   * Set it to `false` to render every attribute as-is, in order, even if repeated.
+   *
+   * @default true
+   */
+  mergeAttributes?: boolean;
+
+  /**
+   * Reformats the rendered markup of an element:
+   * - `"pretty"`: adjacent block elements are put on their own line and indented with `indent`,
+   *   inline content and text are kept as-is, as are whitespace-sensitive elements (`pre`,
+   *   `textarea`, `script`, `style`). Useful for debugging and snapshot diffs.
+   * - `"minify"`: whitespace in text is collapsed and optional attribute quotes are dropped.
+   *
+   * The markup is parsed and serialized again (see `formatHtml()`), so well-nested markup builds
+   * the same DOM, up to whitespace that browsers do not render, while misnested markup (e.g. a
+   * `<div>` in a `<p>`) is normalized. When streaming, the formatted markup is only emitted once
+   * the element is fully rendered.
+   *
+   * By default the markup is compact, with no whitespace added.
+   */
+  format?: "pretty" | "minify";
+
+  /**
+   * The string used to indent each nesting level in the `"pretty"` format.
+   *
+   * @default "  "
+   */
+  indent?: string;
+
+  /**
+   * The values provided to the nodes being rendered, by context. It is managed by
+   * `Context.provide()`, read the values with `Context.read()`.
+   */
+  context?: ReadonlyMap<Context<unknown>, unknown>;
 }
 
+/**
+ * Checks whether the given value is a node, that is, an object with a `render` method.
+ *
+ * @param {unknown} value - The value to be checked.
+ * @returns {boolean} True if the value is a node.
+ */
+export function isNode(value: unknown): value is Node {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Node).render === "function"
+  );
+}
+
+/**
+ * Renders the attributes a node contributes to its parent element.
+ *
+ * @param {Node} node - The child node.
+ * @param {RenderOptions} options - The options to control how the node is rendered.
+ * @returns {string} The attributes contributed by the node, or an empty string if it is not a node.
+ */
+export function renderNodeAttributes(
+  node: Node,
+  options: RenderOptions = {},
+): string {
+  if (!isNode(node)) return "";
+  if (node.renderAttributes !== undefined) return node.renderAttributes(options);
+  return "";
+}
+
+/**
+ * Renders the content a node contributes to its parent element.
+ *
+ * @param {Node} node - The child node.
+ * @param {RenderOptions} options - The options to control how the node is rendered.
+ * @returns {string} The content contributed by the node, or an empty string if it is not a node.
+ */
+export function renderNodeContent(
+  node: Node,
+  options: RenderOptions = {},
+): string {
+  if (!isNode(node)) return "";
+  if (node.renderContent !== undefined) return node.renderContent(options);
+  if (node.renderAttributes !== undefined) return "";
+  return node.render(options);
+}
+
+/**
+ * The void elements of the HTML standard, which cannot have content and have no closing tag.
+ * See https://html.spec.whatwg.org/multipage/syntax.html#void-elements
+ */
+export const voidElements: ReadonlySet<string> = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/**
+ * The attributes holding a URL, or a list of URLs for `srcset`. Their values are checked
+ * against `safeUrlSchemes` when rendered, see `isSafeUrl()`.
+ */
+export const urlAttributes: ReadonlySet<string> = new Set([
+  "action",
+  "background",
+  "cite",
+  "codebase",
+  "data",
+  "formaction",
+  "href",
+  "icon",
+  "longdesc",
+  "manifest",
+  "ping",
+  "poster",
+  "src",
+  "srcset",
+  "xlink:href",
+]);
+
+/**
+ * The URL schemes allowed in URL attributes. Relative URLs and `data:` URLs of raster images
+ * are also allowed, any other URL must be wrapped with `trustedUrl()`.
+ */
+export const safeUrlSchemes: ReadonlySet<string> = new Set([
+  "http",
+  "https",
+  "mailto",
+  "tel",
+]);
+
+/**
+ * The URL used in place of an unsafe URL, which navigates nowhere.
+ */
+export const unsafeUrlReplacement = "about:invalid#nodx-unsafe-url";
+
+/**
+ * The elements whose content is raw text, which is not parsed as markup by browsers and
+ * cannot be escaped with HTML entities.
+ */
+const rawTextElements: ReadonlySet<string> = new Set(["script", "style"]);
+
+let devMode: boolean =
+  (globalThis as { process?: { env?: Record<string, string | undefined> } })
+    .process?.env?.NODE_ENV !== "production";
+
+/**
+ * Enables or disables the development mode diagnostics, such as the warning emitted when
+ * content is passed to a void element.
+ *
+ * By default the development mode is enabled unless `process.env.NODE_ENV` is `"production"`.
+ *
+ * @param {boolean} enabled - Whether the development mode diagnostics are enabled.
+ */
+export function setDevMode(enabled: boolean): void {
+  devMode = enabled;
+}
+
+/**
+ * Checks whether the development mode diagnostics are enabled.
+ *
+ * @returns {boolean} True if the development mode diagnostics are enabled.
+ */
+export function isDevMode(): boolean {
+  return devMode;
+}
+
+/**
+ * Returns the scheme of a URL, lowercased and without the colon, or undefined for a relative URL.
+ *
+ * Browsers ignore whitespace and control characters in the scheme of a URL
+ * (`java\tscript:` is `javascript:`), so they are ignored before reading the scheme.
+ *
+ * @param {string} url - The URL.
+ * @returns {string | undefined} The scheme of the URL, or undefined if it is relative.
+ */
+export function urlScheme(url: string): string | undefined {
+  // eslint-disable-next-line no-control-regex
+  const normalized = url.replace(/[\u0000-\u0020\u007f-\u009f]/g, "");
+  const match = /^([^/?#]*?):/.exec(normalized);
+  return match === null ? undefined : match[1].toLowerCase();
+}
+
+/**
+ * Checks whether a URL is safe to render in a URL attribute: it is relative, it uses one of
+ * the `safeUrlSchemes`, or it is a `data:` URL of a raster image. In particular,
+ * `javascript:`, `vbscript:` and other `data:` URLs are not safe.
+ *
+ * @param {string} url - The URL to check.
+ * @returns {boolean} True if the URL is safe.
+ */
+export function isSafeUrl(url: string): boolean {
+  const scheme = urlScheme(url);
+  if (scheme === undefined || safeUrlSchemes.has(scheme)) return true;
+  return scheme === "data" &&
+    /^data:image\/(?:png|gif|jpeg|webp|avif|bmp);base64,[a-z0-9+/=]*$/i.test(url.trim());
+}
+
+/**
+ * Matches the characters replaced by `escapeHtml()`.
+ */
+const escapedCharacters = /[&<>"']/;
+
 /**
  * Escapes the input string to prevent XSS attacks by replacing special characters
  * with their corresponding HTML entities.
  *
+ * The string is escaped in a single pass, and returned as-is when it has no special
+ * characters, which is the case of most texts and attribute values.
+ *
  * @param {string} unsafe - The input string that may contain unsafe characters.
  * @returns {string} The escaped string with special characters replaced by HTML entities.
  */
 export function escapeHtml(unsafe: string): string {
-  return (unsafe ?? "")
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
+  const value = unsafe ?? "";
+  const first = value.search(escapedCharacters);
+  if (first === -1) return value;
+
+  let escaped = "";
+  let last = 0;
+  for (let i = first; i < value.length; i++) {
+    let entity: string;
+    switch (value.charCodeAt(i)) {
+      case 38: // &
+        entity = "&amp;";
+        break;
+      case 60: // <
+        entity = "&lt;";
+        break;
+      case 62: // >
+        entity = "&gt;";
+        break;
+      case 34: // "
+        entity = "&quot;";
+        break;
+      case 39: // '
+        entity = "&#39;";
+        break;
+      default:
+        continue;
+    }
+    escaped += value.slice(last, i) + entity;
+    last = i + 1;
+  }
+  return escaped + value.slice(last);
 }
 
 /**
@@ -54,97 +400,1146 @@ export class NodeText implements Node {
    *
    * @returns {string} The text content of the node.
    */
-  render(): string {
-    return this.text;
+  render(): string {
+    return this.text;
+  }
+
+  /**
+   * Text nodes contribute no attributes to their parent element.
+   *
+   * @returns {string} An empty string.
+   */
+  renderAttributes(): string {
+    return "";
+  }
+
+  /**
+   * Renders the text node as content of its parent element.
+   *
+   * @returns {string} The text content of the node.
+   */
+  renderContent(): string {
+    return this.render();
+  }
+}
+
+/**
+ * Represents a URL that is rendered as-is in URL attributes, without being checked against
+ * `safeUrlSchemes`. Create it with `safeUrl()` or, for URLs known to be safe, `trustedUrl()`.
+ */
+export class SafeUrl {
+  /**
+   * The URL.
+   */
+  readonly url: string;
+
+  /**
+   * Creates a new safe URL. Prefer the `safeUrl()` and `trustedUrl()` helpers.
+   *
+   * @param {string} url - The URL.
+   */
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  toString(): string {
+    return this.url;
+  }
+}
+
+/**
+ * The value of an attribute: a string, a boolean for boolean attributes, or a safe URL.
+ */
+export type AttributeValue = string | boolean | SafeUrl;
+
+/**
+ * Represents an HTML attribute node in a document tree.
+ *
+ * The value of the attribute can be a string, or a boolean for boolean attributes such as
+ * `checked` or `disabled`: `true` renders the bare attribute name and `false` renders nothing.
+ *
+ * The values of URL attributes (see `urlAttributes`) are checked with `isSafeUrl()`, and unsafe
+ * URLs such as `javascript:alert(1)` are replaced with `unsafeUrlReplacement`. Use `trustedUrl()`
+ * to render a URL that is known to be safe as-is.
+ *
+ * @implements {Node}
+ */
+export class NodeAttribute implements Node {
+  /**
+   * The name of the attribute.
+   */
+  readonly name: string;
+
+  /**
+   * The value of the attribute, or a boolean for boolean attributes.
+   */
+  readonly value: AttributeValue;
+
+  /**
+   * Creates a new HTML attribute node.
+   *
+   * @param {string} name - The name of the attribute.
+   * @param {AttributeValue} value - The value of the attribute, or a boolean for boolean attributes.
+   */
+  constructor(name: string, value: AttributeValue) {
+    this.name = name;
+    this.value = value;
+  }
+
+  /**
+   * Renders the HTML attribute node to a string.
+   *
+   * @param {RenderOptions} options - The options to control how the attribute is rendered.
+   * @returns {string} The string representation of the HTML attribute.
+   * If the attribute name is empty or the value is `false`, an empty string is returned.
+   */
+  render(options: RenderOptions = {}): string {
+    if (this.name === "" || this.value === false) return "";
+    if (this.value === true) {
+      return options.syntax === "xhtml" || options.syntax === "xml"
+        ? ` ${this.name}="${escapeHtml(this.name)}"`
+        : ` ${this.name}`;
+    }
+    return ` ${this.name}="${escapeHtml(this.renderValue())}"`;
+  }
+
+  /**
+   * Renders the HTML attribute node inside the opening tag of its parent element.
+   *
+   * @param {RenderOptions} options - The options to control how the attribute is rendered.
+   * @returns {string} The string representation of the HTML attribute.
+   */
+  renderAttributes(options: RenderOptions = {}): string {
+    return this.render(options);
+  }
+
+  /**
+   * Attribute nodes contribute no content to their parent element.
+   *
+   * @returns {string} An empty string.
+   */
+  renderContent(): string {
+    return "";
+  }
+
+  /**
+   * Returns the unescaped value of the attribute, replacing unsafe URLs in URL attributes.
+   */
+  private renderValue(): string {
+    if (this.value instanceof SafeUrl) return this.value.url;
+
+    const value = this.value as string;
+    const name = this.name.toLowerCase();
+    if (!urlAttributes.has(name) || value == null) return value;
+
+    const urls = name === "srcset"
+      ? value.split(",").map((candidate) => candidate.trim().split(/\s+/)[0])
+      : [value];
+    if (urls.every(isSafeUrl)) return value;
+
+    if (devMode) {
+      console.warn(
+        `nodx: unsafe URL ${JSON.stringify(value)} in the ${this.name} attribute was replaced, use trustedUrl() if it is safe`,
+      );
+    }
+    return unsafeUrlReplacement;
+  }
+}
+
+/**
+ * Represents an HTML element node in a document tree.
+ *
+ * An element with an empty name is a fragment: it renders no tags, contributes its
+ * attribute children to the attributes of its parent element and its other children
+ * to the content of its parent element.
+ *
+ * @implements {Node}
+ */
+export class NodeElement implements Node {
+  /**
+   * Indicates if the element is a void element, rendered without content and end tag.
+   */
+  readonly isVoid: boolean;
+
+  /**
+   * The tag name of the element, or an empty string for fragments.
+   */
+  readonly name: string;
+
+  /**
+   * The child nodes of the element, in order: attributes, texts, elements and any other node.
+   */
+  readonly children: readonly Node[];
+
+  /**
+   * Creates a new HTML element node.
+   *
+   * @param {boolean} isVoid - Indicates if the element is a void element (e.g., <img>, <br>).
+   * @param {string} name - The name of the HTML element (e.g., 'div', 'span').
+   * @param {...Node} children - The child nodes of the HTML element, which can be attributes, text, other elements,
+   * or any other node implementing the `Node` interface.
+   */
+  constructor(isVoid: boolean, name: string, ...children: Node[]) {
+    this.isVoid = isVoid;
+    this.name = name;
+    this.children = children;
+  }
+
+  /**
+   * Renders the HTML element node and all its children to a string.
+   *
+   * @param {RenderOptions} options - The options to control how the element is rendered.
+   * @returns {string} The string representation of the HTML element and its children.
+   */
+  render(options: RenderOptions = {}): string {
+    if (options.format !== undefined) {
+      return formatHtml(this.render({ ...options, format: undefined }), options);
+    }
+
+    const buffer: RenderBuffer = { html: "" };
+    this.renderInto(buffer, options);
+    return buffer.html;
+  }
+
+  /**
+   * Renders the attributes the element contributes to its parent element.
+   * Only fragments (elements with an empty name) contribute attributes, the ones of their children.
+   *
+   * @param {RenderOptions} options - The options to control how the attributes are rendered.
+   * @returns {string} The attributes contributed by the element.
+   */
+  renderAttributes(options: RenderOptions = {}): string {
+    if (this.name !== "") return "";
+    options = this.scopeOptions(options);
+    return this.renderChildrenAttributes(this.resolveChildren(options), options);
+  }
+
+  /**
+   * Renders the content the element contributes to its parent element.
+   *
+   * @param {RenderOptions} options - The options to control how the content is rendered.
+   * @returns {string} The content contributed by the element.
+   */
+  renderContent(options: RenderOptions = {}): string {
+    return this.render(options);
+  }
+
+  /**
+   * Renders the HTML element node and all its children as a sequence of string chunks.
+   * Joining all the chunks produces exactly the same output as `render()`.
+   *
+   * @param {RenderOptions} options - The options to control how the element is rendered.
+   * @returns {Generator<string>} A generator yielding the rendered chunks in document order.
+   */
+  * chunks(options: RenderOptions = {}): Generator<string> {
+    options = this.scopeOptions(options);
+
+    if (options.format !== undefined || this.isRawText()) {
+      // The content is formatted or guarded as a whole, it cannot be split into chunks.
+      yield this.render(options);
+      return;
+    }
+
+    const children = this.resolveChildren(options);
+
+    if (this.isSelfClosedEmpty(children, options)) {
+      yield this.openTag(children, options, true);
+      return;
+    }
+
+    if (this.name !== "") {
+      yield this.openTag(children, options);
+    }
+
+    if (this.name !== "" && this.isVoidIn(options)) {
+      this.warnIgnoredContent(children);
+      return;
+    }
+
+    for (const { node, options } of children) {
+      if (node instanceof NodeElement) {
+        yield * node.chunks(options);
+        continue;
+      }
+
+      const content = renderNodeContent(node, options);
+      if (content !== "") yield content;
+    }
+
+    if (this.name !== "") {
+      yield `</${this.name}>`;
+    }
+  }
+
+  /**
+   * Renders the HTML element node and all its children to a string, awaiting any
+   * async node found in the tree. Sibling async nodes are resolved concurrently.
+   *
+   * @param {RenderOptions} options - The options to control how the element is rendered.
+   * @param {string[]} path - The tag names of the ancestors of this element, used for error reporting.
+   * @returns {Promise<string>} The string representation of the HTML element and its children.
+   */
+  async renderAsync(
+    options: RenderOptions = {},
+    path: string[] = [],
+  ): Promise<string> {
+    if (options.format !== undefined) {
+      const html = await this.renderAsync({ ...options, format: undefined }, path);
+      return formatHtml(html, options);
+    }
+
+    options = this.scopeOptions(options);
+    const ownPath = this.name === "" ? path : [...path, this.name];
+
+    const children = this.resolveChildren(options);
+
+    if (this.name !== "" && this.isVoidIn(options)) {
+      this.warnIgnoredContent(children);
+      return this.openTag(children, options);
+    }
+
+    const childrenNodes: Array<Promise<string>> = [];
+
+    for (const { node, options } of children) {
+      if (node instanceof NodeElement) {
+        childrenNodes.push(node.renderAsync(options, ownPath));
+      } else if (node instanceof NodeAsync) {
+        childrenNodes.push(
+          node
+            .resolveAt(ownPath)
+            .then(async (node) => await renderNodeContentAsync(node, options, ownPath)),
+        );
+      } else {
+        childrenNodes.push(renderNodeContentAsync(node, options, ownPath));
+      }
+    }
+
+    const content = this.guardContent((await Promise.all(childrenNodes)).join(""));
+
+    if (this.name === "") {
+      return content;
+    }
+
+    if (content === "" && options.syntax === "xml") {
+      return this.openTag(children, options, true);
+    }
+
+    return `${this.openTag(children, options)}${content}</${this.name}>`;
+  }
+
+  /**
+   * Renders the HTML element node and all its children as an async sequence of string chunks,
+   * awaiting any async node found in the tree. The async nodes of the whole subtree start resolving
+   * concurrently as soon as the element is reached, while the rest of the markup is still rendered
+   * lazily and the chunks are yielded in document order.
+   *
+   * @param {RenderOptions} options - The options to control how the element is rendered.
+   * @param {string[]} path - The tag names of the ancestors of this element, used for error reporting.
+   * @returns {AsyncGenerator<string>} An async generator yielding the rendered chunks in document order.
+   */
+  async * chunksAsync(
+    options: RenderOptions = {},
+    path: string[] = [],
+  ): AsyncGenerator<string> {
+    const started: Array<AsyncGenerator<string>> = [];
+    this.startAsyncDescendants(options, path, started);
+    yield * this.streamChunks(options, path, started.values());
+  }
+
+  /**
+   * Starts the async nodes of the element and of its descendants, in document order. Only the
+   * nodes found without building any node are started: the nodes built by consumers are started
+   * when they are reached, and the content of void elements is ignored.
+   *
+   * @param {RenderOptions} options - The options to control how the element is rendered.
+   * @param {string[]} path - The tag names of the ancestors of this element, used for error reporting.
+   * @param {Array<AsyncGenerator<string>>} started - The chunks of the started async nodes.
+   */
+  private startAsyncDescendants(
+    options: RenderOptions,
+    path: string[],
+    started: Array<AsyncGenerator<string>>,
+  ): void {
+    options = this.scopeOptions(options);
+    if (
+      options.format !== undefined ||
+      this.isRawText() ||
+      (this.name !== "" && this.isVoidIn(options))
+    ) {
+      // These elements are rendered as a whole when they are reached.
+      return;
+    }
+
+    const ownPath = this.name === "" ? path : [...path, this.name];
+    for (const child of this.children) {
+      if (child instanceof NodeElement) {
+        child.startAsyncDescendants(options, ownPath, started);
+      } else if (isAsyncContent(child)) {
+        started.push(prefetchChunks(renderChunksAsync(child, options, ownPath)));
+      }
+    }
+  }
+
+  /**
+   * Renders the chunks of `chunksAsync()`, taking the chunks of the async nodes started by
+   * `startAsyncDescendants()` in the same order they were started.
+   *
+   * @param {RenderOptions} options - The options to control how the element is rendered.
+   * @param {string[]} path - The tag names of the ancestors of this element, used for error reporting.
+   * @param {Iterator<AsyncGenerator<string>>} started - The chunks of the started async nodes.
+   * @returns {AsyncGenerator<string>} An async generator yielding the rendered chunks in document order.
+   */
+  private async * streamChunks(
+    options: RenderOptions,
+    path: string[],
+    started: Iterator<AsyncGenerator<string>>,
+  ): AsyncGenerator<string> {
+    options = this.scopeOptions(options);
+    const ownPath = this.name === "" ? path : [...path, this.name];
+
+    if (options.format !== undefined || this.isRawText()) {
+      // The content is formatted or guarded as a whole, it cannot be split into chunks.
+      yield await this.renderAsync(options, path);
+      return;
+    }
+
+    const children = this.resolveChildren(options);
+
+    if (this.isSelfClosedEmpty(children, options)) {
+      yield this.openTag(children, options, true);
+      return;
+    }
+
+    if (this.name !== "") {
+      yield this.openTag(children, options);
+    }
+
+    if (this.name !== "" && this.isVoidIn(options)) {
+      this.warnIgnoredContent(children);
+      return;
+    }
+
+    for (const { node, options, built } of children) {
+      if (node instanceof NodeElement) {
+        yield * (built
+          ? node.chunksAsync(options, ownPath)
+          : node.streamChunks(options, ownPath, started));
+        continue;
+      }
+
+      if (isAsyncContent(node)) {
+        const next = built ? undefined : started.next();
+        yield * (next === undefined || next.done === true
+          ? renderChunksAsync(node, options, ownPath)
+          : next.value);
+        continue;
+      }
+
+      const content = renderNodeContent(node, options);
+      if (content !== "") yield content;
+    }
+
+    if (this.name !== "") {
+      yield `</${this.name}>`;
+    }
+  }
+
+  /**
+   * Returns the attributes of the element, as they are rendered: the attributes of its
+   * fragment children (`group()`, `ifx()`...) are included and repeated attributes are merged
+   * (unless `mergeAttributes` is `false`, then the last value wins). Attributes set to `false`
+   * or `null` are left out and boolean attributes have the value `true`.
+   *
+   * Attributes rendered by custom nodes cannot be inspected and are left out.
+   *
+   * Example usage:
+   * ```typescript
+   * const node = el("a", attr("href", "/"), classx("a"), ifx(true, classx("b")), text("Home"));
+   * (node as NodeElement).getAttributes(); // Map { "href" => "/", "class" => "a b" }
+   * ```
+   *
+   * @param {RenderOptions} options - The options the element is rendered with, to resolve
+   * the nodes built from contexts.
+   * @returns {Map<string, string | true>} The attributes by name, in render order.
+   */
+  getAttributes(options: RenderOptions = {}): Map<string, string | true> {
+    const attributes = new AttributeSet();
+    collectAttributes(attributes, this.resolveChildren(this.scopeOptions(options)));
+    return attributes.values(options.mergeAttributes !== false);
+  }
+
+  /**
+   * Returns the value of an attribute of the element, see `getAttributes()`.
+   * The name is matched case-insensitively.
+   *
+   * @param {string} name - The name of the attribute.
+   * @param {RenderOptions} options - The options the element is rendered with.
+   * @returns {string | true | undefined} The value, `true` for boolean attributes, or
+   * undefined if the attribute is not set.
+   */
+  getAttribute(name: string, options: RenderOptions = {}): string | true | undefined {
+    const key = name.toLowerCase();
+    for (const [attribute, value] of this.getAttributes(options)) {
+      if (attribute.toLowerCase() === key) return value;
+    }
+    return undefined;
+  }
+
+  /**
+   * Creates a copy of the element with other children, keeping its name and kind. Subclasses
+   * override it to keep their own state, such as the value of a `Context.provide()` node.
+   * Used by `transform()` to rebuild the elements of a tree without changing the original one.
+   *
+   * @param {readonly Node[]} children - The children of the copy.
+   * @returns {NodeElement} The copy of the element.
+   */
+  withChildren(children: readonly Node[]): NodeElement {
+    return new NodeElement(this.isVoid, this.name, ...children);
+  }
+
+  /**
+   * Returns the options used to render the children of the element. Subclasses override it
+   * to scope render-time state to a subtree, such as the values provided by `Context.provide()`.
+   *
+   * @param {RenderOptions} options - The options the element is rendered with.
+   * @returns {RenderOptions} The options the children of the element are rendered with.
+   */
+  scopeOptions(options: RenderOptions): RenderOptions {
+    return options;
+  }
+
+  /**
+   * Checks whether the element is rendered as a self-closed empty element (`<path />`) in
+   * the `"xml"` syntax, without resolving async nodes. When streaming, an element whose async
+   * content turns out to be empty keeps its end tag (`<g></g>`), which is equivalent XML.
+   */
+  private isSelfClosedEmpty(children: ResolvedChild[], options: RenderOptions): boolean {
+    return options.syntax === "xml" && this.name !== "" && !hasChildrenContent(children);
+  }
+
+  /**
+   * Checks whether the element is rendered as a void element. Void elements are an HTML notion:
+   * in the `"xml"` syntax, `<link>` or `<source>` are regular elements (e.g. in RSS feeds), and
+   * they are self-closed only when they are empty.
+   */
+  private isVoidIn(options: RenderOptions): boolean {
+    return this.isVoid && options.syntax !== "xml";
+  }
+
+  private isRawText(): boolean {
+    return rawTextElements.has(this.name.toLowerCase());
+  }
+
+  /**
+   * Guards the content of `<script>` and `<style>` elements, which cannot be escaped with
+   * HTML entities, against breaking out of the element: `</script` and `<!--` are escaped
+   * the JavaScript way (`<\/script`, `<\!--`) and `</style` the CSS way (`\3c /style`).
+   */
+  private guardContent(content: string): string {
+    switch (this.name.toLowerCase()) {
+      case "script":
+        return content.replace(/<(\/script|!--)/gi, "<\\$1");
+      case "style":
+        return content.replace(/<(\/style)/gi, "\\3c $1");
+      default:
+        return content;
+    }
+  }
+
+  /**
+   * In development mode, warns that the content children of a void element are ignored.
+   */
+  private warnIgnoredContent(children: ResolvedChild[]): void {
+    if (!devMode || !hasChildrenContent(children)) return;
+    console.warn(
+      `nodx: <${this.name}> is a void element and cannot have content, its content children are ignored`,
+    );
+  }
+
+  /**
+   * Renders the opening tag of the element, self-closed for void elements in the `"xhtml"`
+   * syntax and for empty elements in the `"xml"` syntax.
+   */
+  private openTag(children: ResolvedChild[], options: RenderOptions, empty = false): string {
+    const childrenAttributes = this.renderChildrenAttributes(children, options);
+    const selfClosed = options.syntax === "xml"
+      ? empty
+      : this.isVoid && options.syntax === "xhtml";
+    if (selfClosed) {
+      return `<${this.name}${childrenAttributes} />`;
+    }
+    return `<${this.name}${childrenAttributes}>`;
+  }
+
+  private renderChildrenAttributes(children: ResolvedChild[], options: RenderOptions): string {
+    if (options.mergeAttributes === false) {
+      let childrenAttributes = "";
+      for (const child of children) {
+        childrenAttributes += renderNodeAttributes(child.node, child.options);
+      }
+      return childrenAttributes;
+    }
+
+    const attributes = new AttributeSet();
+    collectAttributes(attributes, children);
+    return attributes.render(options);
+  }
+
+  /**
+   * Resolves the children of the element for a render, once: consumers are built, and the
+   * children of fragments are inlined with the options they are rendered with. The attributes
+   * and the content of the element are both rendered from the resolved children.
+   *
+   * @param {RenderOptions} options - The options the children are rendered with.
+   * @param {ResolvedChild[]} resolved - The resolved children to add to.
+   * @param {boolean} built - Whether the children are built by a consumer.
+   * @returns {ResolvedChild[]} The resolved children, in document order.
+   */
+  private resolveChildren(
+    options: RenderOptions,
+    resolved: ResolvedChild[] = [],
+    built = false,
+  ): ResolvedChild[] {
+    for (const node of this.children) {
+      const child = resolveConsumer(node, options);
+      const isBuilt = built || child !== node;
+      if (child instanceof NodeElement && child.name === "") {
+        child.resolveChildren(child.scopeOptions(options), resolved, isBuilt);
+      } else {
+        resolved.push({ node: child, options, built: isBuilt });
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Renders the element at the end of the buffer. The elements of the tree are rendered in a
+   * single pass into the same buffer, instead of building the string of their content first.
+   */
+  private renderInto(buffer: RenderBuffer, options: RenderOptions): void {
+    options = this.scopeOptions(options);
+    const children = this.resolveChildren(options);
+
+    if (this.name === "") {
+      this.renderChildrenInto(buffer, children);
+      return;
+    }
+
+    if (this.isVoidIn(options)) {
+      this.warnIgnoredContent(children);
+      buffer.html += this.openTag(children, options);
+      return;
+    }
+
+    buffer.html += this.openTag(children, options);
+    const contentStart = buffer.html.length;
+
+    if (this.isRawText()) {
+      // The content of raw text elements is guarded as a whole.
+      const content: RenderBuffer = { html: "" };
+      this.renderChildrenInto(content, children);
+      buffer.html += this.guardContent(content.html);
+    } else {
+      this.renderChildrenInto(buffer, children);
+    }
+
+    if (buffer.html.length === contentStart && options.syntax === "xml") {
+      // Self-closes the opening tag that ends the buffer, like `openTag(children, options, true)`.
+      buffer.html = `${buffer.html.slice(0, -1)} />`;
+      return;
+    }
+    buffer.html += `</${this.name}>`;
+  }
+
+  private renderChildrenInto(buffer: RenderBuffer, children: ResolvedChild[]): void {
+    for (const { node, options } of children) {
+      if (node instanceof NodeElement) {
+        node.renderInto(buffer, options);
+      } else {
+        buffer.html += renderNodeContent(node, options);
+      }
+    }
+  }
+}
+
+/**
+ * A child of an element resolved for a render, see `NodeElement.resolveChildren()`.
+ */
+interface ResolvedChild {
+  node: Node;
+  options: RenderOptions;
+  /**
+   * Whether the node was built by a consumer during the render.
+   */
+  built: boolean;
+}
+
+/**
+ * Checks whether any resolved child contributes content to an element, without resolving
+ * async nodes: async nodes always count as content.
+ */
+function hasChildrenContent(children: ResolvedChild[]): boolean {
+  return children.some(({ node, options }) =>
+    node instanceof NodeElement ||
+    isAsyncContent(node) ||
+    renderNodeContent(node, options) !== ""
+  );
+}
+
+function collectAttributes(attributes: AttributeSet, children: ResolvedChild[]): void {
+  for (const { node, options } of children) {
+    if (node instanceof NodeAttribute) {
+      attributes.add(node.name, node.value);
+    } else if (!(node instanceof NodeElement)) {
+      attributes.addRaw(renderNodeAttributes(node, options));
+    }
+  }
+}
+
+/**
+ * The output of `NodeElement.render()`, shared by all the elements of the rendered tree.
+ */
+interface RenderBuffer {
+  html: string;
+}
+
+/**
+ * Collects the attributes of an element and merges the repeated ones:
+ * `class` values are concatenated and deduplicated, `style` declarations are merged
+ * with later declarations winning, and any other attribute keeps its last value.
+ *
+ * Attributes rendered by custom nodes cannot be inspected, so they are kept as-is.
+ */
+class AttributeSet {
+  private readonly entries: Array<
+  { name: string; values: AttributeValue[] } | string
+  > = [];
+
+  private readonly indexes = new Map<string, number>();
+
+  add(name: string, value: AttributeValue): void {
+    if (name === "") return;
+
+    const key = name.toLowerCase();
+    const index = this.indexes.get(key);
+    if (index === undefined) {
+      this.indexes.set(key, this.entries.length);
+      this.entries.push({ name, values: [value] });
+      return;
+    }
+
+    const entry = this.entries[index];
+    if (typeof entry !== "string") entry.values.push(value);
+  }
+
+  addRaw(rendered: string): void {
+    if (rendered !== "") this.entries.push(rendered);
+  }
+
+  /**
+   * Returns the values of the attributes, leaving out the ones rendered by custom nodes and
+   * the ones that render nothing.
+   */
+  values(merge: boolean): Map<string, string | true> {
+    const values = new Map<string, string | true>();
+    for (const entry of this.entries) {
+      if (typeof entry === "string") continue;
+
+      const value = !merge || entry.values.length === 1
+        ? entry.values[entry.values.length - 1]
+        : mergeAttributeValues(entry.name.toLowerCase(), entry.values);
+      if (value === false || value == null) continue;
+      values.set(entry.name, value === true ? true : String(value));
+    }
+    return values;
+  }
+
+  render(options: RenderOptions): string {
+    let rendered = "";
+    for (const entry of this.entries) {
+      if (typeof entry === "string") {
+        rendered += entry;
+        continue;
+      }
+
+      const value = entry.values.length === 1
+        ? entry.values[0]
+        : mergeAttributeValues(entry.name.toLowerCase(), entry.values);
+      rendered += new NodeAttribute(entry.name, value).render(options);
+    }
+    return rendered;
+  }
+}
+
+/**
+ * Merges the values of a repeated attribute.
+ *
+ * @param {string} name - The lowercase name of the attribute.
+ * @param {AttributeValue[]} values - The values of the attribute, in order.
+ * @returns {AttributeValue} The merged value.
+ */
+function mergeAttributeValues(
+  name: string,
+  values: AttributeValue[],
+): AttributeValue {
+  const strings = values.filter((value): value is string => typeof value === "string");
+  if (strings.length === 0 || (name !== "class" && name !== "style")) {
+    return values[values.length - 1];
+  }
+
+  if (name === "class") {
+    const classList = new Set<string>();
+    for (const value of strings) {
+      for (const className of value.split(/\s+/)) {
+        if (className !== "") classList.add(className);
+      }
+    }
+    return [...classList].join(" ");
+  }
+
+  const declarations = new Map<string, string>();
+  for (const value of strings) {
+    for (const declaration of splitStyleDeclarations(value)) {
+      const colon = declaration.indexOf(":");
+      if (colon === -1) continue;
+      const property = declaration.slice(0, colon).trim();
+      const key = property.startsWith("--") ? property : property.toLowerCase();
+      // Deleting first moves the property to the position of its winning declaration.
+      declarations.delete(key);
+      declarations.set(key, `${property}: ${declaration.slice(colon + 1).trim()}`);
+    }
+  }
+  return [...declarations.values()].join("; ");
+}
+
+/**
+ * Splits the content of a `style` attribute into its declarations, ignoring the
+ * semicolons found inside quotes or parentheses (e.g. in `url("a;b")`).
+ *
+ * @param {string} style - The content of a `style` attribute.
+ * @returns {string[]} The non empty declarations.
+ */
+export function splitStyleDeclarations(style: string): string[] {
+  const declarations: string[] = [];
+  let current = "";
+  let quote = "";
+  let depth = 0;
+
+  for (const char of style) {
+    if (quote !== "") {
+      if (char === quote) quote = "";
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ";" && depth === 0) {
+      if (current.trim() !== "") declarations.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim() !== "") declarations.push(current.trim());
+  return declarations;
+}
+
+/**
+ * The source of an async node: a promise of a node, or a (possibly async) function returning a node.
+ */
+export type NodeAsyncSource = Promise<Node> | (() => Node | Promise<Node>);
+
+/**
+ * Represents a node whose content is only known asynchronously, such as a component
+ * that fetches its own data. An async node always renders as content of its parent.
+ *
+ * Async nodes can only be rendered with `renderAsync()`, `renderStream()` or `renderToSink()`;
+ * calling `render()` on them (or on any element containing them) throws an error.
+ *
+ * @implements {Node}
+ */
+export class NodeAsync implements Node {
+  private readonly source: NodeAsyncSource;
+
+  /**
+   * Creates a new async node.
+   *
+   * @param {NodeAsyncSource} source - A promise of a node, or a function returning a node or a promise of a node.
+   * The function is called every time the node is rendered.
+   */
+  constructor(source: NodeAsyncSource) {
+    this.source = source;
+  }
+
+  /**
+   * Async nodes cannot be rendered synchronously.
+   *
+   * @throws {Error} Always, use `renderAsync()` or `renderStream()` instead.
+   */
+  render(): string {
+    throw new Error(
+      "Async nodes cannot be rendered synchronously, use renderAsync() or renderStream() instead",
+    );
+  }
+
+  /**
+   * Async nodes contribute no attributes to their parent element.
+   *
+   * @returns {string} An empty string.
+   */
+  renderAttributes(): string {
+    return "";
+  }
+
+  /**
+   * Async nodes cannot be rendered synchronously.
+   *
+   * @throws {Error} Always, use `renderAsync()` or `renderStream()` instead.
+   */
+  renderContent(): string {
+    return this.render();
+  }
+
+  /**
+   * Resolves the async node to the node it wraps.
+   *
+   * @returns {Promise<Node>} A promise of the wrapped node.
+   */
+  async resolve(): Promise<Node> {
+    return typeof this.source === "function" ? await this.source() : await this.source;
+  }
+
+  /**
+   * Resolves the async node, wrapping any failure in a `NodeRenderError` that reports
+   * where in the tree the node failed.
+   *
+   * @param {string[]} path - The tag names of the ancestors of this node.
+   * @returns {Promise<Node>} A promise of the wrapped node.
+   */
+  async resolveAt(path: string[]): Promise<Node> {
+    try {
+      return await this.resolve();
+    } catch (error) {
+      throw new NodeRenderError(path, error);
+    }
+  }
+}
+
+/**
+ * The error thrown when an async node fails to resolve during rendering.
+ * It reports the path of tag names leading to the failing node.
+ */
+export class NodeRenderError extends Error {
+  /**
+   * The tag names of the ancestors of the failing node, from the root down.
+   */
+  readonly path: string[];
+
+  /**
+   * The original error thrown by the async node.
+   */
+  readonly cause: unknown;
+
+  /**
+   * Creates a new render error.
+   *
+   * @param {string[]} path - The tag names of the ancestors of the failing node.
+   * @param {unknown} cause - The original error thrown by the async node.
+   */
+  constructor(path: string[], cause: unknown) {
+    const location = path.length > 0 ? path.join(" > ") : "<root>";
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Failed to render async node at ${location}: ${reason}`);
+    this.name = "NodeRenderError";
+    this.path = path;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Represents a value that is passed down the tree at render time, such as the theme, the locale,
+ * the current user or a CSP nonce, without threading it by hand through every component.
+ *
+ * Example usage:
+ * ```typescript
+ * const theme = createContext('light');
+ *
+ * const button = theme.consume((value) => el('button', classx(`btn-${value}`)));
+ * theme.provide('dark', div(button)).render();
+ * // Output: '<div><button class="btn-dark"></button></div>'
+ * ```
+ */
+export class Context<T> {
+  /**
+   * The value read when no ancestor provides a value for the context.
+   */
+  readonly defaultValue: T;
+
+  /**
+   * Creates a new context.
+   *
+   * @param {T} defaultValue - The value read when no ancestor provides a value for the context.
+   */
+  constructor(defaultValue: T) {
+    this.defaultValue = defaultValue;
+  }
+
+  /**
+   * Creates a node that provides a value for the context to all its children. Sibling subtrees
+   * are independent: the value is only visible to the children of the provider.
+   *
+   * @param {T} value - The value provided to the children.
+   * @param {...Node} children - The child nodes, rendered without any wrapping tag.
+   * @returns {Node} A new instance of NodeProvider representing the provider.
+   */
+  provide(value: T, ...children: Node[]): Node {
+    return new NodeProvider(this, value, ...children);
+  }
+
+  /**
+   * Creates a node that is built at render time from the nearest value of the context.
+   *
+   * @param {(value: T) => Node} fn - The function building the node from the value of the context.
+   * @returns {Node} A new instance of NodeConsumer representing the consumer.
+   */
+  consume(fn: (value: T) => Node): Node {
+    return new NodeConsumer(this, fn);
+  }
+
+  /**
+   * Reads the nearest value of the context from the options a node is rendered with.
+   * This is useful for custom node implementations.
+   *
+   * @param {RenderOptions} options - The options the node is rendered with.
+   * @returns {T} The value provided by the nearest provider, or the default value.
+   */
+  read(options: RenderOptions = {}): T {
+    if (options.context?.has(this) === true) {
+      return options.context.get(this) as T;
+    }
+    return this.defaultValue;
   }
 }
 
 /**
- * Represents an HTML attribute node in a document tree.
+ * Represents a node providing a value for a context to its children, see `Context.provide()`.
+ * It renders its children without any wrapping tag, like a group.
  *
  * @implements {Node}
  */
-export class NodeAttribute implements Node {
-  private readonly name: string;
-  private readonly value: string;
+export class NodeProvider<T> extends NodeElement {
+  private readonly context: Context<T>;
+  private readonly value: T;
 
   /**
-   * Creates a new HTML attribute node.
+   * Creates a new provider node.
    *
-   * @param {string} name - The name of the attribute.
-   * @param {string} value - The value of the attribute.
+   * @param {Context<T>} context - The provided context.
+   * @param {T} value - The value provided to the children.
+   * @param {...Node} children - The child nodes.
    */
-  constructor(name: string, value: string) {
-    this.name = name;
+  constructor(context: Context<T>, value: T, ...children: Node[]) {
+    super(false, "", ...children);
+    this.context = context;
     this.value = value;
   }
 
-  /**
-   * Renders the HTML attribute node to a string.
-   *
-   * @returns {string} The string representation of the HTML attribute.
-   * If the attribute name is empty, an empty string is returned.
-   */
-  render(): string {
-    if (this.name === "") return "";
-    return ` ${this.name}="${escapeHtml(this.value)}"`;
+  withChildren(children: readonly Node[]): NodeElement {
+    return new NodeProvider(this.context, this.value, ...children);
+  }
+
+  scopeOptions(options: RenderOptions): RenderOptions {
+    const context = new Map(options.context ?? []);
+    context.set(this.context, this.value);
+    return { ...options, context };
   }
 }
 
 /**
- * Represents an HTML element node in a document tree.
+ * Represents a node built at render time from the nearest value of a context, see `Context.consume()`.
  *
  * @implements {Node}
  */
-export class NodeElement implements Node {
-  private readonly isVoid: boolean;
-  private readonly name: string;
-  private readonly children: Node[];
+export class NodeConsumer<T> implements Node {
+  private readonly context: Context<T>;
+  private readonly fn: (value: T) => Node;
 
   /**
-   * Creates a new HTML element node.
+   * Creates a new consumer node.
    *
-   * @param {boolean} isVoid - Indicates if the element is a void element (e.g., <img>, <br>).
-   * @param {string} name - The name of the HTML element (e.g., 'div', 'span').
-   * @param {...Node} children - The child nodes of the HTML element, which can be attributes, text, or other elements.
+   * @param {Context<T>} context - The consumed context.
+   * @param {(value: T) => Node} fn - The function building the node from the value of the context.
    */
-  constructor(isVoid: boolean, name: string, ...children: Node[]) {
-    this.isVoid = isVoid;
-    this.name = name;
-    this.children = children;
+  constructor(context: Context<T>, fn: (value: T) => Node) {
+    this.context = context;
+    this.fn = fn;
   }
 
   /**
-   * Renders the HTML element node and all its children to a string.
+   * Builds the node from the nearest value of the context.
    *
-   * @returns {string} The string representation of the HTML element and its children.
+   * @param {RenderOptions} options - The options the node is rendered with.
+   * @returns {Node} The node built from the value of the context.
    */
-  render(): string {
-    let childrenAttributes = "";
-    let childrenNodes = "";
-
-    for (const child of this.children) {
-      if (child instanceof NodeAttribute) {
-        childrenAttributes += child.render();
-      }
+  resolve(options: RenderOptions = {}): Node {
+    return this.fn(this.context.read(options));
+  }
 
-      if (child instanceof NodeElement || child instanceof NodeText) {
-        childrenNodes += child.render();
-      }
-    }
+  render(options: RenderOptions = {}): string {
+    return this.resolve(options).render(options);
+  }
 
-    if (this.name === "") {
-      return childrenNodes;
-    }
+  renderAttributes(options: RenderOptions = {}): string {
+    return renderNodeAttributes(this.resolve(options), options);
+  }
 
-    if (this.isVoid) {
-      return `<${this.name}${childrenAttributes}>`;
-    }
+  renderContent(options: RenderOptions = {}): string {
+    return renderNodeContent(this.resolve(options), options);
+  }
 
-    return `<${this.name}${childrenAttributes}>${childrenNodes}</${this.name}>`;
+  async renderAsync(
+    options: RenderOptions = {},
+    path: string[] = [],
+  ): Promise<string> {
+    return await renderNodeContentAsync(this.resolve(options), options, path);
   }
 }
 
+/**
+ * Creates a new context.
+ * This helper function allows for passing values down the tree at render time, see `Context`.
+ *
+ * Example usage:
+ * ```typescript
+ * const locale = createContext('en');
+ * const greeting = locale.consume((value) => text(value === 'es' ? 'Hola' : 'Hello'));
+ * group(locale.provide('es', p(greeting)), p(greeting)).render();
+ * // Output: '<p>Hola</p><p>Hello</p>'
+ * ```
+ *
+ * @template T
+ * @param {T} defaultValue - The value read when no ancestor provides a value for the context.
+ * @returns {Context<T>} A new context.
+ */
+export function createContext<T>(defaultValue: T): Context<T> {
+  return new Context(defaultValue);
+}
+
+/**
+ * Resolves consumer nodes to the node they build, so that renderers can handle the built node
+ * like any other child (e.g. merging its attributes or streaming its content).
+ *
+ * @param {Node} node - The child node.
+ * @param {RenderOptions} options - The options the node is rendered with.
+ * @returns {Node} The node built by the consumer, or the given node if it is not a consumer.
+ */
+function resolveConsumer(node: Node, options: RenderOptions): Node {
+  while (node instanceof NodeConsumer) node = node.resolve(options);
+  return node;
+}
+
 /**
  * Creates a new HTML attribute node.
  * This helper function allows for the creation of various HTML attributes such as href, alt, type, etc.
@@ -156,20 +1551,52 @@ export class NodeElement implements Node {
  * function placeholder(value: string): Node {
  *   return attr('placeholder', value);
  * }
+ *
+ * attr('checked', true).render(); // Output: ' checked'
+ * attr('checked', false).render(); // Output: ''
+ * attr('href', 'javascript:alert(1)').render(); // Output: ' href="about:invalid#nodx-unsafe-url"'
  * ```
  *
  * @param {string} name - The name of the HTML attribute.
- * @param {string} value - The value of the HTML attribute.
+ * @param {AttributeValue} value - The value of the HTML attribute, or a boolean for boolean attributes.
  * @returns {Node} A new instance of NodeAttribute representing the HTML attribute.
  */
-export function attr(name: string, value: string): Node {
+export function attr(name: string, value: AttributeValue): Node {
   return new NodeAttribute(name, value);
 }
 
+/**
+ * Conditionally creates a new HTML attribute node.
+ * If the condition is false, the attribute is not rendered at all. If it is true, the attribute
+ * is rendered with the given value, or as a bare boolean attribute when no value is given.
+ *
+ * Example usage:
+ * ```typescript
+ * attrIf('disabled', isLoading).render(); // Output: ' disabled' or ''
+ * attrIf('aria-current', isActive, 'page').render(); // Output: ' aria-current="page"' or ''
+ * ```
+ *
+ * @param {string} name - The name of the HTML attribute.
+ * @param {boolean} condition - The condition to determine whether to render the attribute.
+ * @param {string} value - The value of the HTML attribute, omit it for boolean attributes.
+ * @returns {Node} A new instance of NodeAttribute representing the HTML attribute.
+ */
+export function attrIf(
+  name: string,
+  condition: boolean,
+  value?: string,
+): Node {
+  return new NodeAttribute(name, condition ? (value ?? true) : false);
+}
+
 /**
  * Creates a new HTML element node.
  * This helper function allows for the creation of various HTML elements such as div, span, p, etc.
  *
+ * If the tag is one of the void elements of the HTML standard (see `voidElements`), the element
+ * is created as a void element, just like with `elVoid`. Void elements are rendered as regular
+ * elements in the `"xml"` syntax.
+ *
  * All helper functions are stored in `elements.ts` file.
  *
  * Example usage:
@@ -184,7 +1611,7 @@ export function attr(name: string, value: string): Node {
  * @returns {Node} A new instance of NodeElement representing the HTML element.
  */
 export function el(tag: string, ...children: Node[]): Node {
-  return new NodeElement(false, tag, ...children);
+  return new NodeElement(voidElements.has(tag.toLowerCase()), tag, ...children);
 }
 
 /**
@@ -242,10 +1669,71 @@ export function raw(text: string): Node {
   return new NodeText(text);
 }
 
+/**
+ * Creates a new node rendering a value as JSON, to be embedded in a `<script>` element.
+ * The characters that could break out of the script element or be misread by JavaScript
+ * parsers (`<`, `>`, `&`, U+2028 and U+2029) are escaped as unicode escape sequences, so
+ * the output is still valid JSON.
+ *
+ * Example usage:
+ * ```typescript
+ * el('script', attr('type', 'application/json'), json({ html: '</script>' })).render();
+ * // Output: '<script type="application/json">{"html":"\\u003c/script\\u003e"}</script>'
+ * ```
+ *
+ * @param {unknown} value - The value to serialize, `undefined` is rendered as `null`.
+ * @returns {Node} A new instance of NodeText representing the JSON.
+ */
+export function json(value: unknown): Node {
+  const serialized = JSON.stringify(value) ?? "null";
+  return new NodeText(
+    serialized.replace(/[<>&\u2028\u2029]/g, (char) =>
+      `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`,
+    ),
+  );
+}
+
+/**
+ * Checks a URL and wraps it so that it is rendered as-is in URL attributes.
+ * If the URL is not safe (see `isSafeUrl()`), it is replaced with `unsafeUrlReplacement`.
+ *
+ * This is useful to check a URL once, where it enters the application, and pass it around typed.
+ *
+ * Example usage:
+ * ```typescript
+ * attr('href', safeUrl('/profile')).render(); // Output: ' href="/profile"'
+ * attr('href', safeUrl('javascript:alert(1)')).render(); // Output: ' href="about:invalid#nodx-unsafe-url"'
+ * ```
+ *
+ * @param {string} url - The URL to check.
+ * @returns {SafeUrl} The URL, or the replacement URL if it is not safe.
+ */
+export function safeUrl(url: string): SafeUrl {
+  return new SafeUrl(isSafeUrl(url) ? url : unsafeUrlReplacement);
+}
+
+/**
+ * Wraps a URL so that it is rendered as-is in URL attributes, without being checked.
+ * **Warning:** This should only be used with URLs known to be safe, such as URLs with custom
+ * schemes built by the application, as it may expose to XSS attacks.
+ *
+ * Example usage:
+ * ```typescript
+ * attr('href', trustedUrl('myapp://open')).render(); // Output: ' href="myapp://open"'
+ * ```
+ *
+ * @param {string} url - The trusted URL.
+ * @returns {SafeUrl} The URL, wrapped.
+ */
+export function trustedUrl(url: string): SafeUrl {
+  return new SafeUrl(url);
+}
+
 /**
  * Creates a new group of nodes.
  * This helper function allows for grouping multiple nodes into a single node without adding extra HTML elements.
- * The resulting node renders its child nodes directly without any wrapping tag.
+ * The resulting node renders its child nodes directly without any wrapping tag,
+ * and any attribute node in the group is added to the attributes of the parent element.
  *
  * Example usage:
  * ```typescript
@@ -267,6 +1755,7 @@ export function group(...nodes: Node[]): Node {
  * Example usage:
  * ```typescript
  * ifx(isVisible, div(), span(), p()).render();
+ * button(ifx(isDisabled, attr('disabled', '')), text('Send')).render();
  * ```
  *
  * @param {boolean} condition - The condition to determine whether to render the nodes.
@@ -296,6 +1785,27 @@ export function mapx<T>(items: T[], fn: (item: T) => Node): Node {
   return group(...items.map(fn));
 }
 
+/**
+ * Creates a new async node.
+ * This helper function allows components to await their own data inside the tree.
+ * The resulting node must be rendered with `renderAsync()`, `renderStream()` or `renderToSink()`.
+ *
+ * Example usage:
+ * ```typescript
+ * const posts = asyncx(async () => {
+ *   const items = await fetchPosts();
+ *   return mapx(items, post => li(text(post.title)));
+ * });
+ * await renderAsync(ul(posts));
+ * ```
+ *
+ * @param {NodeAsyncSource} source - A promise of a node, or a function returning a node or a promise of a node.
+ * @returns {Node} A new instance of NodeAsync representing the async node.
+ */
+export function asyncx(source: NodeAsyncSource): Node {
+  return new NodeAsync(source);
+}
+
 /**
  * Creates a new class attribute node.
  * This helper function allows for the creation of a class attribute from a string, an array of strings, or an object in the form of { [key: string]: boolean }.
@@ -312,7 +1822,7 @@ export function mapx<T>(items: T[], fn: (item: T) => Node): Node {
  */
 export function classx(
   ...classes: Array<string | { [key: string]: boolean }>
-): Node {
+): GlobalAttribute {
   if (!Array.isArray(classes)) {
     return attr("class", "");
   }
@@ -335,3 +1845,443 @@ export function classx(
 
   return attr("class", classList.join(" "));
 }
+
+/**
+ * A style input accepted by `stylex`: a style object, a preformatted declarations string,
+ * an array of style inputs, or a falsy value to skip it.
+ */
+export type StyleInput =
+  | StyleObject
+  | string
+  | StyleInput[]
+  | false
+  | null
+  | undefined;
+
+/**
+ * Creates a new style attribute node.
+ * This helper function allows for the creation of a style attribute from objects of CSS properties
+ * (in camelCase or kebab-case), preformatted declaration strings, arrays, and conditional values.
+ *
+ * Numeric values get the `px` unit unless the property is unitless (e.g. `opacity` or `zIndex`),
+ * and properties with a `false`, `null` or `undefined` value are skipped. When a property is
+ * declared more than once, the last declaration wins.
+ *
+ * Example usage:
+ * ```typescript
+ * stylex({ backgroundColor: 'red', marginTop: 8, opacity: 0.5 });
+ * // Output: ' style="background-color: red; margin-top: 8px; opacity: 0.5"'
+ * stylex('color: red', isActive && { fontWeight: 700 }, [{ '--gap': '4px' }]);
+ * ```
+ *
+ * @param {...StyleInput} styles - The styles to be included in the style attribute.
+ * @returns {Node} A new instance of NodeAttribute representing the style attribute.
+ */
+export function stylex(...styles: StyleInput[]): GlobalAttribute {
+  const declarations = new Map<string, string>();
+
+  const addStyle = (style: StyleInput): void => {
+    if (typeof style === "string") {
+      for (const declaration of splitStyleDeclarations(style)) {
+        const colon = declaration.indexOf(":");
+        if (colon === -1) continue;
+        const name = declaration.slice(0, colon).trim();
+        const property = name.startsWith("--") ? name : name.toLowerCase();
+        declarations.delete(property);
+        declarations.set(property, declaration.slice(colon + 1).trim());
+      }
+      return;
+    }
+
+    if (Array.isArray(style)) {
+      for (const item of style) addStyle(item);
+      return;
+    }
+
+    if (typeof style !== "object" || style === null) return;
+
+    for (const key in style) {
+      const value = (style as Record<string, unknown>)[key];
+      if (typeof value === "number" && !isFinite(value)) continue;
+      if (typeof value !== "string" && typeof value !== "number") continue;
+      const property = cssPropertyName(key);
+      declarations.delete(property);
+      declarations.set(property, cssValue(property, value));
+    }
+  };
+
+  for (const style of styles) addStyle(style);
+
+  const declarationList = [];
+  for (const [property, value] of declarations) {
+    declarationList.push(`${property}: ${value}`);
+  }
+
+  return attr("style", declarationList.join("; "));
+}
+
+/**
+ * Renders any node as a sequence of string chunks.
+ * Elements are rendered lazily chunk by chunk; any other node is rendered as a single chunk.
+ *
+ * @param {Node} node - The node to be rendered.
+ * @param {RenderOptions} options - The options to control how the node is rendered.
+ * @returns {Generator<string>} A generator yielding the rendered chunks in document order.
+ */
+export function * renderChunks(
+  node: Node,
+  options: RenderOptions = {},
+): Generator<string> {
+  if (node instanceof NodeElement) {
+    yield * node.chunks(options);
+    return;
+  }
+
+  yield node.render(options);
+}
+
+/**
+ * Renders any node as an async sequence of string chunks, awaiting any async node found in the tree.
+ * An empty chunk is yielded right before waiting on an async node, so consumers can flush their buffers.
+ *
+ * @param {Node} node - The node to be rendered.
+ * @param {RenderOptions} options - The options to control how the node is rendered.
+ * @param {string[]} path - The tag names of the ancestors of the node, used for error reporting.
+ * @returns {AsyncGenerator<string>} An async generator yielding the rendered chunks in document order.
+ */
+export async function * renderChunksAsync(
+  node: Node,
+  options: RenderOptions = {},
+  path: string[] = [],
+): AsyncGenerator<string> {
+  if (node instanceof NodeElement) {
+    yield * node.chunksAsync(options, path);
+    return;
+  }
+
+  if (node instanceof NodeAsync) {
+    yield "";
+    yield * renderChunksAsync(await node.resolveAt(path), options, path);
+    return;
+  }
+
+  if (hasRenderAsync(node)) {
+    yield "";
+    yield await node.renderAsync(options, path);
+    return;
+  }
+
+  yield node.render(options);
+}
+
+/**
+ * Starts reading a sequence of chunks right away and buffers them until they are read, so that
+ * an async node resolves while the chunks before it are still written.
+ *
+ * @param {AsyncGenerator<string>} chunks - The chunks to read.
+ * @returns {AsyncGenerator<string>} The same chunks, in order.
+ */
+function prefetchChunks(chunks: AsyncGenerator<string>): AsyncGenerator<string> {
+  let buffer: string[] = [];
+  let done = false;
+  let failure: { error: unknown } | undefined;
+  let wake: (() => void) | undefined;
+
+  const notify = (): void => {
+    const resolve = wake;
+    wake = undefined;
+    resolve?.();
+  };
+
+  void (async () => {
+    try {
+      for await (const chunk of chunks) {
+        buffer.push(chunk);
+        notify();
+      }
+    } catch (error) {
+      // The error is thrown when the chunks are read, in document order.
+      failure = { error };
+    }
+    done = true;
+    notify();
+  })();
+
+  return (async function * () {
+    while (true) {
+      if (buffer.length > 0) {
+        const buffered = buffer;
+        buffer = [];
+        yield * buffered;
+        continue;
+      }
+      if (failure !== undefined) throw failure.error;
+      if (done) return;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  })();
+}
+
+/**
+ * Renders any node to a string, awaiting any async node found in the tree.
+ * Sibling async nodes are resolved concurrently and the output keeps the document order.
+ *
+ * If an async node fails, the returned promise rejects with a `NodeRenderError`
+ * reporting the path of the failing node.
+ *
+ * Example usage:
+ * ```typescript
+ * const html = await renderAsync(div(asyncx(loadProfile), asyncx(loadFeed)));
+ * ```
+ *
+ * @param {Node} node - The node to be rendered.
+ * @param {RenderOptions} options - The options to control how the node is rendered.
+ * @param {string[]} path - The tag names of the ancestors of the node, used for error reporting.
+ * @returns {Promise<string>} The string representation of the node.
+ */
+export async function renderAsync(
+  node: Node,
+  options: RenderOptions = {},
+  path: string[] = [],
+): Promise<string> {
+  if (node instanceof NodeElement) {
+    return await node.renderAsync(options, path);
+  }
+
+  if (node instanceof NodeAsync) {
+    return await renderAsync(await node.resolveAt(path), options, path);
+  }
+
+  if (hasRenderAsync(node)) {
+    return await node.renderAsync(options, path);
+  }
+
+  return node.render(options);
+}
+
+/**
+ * Renders the content a node contributes to its parent element, awaiting any async node found in the tree.
+ *
+ * @param {Node} node - The child node.
+ * @param {RenderOptions} options - The options to control how the node is rendered.
+ * @param {string[]} path - The tag names of the ancestors of the node, used for error reporting.
+ * @returns {Promise<string>} The content contributed by the node.
+ */
+export async function renderNodeContentAsync(
+  node: Node,
+  options: RenderOptions = {},
+  path: string[] = [],
+): Promise<string> {
+  if (
+    node instanceof NodeElement ||
+    node instanceof NodeAsync ||
+    hasRenderAsync(node)
+  ) {
+    return await renderAsync(node, options, path);
+  }
+
+  return renderNodeContent(node, options);
+}
+
+/**
+ * Checks whether a child node renders its content asynchronously: an async node, or a custom
+ * node implementing `renderAsync`. Elements and consumers are rendered through their children.
+ *
+ * @param {Node} node - The node to be checked.
+ * @returns {boolean} True if the content of the node is rendered asynchronously.
+ */
+function isAsyncContent(node: Node): boolean {
+  return node instanceof NodeAsync ||
+    (hasRenderAsync(node) && !(node instanceof NodeElement) && !(node instanceof NodeConsumer));
+}
+
+/**
+ * Checks whether a node renders asynchronously by itself, through the optional `renderAsync` method.
+ *
+ * @param {Node} node - The node to be checked.
+ * @returns {boolean} True if the node implements `renderAsync`.
+ */
+function hasRenderAsync(
+  node: Node,
+): node is Node & Required<Pick<Node, "renderAsync">> {
+  return isNode(node) && typeof node.renderAsync === "function";
+}
+
+/**
+ * Options to control how a node is streamed.
+ */
+export interface RenderStreamOptions extends RenderOptions {
+  /**
+   * The minimum size (in characters) of each emitted chunk. Smaller chunks are buffered
+   * and emitted together. Use `0` to emit every chunk as soon as it is produced.
+   *
+   * @default 8192
+   */
+  chunkSize?: number;
+}
+
+/**
+ * Renders a node as an async iterable of string chunks instead of building the whole
+ * document in memory. Joining all the chunks produces exactly the same output as `render()`.
+ *
+ * Async nodes are awaited in document order, and everything rendered before them is
+ * flushed first, so the beginning of the document can be sent while they resolve.
+ *
+ * Example usage:
+ * ```typescript
+ * for await (const chunk of renderStream(page)) {
+ *   res.write(chunk);
+ * }
+ * ```
+ *
+ * @param {Node} node - The node to be rendered.
+ * @param {RenderStreamOptions} options - The options to control how the node is streamed.
+ * @returns {AsyncGenerator<string>} An async generator yielding the rendered chunks in document order.
+ */
+export async function * renderStream(
+  node: Node,
+  options: RenderStreamOptions = {},
+): AsyncGenerator<string> {
+  const chunkSize = options.chunkSize ?? 8192;
+  let buffer = "";
+
+  for await (const chunk of renderChunksAsync(node, options)) {
+    buffer += chunk;
+    if (buffer !== "" && (chunk === "" || buffer.length >= chunkSize)) {
+      yield buffer;
+      buffer = "";
+    }
+  }
+
+  if (buffer !== "") {
+    yield buffer;
+  }
+}
+
+/**
+ * A Node.js `Writable` compatible sink, such as `http.ServerResponse` or `fs.WriteStream`.
+ */
+export interface NodeWritableSink {
+  write: (chunk: string) => boolean;
+  once: (event: "drain" | "error" | "close", listener: (error?: unknown) => void) => unknown;
+  removeListener: (
+    event: "drain" | "error" | "close",
+    listener: (error?: unknown) => void,
+  ) => unknown;
+  end: () => unknown;
+  destroy: (error?: Error) => unknown;
+  readonly destroyed?: boolean;
+}
+
+/**
+ * A WHATWG `WritableStream` compatible sink accepting string chunks.
+ * Pipe it through a `TextEncoderStream` when the destination expects bytes.
+ */
+export interface WebWritableSink {
+  getWriter: () => {
+    ready: Promise<unknown>;
+    write: (chunk: string) => Promise<void>;
+    close: () => Promise<void>;
+    abort: (reason?: unknown) => Promise<void>;
+    releaseLock: () => void;
+  };
+}
+
+/**
+ * Options to control how a node is written to a sink.
+ */
+export interface RenderToSinkOptions extends RenderStreamOptions {
+  /**
+   * Whether to end (or close) the sink once the node is fully rendered.
+   *
+   * @default true
+   */
+  end?: boolean;
+}
+
+/**
+ * Renders a node and writes the chunks to a Node.js `Writable` or a WHATWG `WritableStream`
+ * as they are produced, honoring the backpressure of the sink. If the rendering fails, the sink
+ * is destroyed (or aborted) with the error, and if the sink fails or is closed before the node
+ * is fully rendered, the promise rejects.
+ *
+ * Example usage:
+ * ```typescript
+ * await renderToSink(page, res);
+ * ```
+ *
+ * @param {Node} node - The node to be rendered.
+ * @param {NodeWritableSink | WebWritableSink} sink - The destination of the rendered chunks.
+ * @param {RenderToSinkOptions} options - The options to control how the node is written.
+ * @returns {Promise<void>} A promise that resolves once every chunk has been written.
+ */
+export async function renderToSink(
+  node: Node,
+  sink: NodeWritableSink | WebWritableSink,
+  options: RenderToSinkOptions = {},
+): Promise<void> {
+  const end = options.end ?? true;
+
+  if ("getWriter" in sink) {
+    const writer = sink.getWriter();
+    try {
+      for await (const chunk of renderStream(node, options)) {
+        await writer.ready;
+        await writer.write(chunk);
+      }
+      if (end) await writer.close();
+    } catch (error) {
+      await writer.abort(error);
+      throw error;
+    } finally {
+      writer.releaseLock();
+    }
+    return;
+  }
+
+  try {
+    for await (const chunk of renderStream(node, options)) {
+      if (sink.destroyed === true) {
+        throw new Error("nodx: the sink was destroyed before the node was fully rendered");
+      }
+      if (!sink.write(chunk)) {
+        await waitForDrain(sink);
+      }
+    }
+  } catch (error) {
+    sink.destroy(error instanceof Error ? error : new Error(String(error)));
+    throw error;
+  }
+  if (end) sink.end();
+}
+
+/**
+ * Waits for a Node.js writable to drain, rejecting if it errors or closes in the meantime.
+ */
+async function waitForDrain(sink: NodeWritableSink): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const onDrain = (): void => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error?: unknown): void => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = (): void => {
+      cleanup();
+      reject(new Error("nodx: the sink was closed before the node was fully rendered"));
+    };
+    const cleanup = (): void => {
+      sink.removeListener("drain", onDrain);
+      sink.removeListener("error", onError);
+      sink.removeListener("close", onClose);
+    };
+
+    sink.once("drain", onDrain);
+    sink.once("error", onError);
+    sink.once("close", onClose);
+  });
+}
@@ -0,0 +1,286 @@
+import { describe, expect, it } from "vitest";
+import { decodeEntities, parseHtml, parseHtmlTree } from "./parser.js";
+import { attr, classx, el, NodeElement } from "./nodx.js";
+
+describe("decodeEntities", () => {
+  it("Decodes named references", () => {
+    const expected = "Tom & Jerry <3 \u00a0© — “quoted”";
+    const got = decodeEntities(
+      "Tom &amp; Jerry &lt;3 &nbsp;&copy; &mdash; &ldquo;quoted&rdquo;",
+    );
+    expect(got).toBe(expected);
+  });
+
+  it("Decodes numeric references", () => {
+    const expected = "© © 😀 �";
+    const got = decodeEntities("&#169; &#xA9; &#x1F600; &#0;");
+    expect(got).toBe(expected);
+  });
+
+  it("Keeps unknown references", () => {
+    const expected = "&unknown; & &;";
+    const got = decodeEntities("&unknown; & &;");
+    expect(got).toBe(expected);
+  });
+
+  it("Decodes legacy references without semicolon", () => {
+    const expected = "© 2024 & co";
+    const got = decodeEntities("&copy 2024 &amp co");
+    expect(got).toBe(expected);
+  });
+
+  it("Decodes every named reference of the HTML standard", () => {
+    const expected = "č ≪ 𝔄 ⊏̸";
+    const got = decodeEntities("&ccaron; &ll; &Afr; &NotSquareSubset;");
+    expect(got).toBe(expected);
+  });
+
+  it("Decodes the longest legacy reference prefixing a name", () => {
+    const expected = "<3 ¬it; ©right ∉";
+    const got = decodeEntities("&lt3 &notit; &copyright &notin;");
+    expect(got).toBe(expected);
+  });
+
+  it("Keeps legacy references followed by = or alphanumerics in attributes", () => {
+    const expected = "/search?a=1&copy=2&ampx";
+    const got = decodeEntities("/search?a=1&copy=2&ampx", true);
+    expect(got).toBe(expected);
+  });
+});
+
+describe("parseHtml", () => {
+  it("Parses elements, attributes and text", () => {
+    const input = '<div id="main" class="card"><p>Hello <b>world</b></p></div>';
+    const got = parseHtml(input).render();
+    expect(got).toBe(input);
+  });
+
+  it("Produces nodx nodes", () => {
+    const node = parseHtml('<a href="/">Home</a>') as NodeElement;
+    expect(node).toBeInstanceOf(NodeElement);
+    expect(node.render()).toBe('<a href="/">Home</a>');
+  });
+
+  it("Parses multiple top-level nodes", () => {
+    const input = "Text <em>one</em> <em>two</em>";
+    const got = parseHtml(input).render();
+    expect(got).toBe(input);
+  });
+
+  it("Lowercases tag and attribute names", () => {
+    const expected = '<div class="a" data-id="1"></div>';
+    const got = parseHtml('<DIV Class="a" DATA-ID="1"></Div>').render();
+    expect(got).toBe(expected);
+  });
+
+  it("Parses unquoted, single-quoted and boolean attributes", () => {
+    const expected =
+      '<input type="checkbox" value="it&#39;s" checked name="agree">';
+    const got = parseHtml(
+      "<input type=checkbox value='it&#39;s' checked name = \"agree\">",
+    ).render();
+    expect(got).toBe(expected);
+  });
+
+  it("Keeps the first of duplicate attributes", () => {
+    const expected = '<div id="a"></div>';
+    const got = parseHtml('<div id="a" id="b"></div>').render();
+    expect(got).toBe(expected);
+  });
+
+  it("Decodes entities and escapes them again when rendered", () => {
+    const expected = '<p title="Tom &amp; Jerry">1 &lt; 2 &amp; ©</p>';
+    const got = parseHtml('<p title="Tom &amp; Jerry">1 &lt; 2 &amp; &copy;</p>').render();
+    expect(got).toBe(expected);
+  });
+
+  it("Renders every named reference and legacy reference like a browser", () => {
+    expect(parseHtml("<p>&ccaron; &lt3 &NotSquareSubset;</p>").render()).toBe("<p>č &lt;3 ⊏̸</p>");
+    expect(parseHtml('<a href="?a=1&copy=2" title="&lt3">x</a>').render()).toBe(
+      '<a href="?a=1&amp;copy=2" title="&amp;lt3">x</a>',
+    );
+  });
+
+  it("Parses void elements without end tags", () => {
+    const expected = '<p>One<br>Two<img src="a.png" alt=""></p>';
+    const got = parseHtml('<p>One<br>Two<img src="a.png" alt=""/></p>').render();
+    expect(got).toBe(expected);
+  });
+
+  it("Ignores end tags of void elements", () => {
+    const expected = "<p>One<br>Two</p>";
+    const got = parseHtml("<p>One<br></br>Two</p>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Ignores the self-closing syntax on HTML elements", () => {
+    const expected = "<div><span>Text</span></div>";
+    const got = parseHtml("<div/><span>Text</span>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Keeps the content of script and style as raw text", () => {
+    const input =
+      '<script>if (a < b && c) { document.write("<p>&amp;</p>") }</script><style>a > b { content: "&"; }</style>';
+    const got = parseHtml(input).render();
+    expect(got).toBe(input);
+  });
+
+  it("Matches the end tag of raw text elements case-insensitively", () => {
+    const expected = "<script>let a = 1;</script><p>After</p>";
+    const got = parseHtml("<script>let a = 1;</SCRIPT ><p>After</p>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Does not parse markup in textarea and title", () => {
+    const expected =
+      "<title>A &lt;b&gt; &amp; title</title><textarea>&lt;p&gt;Hi&lt;/p&gt;</textarea>";
+    const got = parseHtml(
+      "<title>A <b> &amp; title</title><textarea><p>Hi</p></textarea>",
+    ).render();
+    expect(got).toBe(expected);
+  });
+
+  it("Closes list items implicitly", () => {
+    const expected = "<ul><li>One</li><li>Two</li><li>Three</li></ul>";
+    const got = parseHtml("<ul><li>One<li>Two<li>Three</ul>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Does not close list items of an outer list", () => {
+    const expected = "<ul><li>One<ul><li>A</li><li>B</li></ul></li><li>Two</li></ul>";
+    const got = parseHtml("<ul><li>One<ul><li>A<li>B</ul><li>Two</ul>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Closes paragraphs implicitly", () => {
+    const expected = "<p>One</p><p>Two <b>bold</b></p><div>Block</div>";
+    const got = parseHtml("<p>One<p>Two <b>bold</b><div>Block</div>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Closes definition terms, options and table cells implicitly", () => {
+    expect(parseHtml("<dl><dt>A<dd>1<dt>B<dd>2</dl>").render()).toBe(
+      "<dl><dt>A</dt><dd>1</dd><dt>B</dt><dd>2</dd></dl>",
+    );
+    expect(parseHtml("<select><option>A<option>B</select>").render()).toBe(
+      "<select><option>A</option><option>B</option></select>",
+    );
+    expect(
+      parseHtml("<table><tbody><tr><td>1<td>2<tr><th>3</table>").render(),
+    ).toBe(
+      "<table><tbody><tr><td>1</td><td>2</td></tr><tr><th>3</th></tr></tbody></table>",
+    );
+  });
+
+  it("Closes elements left open", () => {
+    const expected = "<div><span>Text</span></div>";
+    const got = parseHtml("<div><span>Text").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Closes the elements in between when an ancestor is closed", () => {
+    const expected = "<div><span><b>Text</b></span></div><p>After</p>";
+    const got = parseHtml("<div><span><b>Text</div><p>After</p>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Ignores unmatched end tags", () => {
+    const expected = "<div>Text</div>";
+    const got = parseHtml("</span><div>Text</section></div>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Keeps comments and the doctype", () => {
+    const input = "<!DOCTYPE html><!-- a <b>comment</b> --><p>Text</p>";
+    const got = parseHtml(input).render();
+    expect(got).toBe(input);
+  });
+
+  it("Ends comments like browsers do", () => {
+    const got = parseHtml("<p>a<!-- x --!><img src=x onerror=alert(1)> --></p>").render();
+    expect(got).toBe('<p>a<!-- x --><img src="x" onerror="alert(1)"> --&gt;</p>');
+    expect(parseHtml("<!--><p>a</p>").render()).toBe("<!----><p>a</p>");
+    expect(parseHtml("<!---><p>a</p>").render()).toBe("<!----><p>a</p>");
+    expect(parseHtml("<!-- a - b -- c --><p>a</p>").render()).toBe(
+      "<!-- a - b -- c --><p>a</p>",
+    );
+    expect(parseHtml("<p>a</p><!-- open").render()).toBe("<p>a</p><!-- open-->");
+  });
+
+  it("Treats a lone < as text", () => {
+    const expected = "<p>1 &lt; 2 and 3&lt;4</p>";
+    const got = parseHtml("<p>1 < 2 and 3<4</p>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Drops a tag that is not closed before the end of the input", () => {
+    const expected = "<p>Text</p>";
+    const got = parseHtml('<p>Text</p><a href="').render();
+    expect(got).toBe(expected);
+  });
+
+  it("Keeps the case and the self-closing syntax of SVG content", () => {
+    const expected =
+      '<svg viewBox="0 0 10 10"><linearGradient id="g"></linearGradient><path d="M0 0"></path></svg>';
+    const got = parseHtml(
+      '<svg viewBox="0 0 10 10"><linearGradient id="g"/><path d="M0 0"/></svg>',
+    ).render();
+    expect(got).toBe(expected);
+  });
+
+  it("Parses a full document", () => {
+    const input =
+      '<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>Page</title></head><body><h1>Hi</h1></body></html>';
+    const got = parseHtml(input).render();
+    expect(got).toBe(input);
+  });
+
+  it("Composes with other nodes", () => {
+    const fragment = parseHtml('<span class="a">x</span>');
+    const node = el("div", classx("card"), fragment, attr("id", "main"));
+    const expected = '<div class="card" id="main"><span class="a">x</span></div>';
+    expect(node.render()).toBe(expected);
+  });
+});
+
+describe("parseHtml with the xml option", () => {
+  it("Keeps the case of names and honors the self-closing syntax", () => {
+    const expected =
+      '<Root myAttr="1"><Item></Item><Item>Text</Item></Root>';
+    const got = parseHtml('<Root myAttr="1"><Item/><Item>Text</Item></Root>', {
+      xml: true,
+    }).render();
+    expect(got).toBe(expected);
+  });
+
+  it("Does not close elements implicitly", () => {
+    const expected = "<p><p>Nested</p></p>";
+    const got = parseHtml("<p><p>Nested</p></p>", { xml: true }).render();
+    expect(got).toBe(expected);
+  });
+
+  it("Keeps the namespace prefixes of attributes", () => {
+    const tree = parseHtmlTree(
+      '<svg xmlns:xlink="http://www.w3.org/1999/xlink"><use xlink:href="#a"/></svg>',
+      { xml: true },
+    );
+    expect(tree).toEqual([
+      {
+        kind: "element",
+        name: "svg",
+        attributes: [{ name: "xmlns:xlink", value: "http://www.w3.org/1999/xlink" }],
+        children: [
+          {
+            kind: "element",
+            name: "use",
+            attributes: [{ name: "xlink:href", value: "#a" }],
+            children: [],
+            foreign: true,
+          },
+        ],
+        foreign: true,
+      },
+    ]);
+  });
+});
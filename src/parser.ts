@@ -0,0 +1,651 @@
+import {
+  attr,
+  group,
+  Node,
+  NodeElement,
+  raw,
+  text,
+  voidElements,
+} from "./nodx.js";
+import { legacyCharacterReferences, namedCharacterReferences } from "./entities.js";
+
+const hasOwnProperty = Object.prototype.hasOwnProperty;
+
+/**
+ * Elements whose content is raw text: it is not parsed as markup and entities are not
+ * decoded, so it is kept as-is (see `raw()`).
+ */
+const rawTextElements: ReadonlySet<string> = new Set([
+  "script",
+  "style",
+  "xmp",
+  "iframe",
+  "noembed",
+  "noframes",
+]);
+
+/**
+ * Elements whose content is escapable raw text: it is not parsed as markup, but entities
+ * are decoded.
+ */
+const escapableRawTextElements: ReadonlySet<string> = new Set([
+  "textarea",
+  "title",
+]);
+
+/**
+ * Elements whose content is parsed as XML-like foreign content: tag and attribute names keep
+ * their case and the self-closing syntax (`<path />`) closes the element.
+ */
+const foreignElements: ReadonlySet<string> = new Set(["svg", "math"]);
+
+/**
+ * Elements that close an open `<p>` element when they start.
+ */
+const closesParagraph = [
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "details",
+  "dialog",
+  "div",
+  "dl",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hgroup",
+  "hr",
+  "main",
+  "menu",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "search",
+  "section",
+  "table",
+  "ul",
+];
+
+/**
+ * Elements that stop the search for an element to close implicitly.
+ */
+const scopeElements = [
+  "html",
+  "body",
+  "table",
+  "td",
+  "th",
+  "caption",
+  "template",
+  "object",
+  "button",
+  "svg",
+  "math",
+];
+
+/**
+ * Describes the elements implicitly closed when an element starts, e.g. `<li>` closes the
+ * previous `<li>` of the same list.
+ */
+interface ImpliedEndTag {
+  /**
+   * The open elements that are closed.
+   */
+  closes: string[];
+
+  /**
+   * The open elements that stop the search for an element to close.
+   */
+  boundaries: string[];
+}
+
+const impliedEndTags: Record<string, ImpliedEndTag> = {
+  li: { closes: ["li"], boundaries: ["ul", "ol", "menu", ...scopeElements] },
+  dt: { closes: ["dt", "dd"], boundaries: ["dl", ...scopeElements] },
+  dd: { closes: ["dt", "dd"], boundaries: ["dl", ...scopeElements] },
+  option: { closes: ["option"], boundaries: ["select", "datalist", "optgroup"] },
+  optgroup: { closes: ["option", "optgroup"], boundaries: ["select"] },
+  rt: { closes: ["rt", "rp"], boundaries: ["ruby"] },
+  rp: { closes: ["rt", "rp"], boundaries: ["ruby"] },
+  tr: { closes: ["tr"], boundaries: ["table", "thead", "tbody", "tfoot"] },
+  td: { closes: ["td", "th"], boundaries: ["tr", "table"] },
+  th: { closes: ["td", "th"], boundaries: ["tr", "table"] },
+  thead: { closes: ["thead", "tbody", "tfoot"], boundaries: ["table"] },
+  tbody: { closes: ["thead", "tbody", "tfoot"], boundaries: ["table"] },
+  tfoot: { closes: ["thead", "tbody", "tfoot"], boundaries: ["table"] },
+};
+
+for (const name of closesParagraph) {
+  impliedEndTags[name] = { closes: ["p"], boundaries: scopeElements };
+}
+
+/**
+ * Decodes the character references (e.g. `&amp;`, `&#169;`, `&#xA9;`) of a text or an attribute value.
+ *
+ * Every named reference of the HTML standard is decoded. Invalid numeric references are decoded
+ * to the replacement character (U+FFFD) and unknown named references are kept as-is. Legacy
+ * references (e.g. `&copy`, `&lt`) are also decoded without the trailing semicolon, as the longest
+ * one prefixing the name, so `&lt3` is `<3`. In attribute values, they are not decoded when followed
+ * by `=` or an alphanumeric character, so that URLs such as `?a=1&copy=2` are kept intact.
+ *
+ * @param {string} value - The text or attribute value to decode.
+ * @param {boolean} inAttribute - Indicates if the value is an attribute value.
+ * @returns {string} The decoded value.
+ */
+export function decodeEntities(value: string, inAttribute = false): string {
+  return value.replace(
+    /&(?:#(\d+);?|#[xX]([0-9a-fA-F]+);?|([a-zA-Z][a-zA-Z0-9]*)(;?))/g,
+    (match, dec?: string, hex?: string, name?: string, semicolon?: string, offset?: number) => {
+      if (dec !== undefined || hex !== undefined) {
+        const code = dec !== undefined ? parseInt(dec, 10) : parseInt(hex as string, 16);
+        const invalid =
+          code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff);
+        return String.fromCodePoint(invalid ? 0xfffd : code);
+      }
+
+      const entity = name as string;
+      if (semicolon === ";" && hasOwnProperty.call(namedCharacterReferences, entity)) {
+        return namedCharacterReferences[entity];
+      }
+
+      // Legacy references are matched as the longest prefix of the name, `&lt3` is `<3`.
+      for (let length = entity.length; length > 1; length--) {
+        const legacy = entity.slice(0, length);
+        if (!legacyCharacterReferences.has(legacy)) continue;
+
+        const rest = entity.slice(length) + (semicolon as string);
+        const next = rest !== "" ? rest.charAt(0) : value.charAt((offset as number) + match.length);
+        if (inAttribute && /[=a-zA-Z0-9]/.test(next)) return match;
+        return namedCharacterReferences[legacy] + rest;
+      }
+      return match;
+    },
+  );
+}
+
+/**
+ * An attribute of a parsed element.
+ */
+export interface HtmlAttribute {
+  /**
+   * The name of the attribute, lowercased except in foreign content and in XML mode.
+   */
+  name: string;
+
+  /**
+   * The decoded value of the attribute, or `true` for an attribute without value.
+   */
+  value: string | true;
+}
+
+/**
+ * An element of a parsed HTML tree.
+ */
+export interface HtmlElement {
+  kind: "element";
+
+  /**
+   * The tag name of the element, lowercased except in foreign content and in XML mode.
+   */
+  name: string;
+
+  attributes: HtmlAttribute[];
+  children: HtmlNode[];
+
+  /**
+   * Indicates if the element is foreign content, i.e. an `<svg>` or `<math>` element or one of
+   * their descendants.
+   */
+  foreign: boolean;
+}
+
+/**
+ * A text of a parsed HTML tree. The text is decoded, except for the raw text content of
+ * elements such as `<script>` and `<style>` which is kept as-is (`raw` is `true`).
+ */
+export interface HtmlText {
+  kind: "text";
+  text: string;
+  raw: boolean;
+}
+
+/**
+ * A comment of a parsed HTML tree, the text is the content between `<!--` and `-->`.
+ */
+export interface HtmlComment {
+  kind: "comment";
+  text: string;
+}
+
+/**
+ * A doctype of a parsed HTML tree, the text is the content between `<!` and `>`.
+ */
+export interface HtmlDoctype {
+  kind: "doctype";
+  text: string;
+}
+
+/**
+ * A node of a parsed HTML tree, see `parseHtmlTree()`.
+ */
+export type HtmlNode = HtmlElement | HtmlText | HtmlComment | HtmlDoctype;
+
+/**
+ * Options to control how markup is parsed.
+ */
+export interface ParseHtmlOptions {
+  /**
+   * Parses the markup as XML-like markup, such as XHTML or markup rendered with the `"xml"`
+   * syntax: tag and attribute names keep their case, the self-closing syntax (`<div />`)
+   * closes any element, no end tag is implied and void elements (e.g. `<link>`) are regular
+   * elements.
+   *
+   * @default false
+   */
+  xml?: boolean;
+}
+
+/**
+ * Builds the parsed tree from the tokens of the markup, keeping track of the open elements.
+ */
+class TreeBuilder {
+  private readonly xml: boolean;
+
+  private readonly root: HtmlElement = {
+    kind: "element",
+    name: "",
+    attributes: [],
+    children: [],
+    foreign: false,
+  };
+
+  private readonly stack: HtmlElement[] = [this.root];
+
+  constructor(xml: boolean) {
+    this.xml = xml;
+  }
+
+  /**
+   * The innermost open element.
+   */
+  get current(): HtmlElement {
+    return this.stack[this.stack.length - 1];
+  }
+
+  appendText(value: string, isRaw = false): void {
+    if (value !== "") {
+      this.current.children.push({ kind: "text", text: value, raw: isRaw });
+    }
+  }
+
+  appendComment(value: string): void {
+    this.current.children.push({ kind: "comment", text: value });
+  }
+
+  appendDoctype(value: string): void {
+    this.current.children.push({ kind: "doctype", text: value });
+  }
+
+  openElement(
+    name: string,
+    attributes: HtmlAttribute[],
+    selfClosing: boolean,
+  ): void {
+    const implied = this.current.foreign || this.xml
+      ? undefined
+      : impliedEndTags[name];
+    if (implied !== undefined) this.closeImplied(implied);
+
+    const foreign = this.current.foreign || foreignElements.has(name);
+    const element: HtmlElement = {
+      kind: "element",
+      name,
+      attributes,
+      children: [],
+      foreign,
+    };
+    this.current.children.push(element);
+    this.stack.push(element);
+
+    const isVoid = !foreign && !this.xml && voidElements.has(name);
+    if (isVoid || ((foreign || this.xml) && selfClosing)) this.pop();
+  }
+
+  closeElement(name: string): void {
+    for (let i = this.stack.length - 1; i > 0; i--) {
+      const element = this.stack[i];
+      const matches = element.foreign
+        ? element.name.toLowerCase() === name.toLowerCase()
+        : element.name === name;
+      if (matches) {
+        while (this.stack.length > i) this.pop();
+        return;
+      }
+    }
+  }
+
+  finish(): HtmlNode[] {
+    return this.root.children;
+  }
+
+  private closeImplied(implied: ImpliedEndTag): void {
+    for (let i = this.stack.length - 1; i > 0; i--) {
+      const name = this.stack[i].name;
+      if (implied.closes.includes(name)) {
+        while (this.stack.length > i) this.pop();
+        return;
+      }
+      if (implied.boundaries.includes(name)) return;
+    }
+  }
+
+  private pop(): void {
+    this.stack.pop();
+  }
+}
+
+/**
+ * Parses an HTML string into a tree of nodes, made of elements, attributes and text nodes,
+ * so that existing markup (e.g. a CMS fragment) can be inspected, merged and rendered with
+ * the same API used to build pages. Unlike `raw()`, the result is not opaque.
+ *
+ * The markup is tokenized following the HTML rules:
+ * - Tag and attribute names are case-insensitive and lowercased, except in SVG and MathML content.
+ * - Void elements (e.g. `<br>`, `<img>`) have no content and no end tag.
+ * - The content of `<script>` and `<style>` is kept as raw text, the content of `<textarea>`
+ *   and `<title>` is text, in both cases it is not parsed as markup.
+ * - Character references (e.g. `&amp;`, `&#169;`) are decoded, and escaped again when rendered.
+ * - Common implied end tags are honored, e.g. `<li>` closes the previous `<li>` and a block
+ *   element closes an open `<p>`. End tags without a matching open element are ignored and
+ *   elements still open at the end of the input are closed.
+ * - Comments and the doctype are kept as raw nodes.
+ * - Attributes without value are boolean attributes, and duplicate attributes are ignored.
+ *
+ * Example usage:
+ * ```typescript
+ * const fragment = parseHtml('<ul><li>One<li>Two &amp; three</ul>');
+ * div(classx('content'), fragment).render();
+ * // Output: '<div class="content"><ul><li>One</li><li>Two &amp; three</li></ul></div>'
+ * ```
+ *
+ * @param {string} html - The HTML string to parse.
+ * @param {ParseHtmlOptions} options - The options to control how the markup is parsed.
+ * @returns {Node} A group of the top-level nodes of the markup.
+ */
+export function parseHtml(html: string, options: ParseHtmlOptions = {}): Node {
+  return htmlTreeToNode(parseHtmlTree(html, options));
+}
+
+/**
+ * Parses an HTML string into a plain tree of elements, texts, comments and doctypes, following
+ * the same rules as `parseHtml()`. This is useful to post-process the markup before turning it
+ * into nodes with `htmlTreeToNode()`, as done by `sanitize()`.
+ *
+ * @param {string} html - The HTML string to parse.
+ * @param {ParseHtmlOptions} options - The options to control how the markup is parsed.
+ * @returns {HtmlNode[]} The top-level nodes of the markup.
+ */
+export function parseHtmlTree(
+  html: string,
+  options: ParseHtmlOptions = {},
+): HtmlNode[] {
+  const xml = options.xml === true;
+  const builder = new TreeBuilder(xml);
+  let index = 0;
+  let textStart = 0;
+
+  const flushText = (end: number): void => {
+    builder.appendText(decodeEntities(html.slice(textStart, end)));
+  };
+
+  while (index < html.length) {
+    const lt = html.indexOf("<", index);
+    if (lt === -1) break;
+    index = lt;
+
+    const next = html.charAt(lt + 1);
+
+    if (html.startsWith("<!--", lt)) {
+      flushText(lt);
+      const [end, close] = commentEnd(html, lt + 4);
+      builder.appendComment(html.slice(lt + 4, end));
+      index = textStart = close;
+      continue;
+    }
+
+    if (
+      builder.current.foreign &&
+      html.startsWith("<![CDATA[", lt)
+    ) {
+      flushText(lt);
+      const end = html.indexOf("]]>", lt + 9);
+      const close = end === -1 ? html.length : end + 3;
+      builder.appendText(html.slice(lt + 9, end === -1 ? html.length : end));
+      index = textStart = close;
+      continue;
+    }
+
+    if (next === "!" || next === "?") {
+      flushText(lt);
+      const end = html.indexOf(">", lt);
+      const close = end === -1 ? html.length : end + 1;
+      const content = html.slice(lt + 2, end === -1 ? html.length : end);
+      if (next === "!" && /^doctype/i.test(content)) {
+        builder.appendDoctype(content);
+      } else {
+        builder.appendComment(`${next === "?" ? "?" : ""}${content}`);
+      }
+      index = textStart = close;
+      continue;
+    }
+
+    if (next === "/" && /[a-zA-Z]/.test(html.charAt(lt + 2))) {
+      flushText(lt);
+      const tag = readTagName(html, lt + 2);
+      const end = html.indexOf(">", tag.end);
+      index = textStart = end === -1 ? html.length : end + 1;
+      if (end !== -1) builder.closeElement(xml ? tag.name : tag.name.toLowerCase());
+      continue;
+    }
+
+    if (/[a-zA-Z]/.test(next)) {
+      const tag = readTagName(html, lt + 1);
+      const foreign =
+        builder.current.foreign || foreignElements.has(tag.name.toLowerCase());
+      const keepCase = foreign || xml;
+      const name = keepCase ? tag.name : tag.name.toLowerCase();
+      const parsed = readAttributes(html, tag.end, keepCase);
+      if (parsed === undefined) {
+        // The tag is not closed before the end of the input, it is dropped.
+        flushText(lt);
+        index = textStart = html.length;
+        continue;
+      }
+
+      flushText(lt);
+      builder.openElement(name, parsed.attributes, parsed.selfClosing);
+      index = textStart = parsed.end;
+
+      const isRawText = rawTextElements.has(name);
+      if (!foreign && (isRawText || escapableRawTextElements.has(name))) {
+        const close = findEndTag(html, name, index);
+        const content = html.slice(index, close.start);
+        builder.appendText(isRawText ? content : decodeEntities(content), isRawText);
+        builder.closeElement(name);
+        index = textStart = close.end;
+      }
+      continue;
+    }
+
+    // A "<" that does not start a tag is text.
+    index = lt + 1;
+  }
+
+  flushText(html.length);
+  return builder.finish();
+}
+
+/**
+ * Turns a parsed HTML tree into nodes: elements, attributes and text nodes. Comments, doctypes
+ * and raw text are turned into raw nodes.
+ *
+ * @param {HtmlNode[]} nodes - The nodes of the parsed tree, see `parseHtmlTree()`.
+ * @returns {Node} A group of the nodes.
+ */
+export function htmlTreeToNode(nodes: HtmlNode[]): Node {
+  return group(...nodes.map(toNode));
+}
+
+function toNode(node: HtmlNode): Node {
+  switch (node.kind) {
+    case "element":
+      return new NodeElement(
+        !node.foreign && voidElements.has(node.name),
+        node.name,
+        ...node.attributes.map((attribute) => attr(attribute.name, attribute.value)),
+        ...node.children.map(toNode),
+      );
+    case "text":
+      return node.raw ? raw(node.text) : text(node.text);
+    case "comment":
+      return raw(`<!--${node.text}-->`);
+    case "doctype":
+      return raw(`<!${node.text}>`);
+  }
+}
+
+/**
+ * Reads a tag name, starting at the given position.
+ */
+function readTagName(
+  html: string,
+  start: number,
+): { name: string, end: number } {
+  let end = start;
+  while (end < html.length && !/[\s/>]/.test(html.charAt(end))) end++;
+  return { name: html.slice(start, end), end };
+}
+
+/**
+ * Reads the attributes of a start tag, up to and including the closing `>`.
+ *
+ * @returns The attributes and the position after the tag, or undefined if the tag is not closed.
+ */
+function readAttributes(
+  html: string,
+  start: number,
+  keepCase: boolean,
+): { attributes: HtmlAttribute[], selfClosing: boolean, end: number } | undefined {
+  const attributes: HtmlAttribute[] = [];
+  const seen = new Set<string>();
+  let index = start;
+
+  while (index < html.length) {
+    const char = html.charAt(index);
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    if (char === ">") {
+      return { attributes, selfClosing: false, end: index + 1 };
+    }
+    if (char === "/") {
+      if (html.charAt(index + 1) === ">") {
+        return { attributes, selfClosing: true, end: index + 2 };
+      }
+      index++;
+      continue;
+    }
+
+    let nameEnd = index + 1;
+    while (nameEnd < html.length && !/[\s/>=]/.test(html.charAt(nameEnd))) {
+      nameEnd++;
+    }
+    const rawName = html.slice(index, nameEnd);
+    const name = keepCase ? rawName : rawName.toLowerCase();
+    index = nameEnd;
+
+    while (/\s/.test(html.charAt(index))) index++;
+
+    let value: string | true = true;
+    if (html.charAt(index) === "=") {
+      index++;
+      while (/\s/.test(html.charAt(index))) index++;
+
+      const quote = html.charAt(index);
+      if (quote === '"' || quote === "'") {
+        const end = html.indexOf(quote, index + 1);
+        if (end === -1) return undefined;
+        value = decodeEntities(html.slice(index + 1, end), true);
+        index = end + 1;
+      } else {
+        let end = index;
+        while (end < html.length && !/[\s>]/.test(html.charAt(end))) end++;
+        value = decodeEntities(html.slice(index, end), true);
+        index = end;
+      }
+    }
+
+    if (!seen.has(name)) {
+      seen.add(name);
+      attributes.push({ name, value });
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the end of a comment like browsers do: a comment ends at the first `-->` or `--!>`,
+ * and `<!-->` and `<!--->` are empty comments. An unclosed comment runs to the end of the markup.
+ *
+ * @param {string} html - The markup.
+ * @param {number} start - The index of the content of the comment, right after `<!--`.
+ * @returns {[number, number]} The index of the end of the content and the index after the comment.
+ */
+function commentEnd(html: string, start: number): [number, number] {
+  if (html.startsWith(">", start)) return [start, start + 1];
+  if (html.startsWith("->", start)) return [start, start + 2];
+
+  const dashes = html.indexOf("--", start);
+  for (let end = dashes; end !== -1; end = html.indexOf("--", end + 1)) {
+    if (html.startsWith("-->", end)) return [end, end + 3];
+    if (html.startsWith("--!>", end)) return [end, end + 4];
+  }
+  return [html.length, html.length];
+}
+
+/**
+ * Finds the end tag of a raw text element, matched case-insensitively.
+ *
+ * @returns The position of the end tag and the position after it. If there is no end tag,
+ * the element extends to the end of the input.
+ */
+function findEndTag(
+  html: string,
+  name: string,
+  start: number,
+): { start: number, end: number } {
+  const pattern = new RegExp(`</${name}(?=[\\s/>])`, "ig");
+  pattern.lastIndex = start;
+  const match = pattern.exec(html);
+  if (match === null) return { start: html.length, end: html.length };
+
+  const close = html.indexOf(">", match.index);
+  return {
+    start: match.index,
+    end: close === -1 ? html.length : close + 1,
+  };
+}
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { querySelector, querySelectorAll, textContent } from "./query.js";
+import {
+  a,
+  article,
+  b,
+  div,
+  h1,
+  h2,
+  img,
+  input,
+  li,
+  main,
+  nav,
+  p,
+  section,
+  ul,
+} from "./elements.js";
+import { alt, href, id, src, type } from "./attributes.js";
+import {
+  asyncx,
+  attr,
+  classx,
+  createContext,
+  group,
+  ifx,
+  mapx,
+  Node,
+  NodeElement,
+  raw,
+  text,
+} from "./nodx.js";
+import { parseHtml } from "./parser.js";
+
+const tree = main(
+  id("app"),
+  nav(
+    classx("menu"),
+    ul(
+      li(classx("item active"), a(href("/"), text("Home"))),
+      li(classx("item"), a(href("https://example.com/docs"), attr("rel", "external"), text("Docs"))),
+    ),
+  ),
+  article(
+    classx("post"),
+    attr("lang", "en-US"),
+    h1(text("Title")),
+    section(p(text("Intro "), b(text("bold"))), img(src("/a.png"), alt("A"))),
+    group(p(classx("note"), text("Grouped")), ifx(true, p(text("Conditional")))),
+    input(type("checkbox"), attr("checked", true)),
+  ),
+);
+
+function render(elements: NodeElement[]): string[] {
+  return elements.map((element) => element.render());
+}
+
+describe("querySelectorAll", () => {
+  const cases: Array<[string, string[]]> = [
+    ["a", ['<a href="/">Home</a>', '<a href="https://example.com/docs" rel="external">Docs</a>']],
+    ["#app > nav", ['<nav class="menu"><ul><li class="item active"><a href="/">Home</a></li><li class="item"><a href="https://example.com/docs" rel="external">Docs</a></li></ul></nav>']],
+    ["li.item.active > a", ['<a href="/">Home</a>']],
+    [".item", ['<li class="item active"><a href="/">Home</a></li>', '<li class="item"><a href="https://example.com/docs" rel="external">Docs</a></li>']],
+    ["[rel]", ['<a href="https://example.com/docs" rel="external">Docs</a>']],
+    ['a[href^="https:"]', ['<a href="https://example.com/docs" rel="external">Docs</a>']],
+    ["img[src$='.png']", ['<img src="/a.png" alt="A">']],
+    ['[href*="example"]', ['<a href="https://example.com/docs" rel="external">Docs</a>']],
+    ['[class~="active"]', ['<li class="item active"><a href="/">Home</a></li>']],
+    ['[lang|="en"] > h1', ["<h1>Title</h1>"]],
+    ['input[type=checkbox][checked]', ['<input type="checkbox" checked>']],
+    ["article > p", ['<p class="note">Grouped</p>', "<p>Conditional</p>"]],
+    ["article p", ["<p>Intro <b>bold</b></p>", '<p class="note">Grouped</p>', "<p>Conditional</p>"]],
+    ["main section > p b", ["<b>bold</b>"]],
+    ["h1, b", ["<h1>Title</h1>", "<b>bold</b>"]],
+    ["nav > a", []],
+    ["#missing, .missing", []],
+    ["MAIN > NAV[CLASS=menu]", ['<nav class="menu"><ul><li class="item active"><a href="/">Home</a></li><li class="item"><a href="https://example.com/docs" rel="external">Docs</a></li></ul></nav>']],
+  ];
+
+  it.each(cases)("Matches %s", (selector, expected) => {
+    expect(render(querySelectorAll(tree, selector))).toEqual(expected);
+  });
+
+  it("Includes the root and returns elements in document order", () => {
+    const names = querySelectorAll(tree, "*").map((element) => element.name);
+    expect(names).toEqual([
+      "main", "nav", "ul", "li", "a", "li", "a", "article", "h1", "section", "p", "b", "img", "p", "p", "input",
+    ]);
+  });
+
+  it("Searches the items of mapx and the nodes of parseHtml", () => {
+    const list = ul(mapx(["a", "b"], (item) => li(text(item))));
+    expect(render(querySelectorAll(list, "ul > li"))).toEqual(["<li>a</li>", "<li>b</li>"]);
+    const parsed = parseHtml('<div class="card"><p>One</p><p>Two</p></div>');
+    expect(render(querySelectorAll(parsed, ".card > p"))).toEqual(["<p>One</p>", "<p>Two</p>"]);
+  });
+
+  it("Resolves the nodes built from contexts", () => {
+    const theme = createContext("light");
+    const node = div(
+      theme.provide("dark", theme.consume((value) => section(classx(value), p(text(value))))),
+    );
+    expect(render(querySelectorAll(node, "section.dark > p"))).toEqual(["<p>dark</p>"]);
+  });
+
+  it("Does not search async and custom nodes", () => {
+    const custom: Node = { render: () => "<p>custom</p>" };
+    const node = div(asyncx(async () => p(text("async"))), custom, raw("<p>raw</p>"));
+    expect(querySelectorAll(node, "p")).toEqual([]);
+  });
+
+  it("Throws on unsupported selectors", () => {
+    for (const selector of ["", "a:hover", "a + b", "a ~ b", "[href", "a >", ",a", "a..b"]) {
+      expect(() => querySelectorAll(tree, selector)).toThrow("unsupported or invalid selector");
+    }
+  });
+});
+
+describe("querySelector", () => {
+  it("Returns the first matching element", () => {
+    expect(querySelector(tree, "p")?.render()).toBe("<p>Intro <b>bold</b></p>");
+    expect(querySelector(tree, "h2")).toBeUndefined();
+    expect(querySelector(text("x"), "p")).toBeUndefined();
+    expect(querySelector(h2(text("x")), "h2")?.name).toBe("h2");
+  });
+});
+
+describe("textContent", () => {
+  it("Returns the decoded text of the descendants", () => {
+    expect(textContent(p(text("Tom "), b(text("& Jerry"))))).toBe("Tom & Jerry");
+    expect(textContent(querySelector(tree, "nav") as NodeElement)).toBe("HomeDocs");
+    expect(textContent(div(raw("<i>1 &lt; 2</i>")))).toBe("1 < 2");
+  });
+});
+
+describe("NodeElement inspection", () => {
+  it("Exposes the name, void flag and children", () => {
+    const child = p(text("x"));
+    const node = div(id("a"), child) as NodeElement;
+    expect(node.name).toBe("div");
+    expect(node.isVoid).toBe(false);
+    expect(node.children).toHaveLength(2);
+    expect(node.children[1]).toBe(child);
+    expect((img() as NodeElement).isVoid).toBe(true);
+  });
+
+  it("Returns the merged attributes", () => {
+    const node = a(
+      href("/"),
+      classx("a"),
+      ifx(true, classx("b"), attr("hidden", true)),
+      attr("title", false),
+      attr("style", "color: red"),
+      attr("style", "color: blue"),
+      text("Home"),
+    ) as NodeElement;
+    expect([...node.getAttributes()]).toEqual([
+      ["href", "/"],
+      ["class", "a b"],
+      ["hidden", true],
+      ["style", "color: blue"],
+    ]);
+    expect(node.getAttribute("HREF")).toBe("/");
+    expect(node.getAttribute("title")).toBeUndefined();
+    expect(node.getAttributes({ mergeAttributes: false }).get("class")).toBe("b");
+  });
+});
@@ -0,0 +1,400 @@
+import { Node, NodeConsumer, NodeElement, RenderOptions } from "./nodx.js";
+import { HtmlNode, parseHtmlTree } from "./parser.js";
+
+/**
+ * An attribute condition of a compound selector, such as `[type]` or `[href^="https:"]`.
+ */
+interface AttributeCondition {
+  name: string;
+  operator?: "=" | "~=" | "|=" | "^=" | "$=" | "*=";
+  value?: string;
+}
+
+/**
+ * A compound selector, such as `a.external[href]`, matching a single element.
+ */
+interface CompoundSelector {
+  tag?: string;
+  ids: string[];
+  classes: string[];
+  attributes: AttributeCondition[];
+}
+
+/**
+ * A complex selector, such as `nav > ul a`: compound selectors joined by combinators, where
+ * `combinators[i]` joins `compounds[i]` and `compounds[i + 1]`.
+ */
+interface ComplexSelector {
+  compounds: CompoundSelector[];
+  combinators: Array<" " | ">">;
+}
+
+/**
+ * An element found while walking a tree, with the options its attributes are resolved with.
+ */
+interface ScopedElement {
+  element: NodeElement;
+  options: RenderOptions;
+}
+
+/**
+ * An element found while walking a tree, with the elements it is nested in.
+ */
+interface ElementMatch extends ScopedElement {
+  ancestors: ScopedElement[];
+}
+
+/**
+ * The most recently used parsed selectors, by selector string, least recently used first.
+ * The cache is bounded, as selectors can be built from data (e.g. `#${id}`).
+ */
+const parsedSelectors = new Map<string, ComplexSelector[]>();
+
+/**
+ * The maximum number of parsed selectors kept in the cache.
+ */
+const maxParsedSelectors = 256;
+
+/**
+ * Returns the first element of a tree matching a CSS selector, in document order.
+ * See `querySelectorAll()` for the supported selectors.
+ *
+ * Example usage:
+ * ```typescript
+ * const node = div(ul(li(text("One")), li(classx("active"), text("Two"))));
+ * querySelector(node, "ul > li.active")?.render(); // Output: '<li class="active">Two</li>'
+ * ```
+ *
+ * @param {Node} root - The root of the tree, included in the search.
+ * @param {string} selector - The CSS selector.
+ * @param {RenderOptions} options - The options the tree is rendered with, to resolve the nodes
+ * built from contexts.
+ * @returns {NodeElement | undefined} The first matching element, or undefined.
+ * @throws {Error} If the selector is not valid or not supported.
+ */
+export function querySelector(
+  root: Node,
+  selector: string,
+  options: RenderOptions = {},
+): NodeElement | undefined {
+  const selectors = parseSelector(selector);
+  for (const match of walkElements(root, options)) {
+    if (selectors.some((complex) => matchesComplex(match, complex))) return match.element;
+  }
+  return undefined;
+}
+
+/**
+ * Returns the elements of a tree matching a CSS selector, in document order.
+ *
+ * The root is included in the search, as if the tree was a document. Fragments (`group()`,
+ * `ifx()`, `mapx()`...) are transparent: their children are the children of the enclosing
+ * element. The content of async nodes and custom nodes cannot be searched.
+ *
+ * Supported selectors: type (`li`) and universal (`*`) selectors, `#id`, `.class`, attribute
+ * selectors (`[href]`, `[type="text"]`, `[class~="a"]`, `[lang|="en"]`, `[href^="https:"]`,
+ * `[src$=".png"]`, `[title*="x"]`), descendant (`nav a`) and child (`ul > li`) combinators,
+ * and selector lists (`h1, h2`). Tag and attribute names are matched case-insensitively.
+ *
+ * @param {Node} root - The root of the tree, included in the search.
+ * @param {string} selector - The CSS selector.
+ * @param {RenderOptions} options - The options the tree is rendered with, to resolve the nodes
+ * built from contexts.
+ * @returns {NodeElement[]} The matching elements.
+ * @throws {Error} If the selector is not valid or not supported.
+ */
+export function querySelectorAll(
+  root: Node,
+  selector: string,
+  options: RenderOptions = {},
+): NodeElement[] {
+  const selectors = parseSelector(selector);
+  const elements: NodeElement[] = [];
+  for (const match of walkElements(root, options)) {
+    if (selectors.some((complex) => matchesComplex(match, complex))) elements.push(match.element);
+  }
+  return elements;
+}
+
+/**
+ * Returns the text content of a node, like the `textContent` of a DOM node: the decoded text of
+ * the node and of all its descendants, without markup.
+ *
+ * Example usage:
+ * ```typescript
+ * textContent(p(text("Tom "), b(text("& Jerry")))); // Output: 'Tom & Jerry'
+ * ```
+ *
+ * @param {Node} node - The node, which must not contain async nodes.
+ * @param {RenderOptions} options - The options the node is rendered with.
+ * @returns {string} The text content.
+ */
+export function textContent(node: Node, options: RenderOptions = {}): string {
+  const collect = (nodes: HtmlNode[]): string => {
+    let content = "";
+    for (const child of nodes) {
+      if (child.kind === "text") content += child.text;
+      if (child.kind === "element") content += collect(child.children);
+    }
+    return content;
+  };
+  return collect(parseHtmlTree(node.render({ ...options, format: undefined })));
+}
+
+/**
+ * Walks the elements of a tree in document order, skipping fragments.
+ */
+function * walkElements(
+  root: Node,
+  options: RenderOptions,
+  ancestors: ScopedElement[] = [],
+): Generator<ElementMatch> {
+  let node = root;
+  while (node instanceof NodeConsumer) node = node.resolve(options);
+  if (!(node instanceof NodeElement)) return;
+
+  const element = node;
+  const childOptions = element.scopeOptions(options);
+  const childAncestors = element.name === ""
+    ? ancestors
+    : [...ancestors, { element, options }];
+  if (element.name !== "") yield { element, ancestors, options };
+
+  for (const child of element.children) {
+    yield * walkElements(child, childOptions, childAncestors);
+  }
+}
+
+function matchesComplex(match: ElementMatch, selector: ComplexSelector): boolean {
+  const last = selector.compounds.length - 1;
+  if (!matchesCompound(match.element, selector.compounds[last], match.options)) return false;
+  return matchesAncestors(match.ancestors, selector, last - 1);
+}
+
+/**
+ * Matches the compound selectors before `index` against the ancestors of an element, trying
+ * every ancestor for descendant combinators.
+ */
+function matchesAncestors(
+  ancestors: ScopedElement[],
+  selector: ComplexSelector,
+  index: number,
+): boolean {
+  if (index < 0) return true;
+
+  const compound = selector.compounds[index];
+  const combinator = selector.combinators[index];
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    if (
+      matchesCompound(ancestors[i].element, compound, ancestors[i].options) &&
+      matchesAncestors(ancestors.slice(0, i), selector, index - 1)
+    ) {
+      return true;
+    }
+    if (combinator === ">") return false;
+  }
+  return false;
+}
+
+function matchesCompound(
+  element: NodeElement,
+  compound: CompoundSelector,
+  options: RenderOptions,
+): boolean {
+  if (compound.tag !== undefined && compound.tag !== element.name.toLowerCase()) return false;
+  if (compound.ids.length === 0 && compound.classes.length === 0 && compound.attributes.length === 0) {
+    return true;
+  }
+
+  const attributes = new Map<string, string | true>();
+  for (const [name, value] of element.getAttributes(options)) {
+    attributes.set(name.toLowerCase(), value);
+  }
+  const valueOf = (name: string): string | undefined => {
+    const value = attributes.get(name);
+    return value === true ? "" : value;
+  };
+
+  const id = valueOf("id");
+  if (compound.ids.some((expected) => expected !== id)) return false;
+
+  const classList = (valueOf("class") ?? "").split(/\s+/);
+  if (compound.classes.some((expected) => !classList.includes(expected))) return false;
+
+  return compound.attributes.every((condition) => {
+    const value = valueOf(condition.name);
+    if (value === undefined) return false;
+    if (condition.operator === undefined || condition.value === undefined) return true;
+
+    const expected = condition.value;
+    switch (condition.operator) {
+      case "=":
+        return value === expected;
+      case "~=":
+        return expected !== "" && value.split(/\s+/).includes(expected);
+      case "|=":
+        return value === expected || value.startsWith(`${expected}-`);
+      case "^=":
+        return expected !== "" && value.startsWith(expected);
+      case "$=":
+        return expected !== "" && value.endsWith(expected);
+      case "*=":
+        return expected !== "" && value.includes(expected);
+    }
+    return false;
+  });
+}
+
+/**
+ * Parses a selector list, caching the result. When the cache is full, the least recently used
+ * selector is evicted.
+ */
+function parseSelector(selector: string): ComplexSelector[] {
+  let parsed = parsedSelectors.get(selector);
+  if (parsed === undefined) {
+    parsed = new SelectorParser(selector).parse();
+  } else {
+    // Moves the selector to the end of the cache, as the most recently used one.
+    parsedSelectors.delete(selector);
+  }
+  parsedSelectors.set(selector, parsed);
+
+  if (parsedSelectors.size > maxParsedSelectors) {
+    const [leastRecent] = parsedSelectors.keys();
+    parsedSelectors.delete(leastRecent);
+  }
+  return parsed;
+}
+
+/**
+ * Parses the subset of CSS selectors supported by `querySelectorAll()`.
+ */
+class SelectorParser {
+  private readonly selector: string;
+  private index = 0;
+
+  constructor(selector: string) {
+    this.selector = selector;
+  }
+
+  parse(): ComplexSelector[] {
+    const selectors: ComplexSelector[] = [];
+    do {
+      selectors.push(this.parseComplex());
+    } while (this.consume(","));
+
+    if (this.index < this.selector.length) this.fail();
+    return selectors;
+  }
+
+  private parseComplex(): ComplexSelector {
+    const selector: ComplexSelector = { compounds: [], combinators: [] };
+    this.skipWhitespace();
+    selector.compounds.push(this.parseCompound());
+
+    for (;;) {
+      const hadWhitespace = this.skipWhitespace();
+      const char = this.peek();
+      if (char === "" || char === ",") break;
+
+      if (char === ">") {
+        this.index++;
+        this.skipWhitespace();
+        selector.combinators.push(">");
+      } else if (hadWhitespace) {
+        selector.combinators.push(" ");
+      } else {
+        this.fail();
+      }
+      selector.compounds.push(this.parseCompound());
+    }
+
+    return selector;
+  }
+
+  private parseCompound(): CompoundSelector {
+    const compound: CompoundSelector = { ids: [], classes: [], attributes: [] };
+    const start = this.index;
+
+    if (this.consume("*")) {
+      // The universal selector matches any tag.
+    } else if (/[a-zA-Z]/.test(this.peek())) {
+      compound.tag = this.readName().toLowerCase();
+    }
+
+    for (;;) {
+      const char = this.peek();
+      if (char === "#") {
+        this.index++;
+        compound.ids.push(this.readName());
+      } else if (char === ".") {
+        this.index++;
+        compound.classes.push(this.readName());
+      } else if (char === "[") {
+        this.index++;
+        compound.attributes.push(this.readAttributeCondition());
+      } else {
+        break;
+      }
+    }
+
+    if (this.index === start) this.fail();
+    return compound;
+  }
+
+  private readAttributeCondition(): AttributeCondition {
+    this.skipWhitespace();
+    const name = this.readName().toLowerCase();
+    this.skipWhitespace();
+    if (this.consume("]")) return { name };
+
+    const operator = /^[~|^$*]?=/.exec(this.selector.slice(this.index))?.[0];
+    if (operator === undefined) this.fail();
+    this.index += operator.length;
+    this.skipWhitespace();
+
+    let value: string;
+    const quote = this.peek();
+    if (quote === '"' || quote === "'") {
+      const end = this.selector.indexOf(quote, this.index + 1);
+      if (end === -1) this.fail();
+      value = this.selector.slice(this.index + 1, end);
+      this.index = end + 1;
+    } else {
+      value = this.readName();
+    }
+
+    this.skipWhitespace();
+    if (!this.consume("]")) this.fail();
+    return { name, operator: operator as AttributeCondition["operator"], value };
+  }
+
+  private readName(): string {
+    const match = /^[\w-]+/.exec(this.selector.slice(this.index));
+    if (match === null) this.fail();
+    this.index += match[0].length;
+    return match[0];
+  }
+
+  private peek(): string {
+    return this.selector.charAt(this.index);
+  }
+
+  private consume(char: string): boolean {
+    if (this.peek() !== char) return false;
+    this.index++;
+    return true;
+  }
+
+  private skipWhitespace(): boolean {
+    const start = this.index;
+    while (/\s/.test(this.peek())) this.index++;
+    return this.index > start;
+  }
+
+  private fail(): never {
+    throw new Error(
+      `nodx: unsupported or invalid selector ${JSON.stringify(this.selector)} at position ${this.index}`,
+    );
+  }
+}
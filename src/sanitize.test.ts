@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import { defaultSanitizePolicy, sanitize } from "./sanitize.js";
+import { el } from "./nodx.js";
+
+describe("sanitize", () => {
+  it("Keeps allowed elements and attributes", () => {
+    const input =
+      '<p class="intro">Hello <strong>world</strong>, see <a href="https://example.com/a?b=1&amp;c=2" title="Example">this</a>.</p>';
+    const got = sanitize(input).render();
+    expect(got).toBe(input);
+  });
+
+  it("Removes elements that are not allowed but keeps their content", () => {
+    const expected = "<p>Hello <b>world</b></p>";
+    const got = sanitize("<p><font color=red>Hello <b>world</b></font></p>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Removes dropped elements together with their content", () => {
+    const expected = "<p>Text</p>";
+    const got = sanitize(
+      "<p>Text<script>alert(1)</script><style>p { color: red }</style></p>",
+    ).render();
+    expect(got).toBe(expected);
+  });
+
+  it("Removes attributes that are not allowed", () => {
+    const expected = '<p class="a">Text</p>';
+    const got = sanitize('<p class="a" id="b" data-x="c">Text</p>').render();
+    expect(got).toBe(expected);
+  });
+
+  it("Keeps relative and allowed URLs", () => {
+    const input =
+      '<a href="/path">1</a><a href="page.html#top">2</a><a href="mailto:a@example.com">3</a><a href="tel:+123">4</a><a href="//cdn.example.com/x">5</a>';
+    const got = sanitize(input).render();
+    expect(got).toBe(input);
+  });
+
+  it("Keeps safe style declarations", () => {
+    const expected = '<p style="color: red; text-align: center">Text</p>';
+    const got = sanitize(
+      '<p style="color: red; position: fixed; text-align: center">Text</p>',
+    ).render();
+    expect(got).toBe(expected);
+  });
+
+  it("Escapes text", () => {
+    const expected = "<p>1 &lt; 2 &amp;&amp; &lt;b&gt;</p>";
+    const got = sanitize("<p>1 &lt; 2 &amp;&amp; &lt;b&gt;</p>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Removes comments and doctypes", () => {
+    const expected = "<p>Text</p>";
+    const got = sanitize("<!DOCTYPE html><!-- <script>alert(1)</script> --><p>Text</p>").render();
+    expect(got).toBe(expected);
+  });
+
+  it("Accepts a custom policy merged over the default one", () => {
+    const policy = {
+      elements: { ...defaultSanitizePolicy.elements, a: ["href", "target"] },
+      urlSchemes: ["https"],
+    };
+    expect(
+      sanitize('<a href="https://a.com" target="_blank">x</a>', policy).render(),
+    ).toBe('<a href="https://a.com" target="_blank">x</a>');
+    expect(sanitize('<a href="http://a.com">x</a>', policy).render()).toBe("<a>x</a>");
+    expect(sanitize("<table><tr><td>1</td></tr></table>", policy).render()).toBe(
+      "<table><tr><td>1</td></tr></table>",
+    );
+  });
+
+  it("Removes event handlers even when the policy allows them", () => {
+    const expected = "<p>Text</p>";
+    const got = sanitize('<p onclick="alert(1)">Text</p>', {
+      attributes: ["onclick"],
+    }).render();
+    expect(got).toBe(expected);
+  });
+
+  it("Allows any style property without a property list", () => {
+    const expected = '<p style="position: relative">Text</p>';
+    const got = sanitize('<p style="position: relative">Text</p>', {
+      styleProperties: undefined,
+    }).render();
+    expect(got).toBe(expected);
+  });
+
+  it("Composes with other nodes", () => {
+    const expected = '<article><p>Hi</p></article>';
+    const got = el("article", sanitize("<p>Hi<script>x</script></p>")).render();
+    expect(got).toBe(expected);
+  });
+});
+
+describe("sanitize XSS corpus", () => {
+  const corpus: Array<[string, string]> = [
+    ["<script>alert(1)</script>", ""],
+    ["<SCRIPT SRC=//xss.example/xss.js></SCRIPT>", ""],
+    ["<script>alert(1)</script >after", "after"],
+    ["<scr<script>ipt>alert(1)</script>", "ipt&gt;alert(1)"],
+    ["<img src=x onerror=alert(1)>", '<img src="x">'],
+    ["<img src=x OnError=alert(1)>", '<img src="x">'],
+    ['<img src="x" onerror  =  "alert(1)">', '<img src="x">'],
+    ['<img src="javascript:alert(1)">', "<img>"],
+    ['<img srcset="a.png 1x, javascript:alert(1) 2x">', "<img>"],
+    ['<img srcset="a.png 1x, b.png 2x">', '<img srcset="a.png 1x, b.png 2x">'],
+    ["<img/src=x/onerror=alert(1)>", '<img src="x/onerror=alert(1)">'],
+    ['<a href="javascript:alert(1)">x</a>', "<a>x</a>"],
+    ['<a href="JaVaScRiPt:alert(1)">x</a>', "<a>x</a>"],
+    ['<a href=" javascript:alert(1)">x</a>', "<a>x</a>"],
+    ['<a href="java\tscript:alert(1)">x</a>', "<a>x</a>"],
+    ['<a href="java\nscript:alert(1)">x</a>', "<a>x</a>"],
+    ['<a href="java&#x09;script:alert(1)">x</a>', "<a>x</a>"],
+    ['<a href="&#106;avascript:alert(1)">x</a>', "<a>x</a>"],
+    ['<a href="&#x6A;&#x61;&#x76;&#x61;script:alert(1)">x</a>', "<a>x</a>"],
+    ['<a href="javascript&colon;alert(1)">x</a>', "<a>x</a>"],
+    ['<a href="javascript&NewLine;:alert(1)">x</a>', "<a>x</a>"],
+    ['<a href="\u0001javascript:alert(1)">x</a>', "<a>x</a>"],
+    ['<a href="vbscript:msgbox(1)">x</a>', "<a>x</a>"],
+    ['<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">x</a>', "<a>x</a>"],
+    ["<a href=javascript:alert(1)>x</a>", "<a>x</a>"],
+    ['<a href="#" onclick="alert(1)">x</a>', '<a href="#">x</a>'],
+    ['<a href="/" onmouseover="alert(1)" style="color: red">x</a>', '<a href="/" style="color: red">x</a>'],
+    ['<div style="width: expression(alert(1))">x</div>', "<div>x</div>"],
+    ['<div style="background-color: red; width: expression(alert(1))">x</div>', '<div style="background-color: red">x</div>'],
+    ['<div style="background-image: url(javascript:alert(1))">x</div>', "<div>x</div>"],
+    ['<div style="color: red; -moz-binding: url(xss.xml#xss)">x</div>', '<div style="color: red">x</div>'],
+    ['<div style="behavior: url(xss.htc)">x</div>', "<div>x</div>"],
+    ['<div style="color: e\\xpression(alert(1))">x</div>', "<div>x</div>"],
+    ['<div style="color: ex/**/pression(alert(1))">x</div>', "<div>x</div>"],
+    ['<div style="font-family: \'a\'; color: red">x</div>', '<div style="font-family: &#39;a&#39;; color: red">x</div>'],
+    ['<div style="color: red;&#34;&gt;<script>alert(1)</script>">x</div>', '<div style="color: red">x</div>'],
+    ["<svg onload=alert(1)>", ""],
+    ["<svg><script>alert(1)</script></svg>after", "after"],
+    ['<math><mtext><img src=x onerror=alert(1)></mtext></math>', ""],
+    ["<iframe src=javascript:alert(1)></iframe>", ""],
+    ["<iframe srcdoc='<script>alert(1)</script>'></iframe>", ""],
+    ['<object data="javascript:alert(1)"></object>', ""],
+    ['<embed src="javascript:alert(1)">', ""],
+    ["<body onload=alert(1)>text</body>", "text"],
+    ['<form action="javascript:alert(1)"><button>x</button></form>', "x"],
+    ['<input onfocus=alert(1) autofocus>', ""],
+    ["<details open ontoggle=alert(1)>x</details>", "<details open>x</details>"],
+    ['<meta http-equiv="refresh" content="0;url=javascript:alert(1)">', ""],
+    ['<base href="javascript:alert(1)//">', ""],
+    ['<link rel="stylesheet" href="javascript:alert(1)">', ""],
+    ["<style>@import 'javascript:alert(1)';</style>", ""],
+    ["<title><script>alert(1)</script></title>", ""],
+    ["<textarea><script>alert(1)</script></textarea>", ""],
+    ["<noscript><p title=\"</noscript><img src=x onerror=alert(1)>\"></noscript>", ""],
+    ["<xmp><script>alert(1)</script></xmp>", ""],
+    ["<template><script>alert(1)</script></template>", ""],
+    ["<!--<script>alert(1)</script>-->", ""],
+    ["<!--><script>alert(1)</script>-->", "--&gt;"],
+    ["<![CDATA[<script>alert(1)</script>]]>", "alert(1)]]&gt;"],
+    ["<?xml-stylesheet href=javascript:alert(1)?>", ""],
+    ['<p title="&quot;><script>alert(1)</script>">x</p>', '<p title="&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;">x</p>'],
+    ["<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>", "<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>"],
+    ["<p>&#60;script&#62;alert(1)&#60;/script&#62;</p>", "<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>"],
+    ['<p id="x" name="y">DOM clobbering</p>', "<p>DOM clobbering</p>"],
+    ['<a href="https://example.com" target="_blank">x</a>', '<a href="https://example.com">x</a>'],
+    ["<unknown-element onclick=alert(1)>x</unknown-element>", "x"],
+    ['<img src="x" alt="a" onerror="alert(1)" />', '<img src="x" alt="a">'],
+    ["<p><img src=x onerror=alert(1)", "<p></p>"],
+    ['<blockquote cite="javascript:alert(1)">x</blockquote>', "<blockquote>x</blockquote>"],
+    ['<q cite="https://example.com">x</q>', '<q cite="https://example.com">x</q>'],
+  ];
+
+  for (const [input, expected] of corpus) {
+    it(`Sanitizes ${JSON.stringify(input)}`, () => {
+      const got = sanitize(input).render();
+      expect(got).toBe(expected);
+      expect(got).not.toMatch(/<script|<iframe|<svg|<object|<embed|\son\w+=|javascript:|expression\(/i);
+    });
+  }
+});
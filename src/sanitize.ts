@@ -0,0 +1,327 @@
+import { Node, splitStyleDeclarations, urlScheme } from "./nodx.js";
+import {
+  HtmlAttribute,
+  HtmlNode,
+  htmlTreeToNode,
+  parseHtmlTree,
+} from "./parser.js";
+
+/**
+ * The allow-list policy used by `sanitize()`.
+ */
+export interface SanitizePolicy {
+  /**
+   * The allowed elements, with the attributes allowed on each of them (in addition to the
+   * global `attributes`). Elements that are not allowed are removed, but their content is kept.
+   */
+  elements: Readonly<Record<string, readonly string[]>>;
+
+  /**
+   * The attributes allowed on every allowed element.
+   */
+  attributes: readonly string[];
+
+  /**
+   * The elements that are removed together with their content, such as `script` or `style`.
+   */
+  dropElements: readonly string[];
+
+  /**
+   * The attributes holding a URL (or a list of URLs for `srcset`). They are removed when
+   * their URL uses a scheme that is not allowed.
+   */
+  urlAttributes: readonly string[];
+
+  /**
+   * The allowed URL schemes, without the colon. Relative URLs are always allowed.
+   */
+  urlSchemes: readonly string[];
+
+  /**
+   * The CSS properties allowed in `style` attributes, when `style` is an allowed attribute.
+   * If undefined, every property is allowed. In any case, declarations with values that can
+   * run code or load resources (`expression()`, `url()`, `javascript:`...) are removed.
+   */
+  styleProperties?: readonly string[];
+}
+
+/**
+ * The default sanitize policy, suitable for user-authored rich text: text formatting, headings,
+ * lists, quotes, links, images and tables, without scripts, forms, frames or embedded content.
+ * Links and images only accept `http`, `https`, `mailto` and `tel` URLs.
+ */
+export const defaultSanitizePolicy: Readonly<SanitizePolicy> = {
+  elements: {
+    a: ["href", "rel", "hreflang"],
+    abbr: [],
+    b: [],
+    bdi: [],
+    bdo: [],
+    blockquote: ["cite"],
+    br: [],
+    caption: [],
+    cite: [],
+    code: [],
+    col: ["span"],
+    colgroup: ["span"],
+    dd: [],
+    del: ["cite", "datetime"],
+    details: ["open"],
+    dfn: [],
+    div: [],
+    dl: [],
+    dt: [],
+    em: [],
+    figcaption: [],
+    figure: [],
+    h1: [],
+    h2: [],
+    h3: [],
+    h4: [],
+    h5: [],
+    h6: [],
+    hr: [],
+    i: [],
+    img: ["src", "srcset", "alt", "width", "height", "loading"],
+    ins: ["cite", "datetime"],
+    kbd: [],
+    li: ["value"],
+    mark: [],
+    ol: ["start", "reversed", "type"],
+    p: [],
+    pre: [],
+    q: ["cite"],
+    s: [],
+    samp: [],
+    small: [],
+    span: [],
+    strong: [],
+    sub: [],
+    summary: [],
+    sup: [],
+    table: [],
+    tbody: [],
+    td: ["colspan", "rowspan", "headers"],
+    tfoot: [],
+    th: ["colspan", "rowspan", "headers", "scope"],
+    thead: [],
+    time: ["datetime"],
+    tr: [],
+    u: [],
+    ul: [],
+    var: [],
+    wbr: [],
+  },
+  attributes: ["class", "title", "lang", "dir", "style"],
+  dropElements: [
+    "script",
+    "style",
+    "template",
+    "iframe",
+    "frame",
+    "frameset",
+    "object",
+    "embed",
+    "applet",
+    "noscript",
+    "noembed",
+    "noframes",
+    "xmp",
+    "svg",
+    "math",
+    "title",
+    "textarea",
+    "select",
+  ],
+  urlAttributes: [
+    "href",
+    "src",
+    "srcset",
+    "cite",
+    "action",
+    "formaction",
+    "poster",
+    "background",
+    "longdesc",
+    "xlink:href",
+  ],
+  urlSchemes: ["http", "https", "mailto", "tel"],
+  styleProperties: [
+    "color",
+    "background-color",
+    "font-family",
+    "font-size",
+    "font-style",
+    "font-weight",
+    "line-height",
+    "letter-spacing",
+    "text-align",
+    "text-decoration",
+    "text-indent",
+    "text-transform",
+    "vertical-align",
+    "white-space",
+    "list-style-type",
+    "margin",
+    "margin-top",
+    "margin-right",
+    "margin-bottom",
+    "margin-left",
+    "padding",
+    "padding-top",
+    "padding-right",
+    "padding-bottom",
+    "padding-left",
+    "border",
+    "border-color",
+    "border-style",
+    "border-width",
+    "border-collapse",
+    "width",
+    "height",
+  ],
+};
+
+/**
+ * Parses untrusted HTML (e.g. user-authored rich text) and returns a safe node, keeping only
+ * the elements, attributes and URL schemes allowed by the policy:
+ * - Elements that are not allowed are removed, but their content is kept. The `dropElements`
+ *   (such as `script` or `style`) are removed together with their content.
+ * - Attributes that are not allowed are removed. Event handler attributes (`on*`) are always
+ *   removed, even if the policy allows them.
+ * - URL attributes (`href`, `src`...) using a scheme that is not allowed, such as `javascript:`,
+ *   are removed.
+ * - `style` attributes only keep the allowed properties, and never keep values that can run code
+ *   or load resources, such as `expression()` or `url()`.
+ * - Comments and doctypes are removed, and every text is escaped.
+ *
+ * The policy is merged over `defaultSanitizePolicy`, so only the fields to change need to be given.
+ *
+ * Example usage:
+ * ```typescript
+ * sanitize('<p onclick="steal()">Hi <a href="javascript:steal()">there</a><script>steal()</script></p>').render();
+ * // Output: '<p>Hi <a>there</a></p>'
+ * ```
+ *
+ * @param {string} html - The untrusted HTML string.
+ * @param {Partial<SanitizePolicy>} policy - The allow-list policy, merged over the default policy.
+ * @returns {Node} A group of the sanitized nodes.
+ */
+export function sanitize(
+  html: string,
+  policy: Partial<SanitizePolicy> = {},
+): Node {
+  const effective: SanitizePolicy = { ...defaultSanitizePolicy, ...policy };
+  return htmlTreeToNode(sanitizeNodes(parseHtmlTree(html), effective));
+}
+
+function sanitizeNodes(nodes: HtmlNode[], policy: SanitizePolicy): HtmlNode[] {
+  const sanitized: HtmlNode[] = [];
+
+  for (const node of nodes) {
+    if (node.kind === "text") {
+      // Raw text (e.g. the content of an unwrapped element) is escaped like any other text.
+      sanitized.push({ ...node, raw: false });
+      continue;
+    }
+    if (node.kind !== "element") continue;
+    if (policy.dropElements.includes(node.name.toLowerCase())) continue;
+
+    const children = sanitizeNodes(node.children, policy);
+    const allowed = Object.prototype.hasOwnProperty.call(policy.elements, node.name)
+      ? policy.elements[node.name]
+      : undefined;
+
+    if (allowed === undefined || node.foreign) {
+      sanitized.push(...children);
+      continue;
+    }
+
+    sanitized.push({
+      ...node,
+      attributes: sanitizeAttributes(node.attributes, allowed, policy),
+      children,
+    });
+  }
+
+  return sanitized;
+}
+
+function sanitizeAttributes(
+  attributes: HtmlAttribute[],
+  allowed: readonly string[],
+  policy: SanitizePolicy,
+): HtmlAttribute[] {
+  const sanitized: HtmlAttribute[] = [];
+
+  for (const attribute of attributes) {
+    const name = attribute.name.toLowerCase();
+    if (name.startsWith("on")) continue;
+    if (!allowed.includes(name) && !policy.attributes.includes(name)) continue;
+
+    if (attribute.value === true) {
+      sanitized.push(attribute);
+      continue;
+    }
+
+    if (policy.urlAttributes.includes(name)) {
+      const urls = name === "srcset"
+        ? attribute.value.split(",").map((candidate) => candidate.trim().split(/\s+/)[0])
+        : [attribute.value];
+      if (urls.every((url) => isAllowedUrl(url, policy.urlSchemes))) {
+        sanitized.push(attribute);
+      }
+      continue;
+    }
+
+    if (name === "style") {
+      const style = sanitizeStyle(attribute.value, policy.styleProperties);
+      if (style !== "") sanitized.push({ name: attribute.name, value: style });
+      continue;
+    }
+
+    sanitized.push(attribute);
+  }
+
+  return sanitized;
+}
+
+/**
+ * Checks that a URL is relative or uses one of the allowed schemes.
+ */
+function isAllowedUrl(url: string, schemes: readonly string[]): boolean {
+  const scheme = urlScheme(url);
+  return scheme === undefined || schemes.includes(scheme);
+}
+
+/**
+ * Values of CSS declarations that can run code, load resources or hide other dangerous
+ * values behind escapes and comments.
+ */
+const unsafeStyleValue =
+  /expression\s*\(|url\s*\(|image-set\s*\(|javascript:|vbscript:|@import|behavior|binding|[\\<>]|\/\*/i;
+
+/**
+ * Keeps the safe declarations of the content of a `style` attribute.
+ */
+function sanitizeStyle(
+  style: string,
+  properties: readonly string[] | undefined,
+): string {
+  const declarations: string[] = [];
+
+  for (const declaration of splitStyleDeclarations(style)) {
+    const colon = declaration.indexOf(":");
+    if (colon === -1) continue;
+
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration.slice(colon + 1).trim();
+    if (!/^-?[a-z][a-z0-9-]*$/.test(property)) continue;
+    if (properties !== undefined && !properties.includes(property)) continue;
+    if (value === "" || unsafeStyleValue.test(value)) continue;
+
+    declarations.push(`${property}: ${value}`);
+  }
+
+  return declarations.join("; ");
+}
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import {
+  aSvg,
+  circle,
+  clipPathAttr,
+  cx,
+  cy,
+  d,
+  fill,
+  foreignObject,
+  g,
+  height,
+  line,
+  linearGradient,
+  path,
+  PathData,
+  pathData,
+  points,
+  polyline,
+  r,
+  rect,
+  stop,
+  stroke,
+  strokeLinecap,
+  strokeWidth,
+  svg,
+  svgNamespace,
+  use,
+  textSvg,
+  titleSvg,
+  transformAttr,
+  viewBox,
+  width,
+  x,
+  x1,
+  x2,
+  xhtmlNamespace,
+  xlinkHref,
+  xlinkNamespace,
+  xmlns,
+  y,
+  y1,
+  y2,
+} from "./svg.js";
+import { href } from "./attributes.js";
+import { a, script } from "./elements.js";
+import { attr, el, text } from "./nodx.js";
+
+describe("Namespaces", () => {
+  it("Declares the default namespace and prefixed namespaces", () => {
+    expect(xmlns(svgNamespace).render()).toBe(' xmlns="http://www.w3.org/2000/svg"');
+    expect(xmlns(xlinkNamespace, "xlink").render()).toBe(
+      ' xmlns:xlink="http://www.w3.org/1999/xlink"',
+    );
+  });
+
+  it("Renders xlink:href and checks its URL", () => {
+    expect(xlinkHref("#icon").render()).toBe(' xlink:href="#icon"');
+    expect(xlinkHref("javascript:alert(1)").render()).not.toContain("javascript:");
+  });
+
+  it("Declares the SVG namespace on svg elements", () => {
+    expect(svg().render()).toBe('<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+  });
+});
+
+describe("SVG helpers", () => {
+  const icon = svg(
+    xmlns(xlinkNamespace, "xlink"),
+    viewBox("0 0 24 24"),
+    linearGradient(attr("id", "a"), stop(attr("offset", "0"))),
+    g(fill("none"), stroke("url(#a)"), path(d("M0 0L24 24"))),
+    use(xlinkHref("#b")),
+    foreignObject(el("div", xmlns(xhtmlNamespace), text("Hi"))),
+  );
+
+  it("Renders a standalone SVG document in XML syntax", () => {
+    const expected =
+      '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 24 24">' +
+      '<linearGradient id="a"><stop offset="0" /></linearGradient>' +
+      '<g fill="none" stroke="url(#a)"><path d="M0 0L24 24" /></g>' +
+      '<use xlink:href="#b" />' +
+      '<foreignObject><div xmlns="http://www.w3.org/1999/xhtml">Hi</div></foreignObject>' +
+      "</svg>";
+    expect(icon.render({ syntax: "xml" })).toBe(expected);
+  });
+
+  it("Renders inline SVG in HTML syntax", () => {
+    expect(icon.render()).toContain('<stop offset="0"></stop>');
+    expect(icon.render()).toContain('<path d="M0 0L24 24"></path>');
+  });
+});
+
+describe("Shapes and presentation attributes", () => {
+  it("Renders shapes with numeric attributes", () => {
+    const node = g(
+      rect(x(1), y(2), width(10), height("50%")),
+      circle(cx(12), cy(12), r(10)),
+      line(x1(0), y1(0.5), x2(24), y2(24)),
+      polyline(points([[0, 0], [10, 5.5], [20, 0]])),
+    );
+    const expected =
+      '<g><rect x="1" y="2" width="10" height="50%" />' +
+      '<circle cx="12" cy="12" r="10" />' +
+      '<line x1="0" y1="0.5" x2="24" y2="24" />' +
+      '<polyline points="0,0 10,5.5 20,0" /></g>';
+    expect(node.render({ syntax: "xml" })).toBe(expected);
+  });
+
+  it("Renders dashed attribute names", () => {
+    const node = path(strokeWidth(2), strokeLinecap("round"), clipPathAttr("url(#c)"));
+    expect(node.render()).toBe(
+      '<path stroke-width="2" stroke-linecap="round" clip-path="url(#c)"></path>',
+    );
+  });
+
+  it("Rejects attributes that are not valid on the element at compile time", () => {
+    // Type errors are checked by `tsc`, the nodes still render at runtime.
+    // @ts-expect-error x1 is only valid on line and linearGradient
+    expect(circle(x1(0)).render()).toBe('<circle x1="0"></circle>');
+    // @ts-expect-error viewBox is not valid on path
+    expect(path(viewBox("0 0 1 1")).render()).toBe('<path viewBox="0 0 1 1"></path>');
+    expect(g(fill("red"), attr("data-id", "a")).render()).toBe('<g fill="red" data-id="a"></g>');
+  });
+
+  it("Keeps SVG attributes off the HTML elements that share a tag", () => {
+    // @ts-expect-error fill is not valid on the HTML a element
+    expect(a(fill("red")).render()).toBe('<a fill="red"></a>');
+    // @ts-expect-error stroke is not valid on the HTML script element
+    expect(script(stroke("red")).render()).toBe('<script stroke="red"></script>');
+    expect(aSvg(href("#top"), fill("red"), transformAttr("scale(2)")).render()).toBe(
+      '<a href="#top" fill="red" transform="scale(2)"></a>',
+    );
+    expect(titleSvg(text("Chart")).render()).toBe("<title>Chart</title>");
+  });
+
+  it("Renders SVG text without clashing with text()", () => {
+    expect(textSvg(x(0), y(10)).render()).toBe('<text x="0" y="10"></text>');
+  });
+});
+
+describe("pathData", () => {
+  const cases: Array<[string, () => PathData, string]> = [
+    ["empty path", () => pathData(), ""],
+    ["triangle", () => pathData().moveTo(0, 0).lineTo(10, 0).lineTo(5, 8).close(), "M0 0L10 0L5 8Z"],
+    [
+      "arc",
+      () => pathData().moveTo(10, 20).arc(5, 5, 0, false, true, 20, 20),
+      "M10 20A5 5 0 0 1 20 20",
+    ],
+    [
+      "large arc rotated",
+      () => pathData().moveTo(0, 0).arc(10, 5, 45, true, false, 10, 10),
+      "M0 0A10 5 45 1 0 10 10",
+    ],
+    [
+      "relative commands",
+      () => pathData().moveTo(1, 1, true).lineTo(2, -2, true).horizontalTo(3, true).verticalTo(4, true),
+      "m1 1l2 -2h3v4",
+    ],
+    [
+      "curves",
+      () => pathData().moveTo(0, 0).curveTo(1, 2, 3, 4, 5, 6).quadraticTo(7, 8, 9, 10),
+      "M0 0C1 2 3 4 5 6Q7 8 9 10",
+    ],
+    [
+      "horizontal and vertical lines",
+      () => pathData().moveTo(2, 2).horizontalTo(22).verticalTo(22).horizontalTo(2).close(),
+      "M2 2H22V22H2Z",
+    ],
+    [
+      "floating point noise",
+      () => pathData().moveTo(0.1 + 0.2, 1 / 3).lineTo(-0.0001, 2.0005),
+      "M0.3 0.333L0 2.001",
+    ],
+    [
+      "multiple subpaths",
+      () => pathData().moveTo(0, 0).lineTo(1, 1).close().moveTo(5, 5).lineTo(6, 6).close(),
+      "M0 0L1 1ZM5 5L6 6Z",
+    ],
+  ];
+
+  it.each(cases)("Builds the %s", (_, build, expected) => {
+    expect(build().toString()).toBe(expected);
+  });
+
+  it("Builds the d attribute of a path", () => {
+    const triangle = pathData().moveTo(0, 0).lineTo(10, 0).lineTo(5, 8).close();
+    expect(path(d(triangle)).render()).toBe('<path d="M0 0L10 0L5 8Z"></path>');
+  });
+
+  it("Throws on coordinates that are not finite", () => {
+    expect(() => pathData().moveTo(NaN, 0)).toThrow("Invalid SVG coordinate: NaN");
+    expect(() => pathData().lineTo(0, Infinity)).toThrow("Invalid SVG coordinate: Infinity");
+  });
+});
@@ -0,0 +1,699 @@
+/**
+ * Helpers for SVG elements and attributes.
+ * See https://www.w3.org/TR/SVG2/eltindex.html and https://www.w3.org/TR/SVG2/attindex.html
+ *
+ * SVG names are case-sensitive (`viewBox`, `linearGradient`), the helpers keep their exact case.
+ * Empty SVG elements are rendered with an end tag (`<path d="M0 0"></path>`), which is valid
+ * inside HTML documents. Render with the `"xml"` syntax to self-close them (`<path d="M0 0" />`),
+ * as required by standalone `.svg` files.
+ *
+ * Naming convention: an element helper is named after its tag and an attribute helper is named
+ * after its attribute in camel case (`stroke-width` is `strokeWidth`). If the name is already
+ * taken by a helper from `elements.ts`, `attributes.ts` or `nodx.ts` (`a`, `title`, `text`...)
+ * or is a JavaScript reserved word (`switch`), the helper gets the `Svg` suffix (`aSvg`,
+ * `titleSvg`, `textSvg`). If an attribute has the name of an SVG element (`clip-path`, `mask`,
+ * `filter`) or of a helper from another module (`transform`), the attribute helper gets the
+ * `Attr` suffix (`clipPathAttr`, `maskAttr`, `transformAttr`).
+ *
+ * Like the HTML helpers, element helpers only accept the attribute nodes valid on their element,
+ * see `ElementChild`. Presentation attributes (`fill`, `stroke`...) are valid on every SVG element.
+ *
+ * Use `pathData()` to build the `d` attribute of a `path`.
+ */
+import {
+  attr,
+  AttributeNode,
+  el,
+  ElementChild,
+  GlobalAttribute,
+  Node,
+  SafeUrl,
+} from "./nodx.js";
+
+/**
+ * A numeric attribute value. Numbers are rendered as-is, strings allow units and
+ * percentages (`"50%"`, `"2em"`).
+ */
+export type SvgLength = number | string;
+
+/**
+ * The SVG elements created by the helpers of this module. Attribute helpers are tagged with the
+ * SVG elements they are valid on (see `AttributeNode`), so `circle(x1(0))` does not compile. The
+ * elements that share their tag with an HTML element are tagged `svg:a`, `svg:title`, `svg:style`
+ * and `svg:script`, so `a(fill("red"))` does not compile either.
+ */
+export type SvgElementName =
+  | "svg" | "g" | "defs" | "symbol" | "use" | "svg:a" | "switch" | "svg:title" | "desc"
+  | "metadata"
+  | "path" | "rect" | "circle" | "ellipse" | "line" | "polyline" | "polygon"
+  | "text" | "tspan" | "textPath"
+  | "linearGradient" | "radialGradient" | "stop" | "pattern" | "clipPath" | "mask" | "marker"
+  | "filter" | SvgFilterPrimitive
+  | "animate" | "animateMotion" | "animateTransform" | "set" | "mpath"
+  | "image" | "foreignObject" | "view" | "svg:style" | "svg:script";
+
+/**
+ * The filter primitive elements, which share the `x`, `y`, `width` and `height` attributes of
+ * their filter region.
+ */
+type SvgFilterPrimitive =
+  | "feBlend" | "feColorMatrix" | "feComposite" | "feFlood" | "feGaussianBlur" | "feMerge"
+  | "feMergeNode" | "feOffset" | "feDropShadow";
+
+/**
+ * The basic shapes and paths, which accept `pathLength`.
+ */
+type SvgShape = "path" | "rect" | "circle" | "ellipse" | "line" | "polyline" | "polygon";
+
+/**
+ * The elements positioned by `x`, `y`, `width` and `height`.
+ */
+type SvgPositioned =
+  | "svg" | "symbol" | "use" | "rect" | "image" | "foreignObject" | "pattern" | "mask"
+  | "filter" | SvgFilterPrimitive;
+
+/**
+ * The elements that establish a viewport and accept `viewBox` and `preserveAspectRatio`.
+ */
+type SvgViewport = "svg" | "symbol" | "marker" | "pattern" | "view";
+
+/**
+ * The elements that accept the `transform` attribute.
+ */
+type SvgTransformable =
+  | "svg" | "g" | "defs" | "use" | "svg:a" | "switch" | "text" | "image" | "foreignObject"
+  | "clipPath" | SvgShape;
+
+/**
+ * The elements that reference another element with `href` or `xlink:href`.
+ */
+type SvgLinking =
+  | "svg:a" | "use" | "image" | "textPath" | "linearGradient" | "radialGradient" | "pattern"
+  | "mpath" | "animate" | "animateMotion" | "animateTransform" | "set" | "svg:script";
+
+/**
+ * The namespace of SVG elements.
+ */
+export const svgNamespace = "http://www.w3.org/2000/svg";
+
+/**
+ * The namespace of the `xlink:` attributes, such as `xlink:href`.
+ */
+export const xlinkNamespace = "http://www.w3.org/1999/xlink";
+
+/**
+ * The namespace of XHTML elements, such as the content of a `foreignObject`.
+ */
+export const xhtmlNamespace = "http://www.w3.org/1999/xhtml";
+
+/**
+ * Declares a namespace with an `xmlns` attribute, or with an `xmlns:prefix` attribute if a
+ * prefix is given.
+ *
+ * Example usage:
+ * ```typescript
+ * xmlns(svgNamespace).render(); // Output: ' xmlns="http://www.w3.org/2000/svg"'
+ * xmlns(xlinkNamespace, "xlink").render(); // Output: ' xmlns:xlink="http://www.w3.org/1999/xlink"'
+ * ```
+ *
+ * @param {string} namespace - The namespace URI.
+ * @param {string} [prefix] - The prefix bound to the namespace.
+ * @returns {Node} The namespace declaration attribute.
+ */
+export function xmlns(namespace: string, prefix?: string): GlobalAttribute {
+  return attr(prefix === undefined ? "xmlns" : `xmlns:${prefix}`, namespace);
+}
+
+/**
+ * Creates an `xlink:href` attribute, used by SVG 1.1 renderers instead of `href`. The
+ * `xlink` namespace must be declared on an ancestor, see `xmlns()`.
+ */
+export function xlinkHref(value: string | SafeUrl): AttributeNode<SvgLinking> {
+  return attr("xlink:href", value);
+}
+
+// Structural elements
+
+/**
+ * Creates an `svg` element that declares the SVG namespace, so the markup is also a valid
+ * standalone `.svg` file.
+ */
+export function svg(...children: Array<ElementChild<"svg">>): Node {
+  return el("svg", xmlns(svgNamespace), ...children);
+}
+
+export function g(...children: Array<ElementChild<"g">>): Node {
+  return el("g", ...children);
+}
+
+export function defs(...children: Array<ElementChild<"defs">>): Node {
+  return el("defs", ...children);
+}
+
+export function symbol(...children: Array<ElementChild<"symbol">>): Node {
+  return el("symbol", ...children);
+}
+
+export function use(...children: Array<ElementChild<"use">>): Node {
+  return el("use", ...children);
+}
+
+export function aSvg(
+  ...children: Array<ElementChild<"svg:a"> | ElementChild<"a">>
+): Node {
+  return el("a", ...children);
+}
+
+export function switchSvg(...children: Array<ElementChild<"switch">>): Node {
+  return el("switch", ...children);
+}
+
+export function titleSvg(
+  ...children: Array<ElementChild<"svg:title"> | ElementChild<"title">>
+): Node {
+  return el("title", ...children);
+}
+
+export function desc(...children: Array<ElementChild<"desc">>): Node {
+  return el("desc", ...children);
+}
+
+export function metadata(...children: Array<ElementChild<"metadata">>): Node {
+  return el("metadata", ...children);
+}
+
+// Shapes
+
+export function path(...children: Array<ElementChild<"path">>): Node {
+  return el("path", ...children);
+}
+
+export function rect(...children: Array<ElementChild<"rect">>): Node {
+  return el("rect", ...children);
+}
+
+export function circle(...children: Array<ElementChild<"circle">>): Node {
+  return el("circle", ...children);
+}
+
+export function ellipse(...children: Array<ElementChild<"ellipse">>): Node {
+  return el("ellipse", ...children);
+}
+
+export function line(...children: Array<ElementChild<"line">>): Node {
+  return el("line", ...children);
+}
+
+export function polyline(...children: Array<ElementChild<"polyline">>): Node {
+  return el("polyline", ...children);
+}
+
+export function polygon(...children: Array<ElementChild<"polygon">>): Node {
+  return el("polygon", ...children);
+}
+
+// Text
+
+export function textSvg(...children: Array<ElementChild<"text">>): Node {
+  return el("text", ...children);
+}
+
+export function tspan(...children: Array<ElementChild<"tspan">>): Node {
+  return el("tspan", ...children);
+}
+
+export function textPath(...children: Array<ElementChild<"textPath">>): Node {
+  return el("textPath", ...children);
+}
+
+// Paint servers, clipping, masking and markers
+
+export function linearGradient(...children: Array<ElementChild<"linearGradient">>): Node {
+  return el("linearGradient", ...children);
+}
+
+export function radialGradient(...children: Array<ElementChild<"radialGradient">>): Node {
+  return el("radialGradient", ...children);
+}
+
+export function stop(...children: Array<ElementChild<"stop">>): Node {
+  return el("stop", ...children);
+}
+
+export function pattern(...children: Array<ElementChild<"pattern">>): Node {
+  return el("pattern", ...children);
+}
+
+export function clipPath(...children: Array<ElementChild<"clipPath">>): Node {
+  return el("clipPath", ...children);
+}
+
+export function mask(...children: Array<ElementChild<"mask">>): Node {
+  return el("mask", ...children);
+}
+
+export function marker(...children: Array<ElementChild<"marker">>): Node {
+  return el("marker", ...children);
+}
+
+// Filters
+
+export function filter(...children: Array<ElementChild<"filter">>): Node {
+  return el("filter", ...children);
+}
+
+export function feBlend(...children: Array<ElementChild<"feBlend">>): Node {
+  return el("feBlend", ...children);
+}
+
+export function feColorMatrix(...children: Array<ElementChild<"feColorMatrix">>): Node {
+  return el("feColorMatrix", ...children);
+}
+
+export function feComposite(...children: Array<ElementChild<"feComposite">>): Node {
+  return el("feComposite", ...children);
+}
+
+export function feFlood(...children: Array<ElementChild<"feFlood">>): Node {
+  return el("feFlood", ...children);
+}
+
+export function feGaussianBlur(...children: Array<ElementChild<"feGaussianBlur">>): Node {
+  return el("feGaussianBlur", ...children);
+}
+
+export function feMerge(...children: Array<ElementChild<"feMerge">>): Node {
+  return el("feMerge", ...children);
+}
+
+export function feMergeNode(...children: Array<ElementChild<"feMergeNode">>): Node {
+  return el("feMergeNode", ...children);
+}
+
+export function feOffset(...children: Array<ElementChild<"feOffset">>): Node {
+  return el("feOffset", ...children);
+}
+
+export function feDropShadow(...children: Array<ElementChild<"feDropShadow">>): Node {
+  return el("feDropShadow", ...children);
+}
+
+// Animation
+
+export function animate(...children: Array<ElementChild<"animate">>): Node {
+  return el("animate", ...children);
+}
+
+export function animateMotion(...children: Array<ElementChild<"animateMotion">>): Node {
+  return el("animateMotion", ...children);
+}
+
+export function animateTransform(...children: Array<ElementChild<"animateTransform">>): Node {
+  return el("animateTransform", ...children);
+}
+
+export function set(...children: Array<ElementChild<"set">>): Node {
+  return el("set", ...children);
+}
+
+export function mpath(...children: Array<ElementChild<"mpath">>): Node {
+  return el("mpath", ...children);
+}
+
+// Embedded content and other elements
+
+export function image(...children: Array<ElementChild<"image">>): Node {
+  return el("image", ...children);
+}
+
+export function foreignObject(...children: Array<ElementChild<"foreignObject">>): Node {
+  return el("foreignObject", ...children);
+}
+
+export function view(...children: Array<ElementChild<"view">>): Node {
+  return el("view", ...children);
+}
+
+export function styleSvg(
+  ...children: Array<ElementChild<"svg:style"> | ElementChild<"style">>
+): Node {
+  return el("style", ...children);
+}
+
+export function scriptSvg(
+  ...children: Array<ElementChild<"svg:script"> | ElementChild<"script">>
+): Node {
+  return el("script", ...children);
+}
+
+// Geometry attributes
+
+export function viewBox(value: string): AttributeNode<SvgViewport> {
+  return attr("viewBox", value);
+}
+
+export function preserveAspectRatio(value: string): AttributeNode<SvgViewport | "image"> {
+  return attr("preserveAspectRatio", value);
+}
+
+export function x(value: SvgLength): AttributeNode<SvgPositioned | "text" | "tspan"> {
+  return attr("x", String(value));
+}
+
+export function y(value: SvgLength): AttributeNode<SvgPositioned | "text" | "tspan"> {
+  return attr("y", String(value));
+}
+
+export function x1(value: SvgLength): AttributeNode<"line" | "linearGradient"> {
+  return attr("x1", String(value));
+}
+
+export function y1(value: SvgLength): AttributeNode<"line" | "linearGradient"> {
+  return attr("y1", String(value));
+}
+
+export function x2(value: SvgLength): AttributeNode<"line" | "linearGradient"> {
+  return attr("x2", String(value));
+}
+
+export function y2(value: SvgLength): AttributeNode<"line" | "linearGradient"> {
+  return attr("y2", String(value));
+}
+
+export function cx(value: SvgLength): AttributeNode<"circle" | "ellipse" | "radialGradient"> {
+  return attr("cx", String(value));
+}
+
+export function cy(value: SvgLength): AttributeNode<"circle" | "ellipse" | "radialGradient"> {
+  return attr("cy", String(value));
+}
+
+export function r(value: SvgLength): AttributeNode<"circle" | "radialGradient"> {
+  return attr("r", String(value));
+}
+
+export function rx(value: SvgLength): AttributeNode<"rect" | "ellipse"> {
+  return attr("rx", String(value));
+}
+
+export function ry(value: SvgLength): AttributeNode<"rect" | "ellipse"> {
+  return attr("ry", String(value));
+}
+
+export function dx(value: SvgLength): AttributeNode<"text" | "tspan" | "feOffset" | "feDropShadow"> {
+  return attr("dx", String(value));
+}
+
+export function dy(value: SvgLength): AttributeNode<"text" | "tspan" | "feOffset" | "feDropShadow"> {
+  return attr("dy", String(value));
+}
+
+export function width(value: SvgLength): AttributeNode<SvgPositioned> {
+  return attr("width", String(value));
+}
+
+export function height(value: SvgLength): AttributeNode<SvgPositioned> {
+  return attr("height", String(value));
+}
+
+/**
+ * Creates the `d` attribute of a `path`, from a string or a `pathData()` builder.
+ */
+export function d(value: string | PathData): AttributeNode<"path"> {
+  return attr("d", value.toString());
+}
+
+/**
+ * Creates the `points` attribute of a `polyline` or a `polygon`, from a string or a list of
+ * `[x, y]` points.
+ *
+ * Example usage:
+ * ```typescript
+ * points([[0, 0], [10, 5]]).render(); // Output: ' points="0,0 10,5"'
+ * ```
+ */
+export function points(value: string | Array<[number, number]>): AttributeNode<"polyline" | "polygon"> {
+  return attr(
+    "points",
+    typeof value === "string"
+      ? value
+      : value.map(([x, y]) => `${formatNumber(x)},${formatNumber(y)}`).join(" "),
+  );
+}
+
+export function transformAttr(value: string): AttributeNode<SvgTransformable> {
+  return attr("transform", value);
+}
+
+export function pathLength(value: number): AttributeNode<SvgShape> {
+  return attr("pathLength", String(value));
+}
+
+// Presentation attributes
+
+export function fill(value: string): AttributeNode<SvgElementName> {
+  return attr("fill", value);
+}
+
+export function stroke(value: string): AttributeNode<SvgElementName> {
+  return attr("stroke", value);
+}
+
+export function strokeWidth(value: SvgLength): AttributeNode<SvgElementName> {
+  return attr("stroke-width", String(value));
+}
+
+export function strokeLinecap(value: "butt" | "round" | "square"): AttributeNode<SvgElementName> {
+  return attr("stroke-linecap", value);
+}
+
+export function strokeLinejoin(
+  value: "miter" | "miter-clip" | "round" | "bevel" | "arcs",
+): AttributeNode<SvgElementName> {
+  return attr("stroke-linejoin", value);
+}
+
+export function strokeDasharray(value: string): AttributeNode<SvgElementName> {
+  return attr("stroke-dasharray", value);
+}
+
+export function strokeDashoffset(value: SvgLength): AttributeNode<SvgElementName> {
+  return attr("stroke-dashoffset", String(value));
+}
+
+export function strokeMiterlimit(value: number): AttributeNode<SvgElementName> {
+  return attr("stroke-miterlimit", String(value));
+}
+
+export function opacity(value: number | string): AttributeNode<SvgElementName> {
+  return attr("opacity", String(value));
+}
+
+export function fillOpacity(value: number | string): AttributeNode<SvgElementName> {
+  return attr("fill-opacity", String(value));
+}
+
+export function strokeOpacity(value: number | string): AttributeNode<SvgElementName> {
+  return attr("stroke-opacity", String(value));
+}
+
+export function stopOpacity(value: number | string): AttributeNode<SvgElementName> {
+  return attr("stop-opacity", String(value));
+}
+
+export function fillRule(value: "nonzero" | "evenodd"): AttributeNode<SvgElementName> {
+  return attr("fill-rule", value);
+}
+
+export function clipRule(value: "nonzero" | "evenodd"): AttributeNode<SvgElementName> {
+  return attr("clip-rule", value);
+}
+
+export function stopColor(value: string): AttributeNode<SvgElementName> {
+  return attr("stop-color", value);
+}
+
+export function offset(value: number | string): AttributeNode<"stop"> {
+  return attr("offset", String(value));
+}
+
+export function clipPathAttr(value: string): AttributeNode<SvgElementName> {
+  return attr("clip-path", value);
+}
+
+export function maskAttr(value: string): AttributeNode<SvgElementName> {
+  return attr("mask", value);
+}
+
+export function filterAttr(value: string): AttributeNode<SvgElementName> {
+  return attr("filter", value);
+}
+
+export function markerStart(value: string): AttributeNode<SvgElementName> {
+  return attr("marker-start", value);
+}
+
+export function markerMid(value: string): AttributeNode<SvgElementName> {
+  return attr("marker-mid", value);
+}
+
+export function markerEnd(value: string): AttributeNode<SvgElementName> {
+  return attr("marker-end", value);
+}
+
+export function gradientUnits(value: "userSpaceOnUse" | "objectBoundingBox"): AttributeNode<"linearGradient" | "radialGradient"> {
+  return attr("gradientUnits", value);
+}
+
+export function gradientTransform(value: string): AttributeNode<"linearGradient" | "radialGradient"> {
+  return attr("gradientTransform", value);
+}
+
+// Path data
+
+/**
+ * Formats a coordinate of path data, rounded to 3 decimals to avoid floating point noise
+ * (`0.30000000000000004` is `0.3`).
+ */
+function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid SVG coordinate: ${String(value)}`);
+  }
+  const rounded = Math.round(value * 1000) / 1000;
+  return String(rounded === 0 ? 0 : rounded);
+}
+
+/**
+ * A builder of path data, the value of the `d` attribute of a `path`. Create it with
+ * `pathData()`, every command returns the builder so commands can be chained.
+ *
+ * Commands use absolute coordinates, unless `relative` is set (the lowercase commands).
+ */
+export class PathData {
+  private readonly commands: string[] = [];
+
+  /**
+   * Moves the current point without drawing, starting a new subpath (`M`).
+   */
+  moveTo(x: number, y: number, relative = false): this {
+    return this.command(relative ? "m" : "M", x, y);
+  }
+
+  /**
+   * Draws a straight line to the point (`L`).
+   */
+  lineTo(x: number, y: number, relative = false): this {
+    return this.command(relative ? "l" : "L", x, y);
+  }
+
+  /**
+   * Draws a horizontal line to the x coordinate (`H`).
+   */
+  horizontalTo(x: number, relative = false): this {
+    return this.command(relative ? "h" : "H", x);
+  }
+
+  /**
+   * Draws a vertical line to the y coordinate (`V`).
+   */
+  verticalTo(y: number, relative = false): this {
+    return this.command(relative ? "v" : "V", y);
+  }
+
+  /**
+   * Draws a cubic Bézier curve to the point, with two control points (`C`).
+   */
+  curveTo(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    x: number,
+    y: number,
+    relative = false,
+  ): this {
+    return this.command(relative ? "c" : "C", x1, y1, x2, y2, x, y);
+  }
+
+  /**
+   * Draws a quadratic Bézier curve to the point, with one control point (`Q`).
+   */
+  quadraticTo(
+    x1: number,
+    y1: number,
+    x: number,
+    y: number,
+    relative = false,
+  ): this {
+    return this.command(relative ? "q" : "Q", x1, y1, x, y);
+  }
+
+  /**
+   * Draws an elliptical arc to the point (`A`).
+   *
+   * @param {number} rx - The x radius of the ellipse.
+   * @param {number} ry - The y radius of the ellipse.
+   * @param {number} rotation - The rotation of the ellipse, in degrees.
+   * @param {boolean} largeArc - Draws the arc greater than 180 degrees.
+   * @param {boolean} sweep - Draws the arc clockwise.
+   * @param {number} x - The x coordinate of the end point.
+   * @param {number} y - The y coordinate of the end point.
+   * @param {boolean} relative - Uses coordinates relative to the current point.
+   */
+  arc(
+    rx: number,
+    ry: number,
+    rotation: number,
+    largeArc: boolean,
+    sweep: boolean,
+    x: number,
+    y: number,
+    relative = false,
+  ): this {
+    return this.command(
+      relative ? "a" : "A",
+      rx,
+      ry,
+      rotation,
+      largeArc ? 1 : 0,
+      sweep ? 1 : 0,
+      x,
+      y,
+    );
+  }
+
+  /**
+   * Closes the current subpath with a straight line to its start (`Z`).
+   */
+  close(): this {
+    this.commands.push("Z");
+    return this;
+  }
+
+  /**
+   * Returns the path data, such as `M0 0L10 10Z`.
+   */
+  toString(): string {
+    return this.commands.join("");
+  }
+
+  private command(name: string, ...values: number[]): this {
+    this.commands.push(name + values.map(formatNumber).join(" "));
+    return this;
+  }
+}
+
+/**
+ * Creates a path data builder, see `PathData`.
+ *
+ * Example usage:
+ * ```typescript
+ * const triangle = pathData().moveTo(0, 0).lineTo(10, 0).lineTo(5, 8).close();
+ * path(d(triangle)).render(); // Output: '<path d="M0 0L10 0L5 8Z"></path>'
+ * ```
+ *
+ * @returns {PathData} An empty path data builder.
+ */
+export function pathData(): PathData {
+  return new PathData();
+}
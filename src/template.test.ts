@@ -0,0 +1,139 @@
+import { describe, expect, it, vi } from "vitest";
+import { htmlx } from "./template.js";
+import {
+  attr,
+  classx,
+  el,
+  group,
+  json,
+  mapx,
+  raw,
+  stylex,
+  text,
+  trustedUrl,
+} from "./nodx.js";
+
+describe("htmlx", () => {
+  it("Renders a static template", () => {
+    const input = '<div class="card"><p>Hello <b>world</b></p></div>';
+    expect(htmlx`<div class="card"><p>Hello <b>world</b></p></div>`.render()).toBe(input);
+  });
+
+  it("Escapes strings and numbers in text", () => {
+    const name = "<script>alert(1)</script>";
+    const expected = "<p>&lt;script&gt;alert(1)&lt;/script&gt; has 3 items</p>";
+    expect(htmlx`<p>${name} has ${3} items</p>`.render()).toBe(expected);
+  });
+
+  it("Inserts nodes and lists of nodes as-is", () => {
+    const items = ["a", "b"];
+    const expected = "<ul><li>a</li><li>b</li></ul><p><b>trusted</b> <i>x</i></p>";
+    const got = htmlx`<ul>${items.map((item) => htmlx`<li>${item}</li>`)}</ul><p>${raw("<b>trusted</b>")} ${el("i", text("x"))}</p>`;
+    expect(got.render()).toBe(expected);
+  });
+
+  it("Renders nothing for booleans, null and undefined in text", () => {
+    const expected = "<p>ab</p>";
+    expect(htmlx`<p>a${false}${null}${undefined}${true}b</p>`.render()).toBe(expected);
+  });
+
+  it("Escapes values in quoted and unquoted attribute values", () => {
+    const value = '"><script>alert(1)</script><b title="';
+    const escaped = "&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;&lt;b title=&quot;";
+    expect(htmlx`<p title="${value}"></p>`.render()).toBe(`<p title="${escaped}"></p>`);
+    expect(htmlx`<p title='${value}'></p>`.render()).toBe(`<p title="${escaped}"></p>`);
+    expect(htmlx`<p title=${value}></p>`.render()).toBe(`<p title="${escaped}"></p>`);
+  });
+
+  it("Never lets a value add attributes or elements", () => {
+    const value = 'x" onclick="alert(1)';
+    const got = htmlx`<a class=${value} title="a ${value} b">${value}</a>`.render();
+    expect(got).toBe(
+      '<a class="x&quot; onclick=&quot;alert(1)" title="a x&quot; onclick=&quot;alert(1) b">x&quot; onclick=&quot;alert(1)</a>',
+    );
+    expect(got).not.toMatch(/\sonclick="/);
+  });
+
+  it("Mixes static text and values in attribute values", () => {
+    const expected = '<div class="card card-active is-big" data-id="item-7"></div>';
+    const got = htmlx`<div class="card card-${"active"} ${["is-big", null, false]}" data-id="item-${7}"></div>`;
+    expect(got.render()).toBe(expected);
+  });
+
+  it("Omits attributes set to false, null or undefined and renders boolean attributes", () => {
+    const expected = "<input checked>";
+    const got = htmlx`<input checked=${true} disabled=${false} title=${null} value=${undefined}>`;
+    expect(got.render()).toBe(expected);
+  });
+
+  it("Checks URL attributes", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    expect(htmlx`<a href="${"javascript:alert(1)"}">x</a>`.render()).toBe(
+      '<a href="about:invalid#nodx-unsafe-url">x</a>',
+    );
+    expect(htmlx`<a href=${trustedUrl("javascript:void(0)")}>x</a>`.render()).toBe(
+      '<a href="javascript:void(0)">x</a>',
+    );
+    vi.restoreAllMocks();
+  });
+
+  it("Inserts attribute nodes in place of attributes", () => {
+    const expected = '<div id="main" class="a b" role="note">x</div>';
+    const got = htmlx`<div id="main" ${classx("a", { b: true })} ${[attr("role", "note")]}>x</div>`;
+    expect(got.render()).toBe(expected);
+  });
+
+  it("Accepts nodes in script content", () => {
+    const data = { name: "</script><script>alert(1)</script>" };
+    const expected =
+      '<script>const data = {"name":"\\u003c/script\\u003e\\u003cscript\\u003ealert(1)\\u003c/script\\u003e"};</script>';
+    expect(htmlx`<script>const data = ${json(data)};</script>`.render()).toBe(expected);
+  });
+
+  it("Throws for values in unsupported positions", () => {
+    expect(() => htmlx`<script>${"alert(1)"}</script>`).toThrow("only nodes");
+    expect(() => htmlx`<p data-${"x"}="1"></p>`).toThrow("attribute names");
+    expect(() => htmlx`<p ${"title"}></p>`).toThrow("only attribute nodes");
+    expect(() => htmlx`<p title=${text("x")}></p>`).toThrow("attribute values");
+    expect(() => htmlx`<!-- ${"x"} -->`).toThrow("comment");
+  });
+
+  it("Throws for values in event handler, style and srcdoc attributes", () => {
+    const code = "alert(1)";
+    expect(() => htmlx`<button onclick="${code}">x</button>`).toThrow(
+      "nodx: values cannot be interpolated in the onclick event handler attribute of an htmlx template",
+    );
+    expect(() => htmlx`<svg onLoad=${code}></svg>`).toThrow("onload event handler attribute");
+    expect(() => htmlx`<p style="color: ${"red"}"></p>`).toThrow("insert a stylex() node");
+    expect(() => htmlx`<p style=${null}></p>`).toThrow("style attributes");
+    const userHtml = "<img src=x onerror=alert(1)>";
+    expect(() => htmlx`<iframe srcdoc=${userHtml}></iframe>`).toThrow(
+      "nodx: values cannot be interpolated in srcdoc attributes of an htmlx template, their markup is parsed as a document",
+    );
+    expect(() => htmlx`<iframe srcDoc="<p>${"a"}</p>"></iframe>`).toThrow("srcdoc attributes");
+  });
+
+  it("Inserts style nodes in place of the style attribute", () => {
+    const got = htmlx`<p onclick="track()" ${stylex({ color: "red", marginTop: 8 })}>x</p>`;
+    expect(got.render()).toBe('<p onclick="track()" style="color: red; margin-top: 8px">x</p>');
+  });
+
+  it("Keeps the case of SVG names", () => {
+    const expected = '<svg viewBox="0 0 10 10"><path d="M0 0L10 10"></path></svg>';
+    expect(htmlx`<svg viewBox="0 0 10 10"><path d=${"M0 0L10 10"} /></svg>`.render()).toBe(expected);
+  });
+
+  it("Parses each call site once", () => {
+    const render = (name: string): string => htmlx`<p>${name}</p>`.render();
+    expect(render("a")).toBe("<p>a</p>");
+    expect(render("<b>")).toBe("<p>&lt;b&gt;</p>");
+  });
+
+  it("Composes with group and mapx", () => {
+    const node = group(
+      htmlx`<h1>${"Title"}</h1>`,
+      mapx([1, 2], (n) => htmlx`<p>${n}</p>`),
+    );
+    expect(node.render()).toBe("<h1>Title</h1><p>1</p><p>2</p>");
+  });
+});
@@ -0,0 +1,293 @@
+import {
+  attr,
+  group,
+  Node,
+  NodeElement,
+  raw,
+  SafeUrl,
+  text,
+  voidElements,
+} from "./nodx.js";
+import { HtmlAttribute, HtmlNode, parseHtmlTree } from "./parser.js";
+
+/**
+ * A value interpolated in an `htmlx` template, see `htmlx()`.
+ */
+export type TemplateValue =
+  | Node
+  | string
+  | number
+  | boolean
+  | SafeUrl
+  | null
+  | undefined
+  | TemplateValue[];
+
+/**
+ * The parsed trees of the templates, by call site. The strings of a tagged template are the
+ * same array for every call of the same call site, so each template is parsed once.
+ */
+const parsedTemplates = new WeakMap<TemplateStringsArray, HtmlNode[]>();
+
+/**
+ * Matches the placeholders of the interpolated values in the parsed tree. They use private-use
+ * characters that are kept as-is by the parser, in text, attribute names and attribute values.
+ */
+const placeholderPattern = /\uE000(\d+)\uE001/;
+
+function placeholder(index: number): string {
+  return `\uE000${index}\uE001`;
+}
+
+/**
+ * Creates nodes from an HTML template, HTML-escaping every interpolated string. The template is
+ * parsed before the values are inserted, so a value can never change the structure of the markup
+ * or break out of an attribute:
+ * - In text, nodes and lists of nodes are inserted as-is, strings and numbers are escaped text,
+ *   and `true`, `false`, `null` and `undefined` render nothing.
+ * - In an attribute value (quoted or not), the value is escaped and URL attributes are checked
+ *   like with `attr()`. An attribute whose whole value is `false`, `null` or `undefined` is
+ *   omitted, and `true` renders a boolean attribute. Lists are joined with spaces.
+ * - In place of an attribute, attribute nodes such as `attr()` or `classx()` are inserted.
+ * - In `<script>` and `<style>` content, only nodes such as `json()` are accepted.
+ *
+ * HTML escaping does not protect JavaScript and CSS code, nor the markup of `srcdoc`, which is
+ * decoded before it is parsed as a document, so values cannot be interpolated in the value of
+ * event handler attributes (`onclick`...), `style` attributes and `srcdoc` attributes: insert a
+ * `stylex()` node in place of the `style` attribute instead. Values cannot be interpolated in
+ * tag names, attribute names or comments either. The helper is named `htmlx` like `classx()`
+ * and `stylex()`, as `html()` creates the `<html>` element.
+ *
+ * Example usage:
+ * ```typescript
+ * const cls = 'card" onclick="steal()';
+ * const name = "<b>Tom</b>";
+ * htmlx`<div class=${cls}>${name} ${el("i", text("!"))}</div>`.render();
+ * // Output: '<div class="card&quot; onclick=&quot;steal()">&lt;b&gt;Tom&lt;/b&gt; <i>!</i></div>'
+ * ```
+ *
+ * @param {TemplateStringsArray} strings - The static parts of the template.
+ * @param {...TemplateValue} values - The interpolated values.
+ * @returns {Node} A group of the top-level nodes of the template.
+ * @throws {Error} If a value is interpolated where it is not supported.
+ */
+export function htmlx(
+  strings: TemplateStringsArray,
+  ...values: TemplateValue[]
+): Node {
+  let tree = parsedTemplates.get(strings);
+  if (tree === undefined) {
+    let html = strings[0];
+    for (let i = 1; i < strings.length; i++) {
+      html += placeholder(i - 1) + strings[i];
+    }
+    tree = parseHtmlTree(html);
+    parsedTemplates.set(strings, tree);
+  }
+
+  const nodes: Node[] = [];
+  for (const node of tree) appendNode(nodes, node, values);
+  return group(...nodes);
+}
+
+function appendNode(nodes: Node[], node: HtmlNode, values: TemplateValue[]): void {
+  switch (node.kind) {
+    case "element": {
+      const children: Node[] = [];
+      for (const attribute of node.attributes) {
+        appendAttribute(children, attribute, values);
+      }
+      for (const child of node.children) appendNode(children, child, values);
+      nodes.push(
+        new NodeElement(
+          !node.foreign && voidElements.has(node.name),
+          node.name,
+          ...children,
+        ),
+      );
+      return;
+    }
+    case "text":
+      // The raw text content of `<script>` and `<style>` only accepts nodes, see `htmlx()`.
+      splitPlaceholders(
+        node.text,
+        (part) => nodes.push(node.raw ? raw(part) : text(part)),
+        (index) => node.raw
+          ? appendRawTextValue(nodes, values[index])
+          : appendTextValue(nodes, values[index]),
+      );
+      return;
+    case "comment":
+    case "doctype":
+      if (hasPlaceholder(node.text)) {
+        throw new Error(`nodx: values cannot be interpolated in a ${node.kind} of an htmlx template`);
+      }
+      nodes.push(raw(node.kind === "comment" ? `<!--${node.text}-->` : `<!${node.text}>`));
+  }
+}
+
+function appendTextValue(nodes: Node[], value: TemplateValue): void {
+  if (value === null || value === undefined || typeof value === "boolean") return;
+  if (Array.isArray(value)) {
+    for (const item of value) appendTextValue(nodes, item);
+    return;
+  }
+  if (typeof value === "string" || typeof value === "number" || value instanceof SafeUrl) {
+    nodes.push(text(String(value)));
+    return;
+  }
+  nodes.push(value);
+}
+
+function appendRawTextValue(nodes: Node[], value: TemplateValue): void {
+  if (value === null || value === undefined || typeof value === "boolean") return;
+  if (Array.isArray(value)) {
+    for (const item of value) appendRawTextValue(nodes, item);
+    return;
+  }
+  if (typeof value === "string" || typeof value === "number" || value instanceof SafeUrl) {
+    throw new Error(
+      "nodx: only nodes such as json() can be interpolated in <script> and <style> content of an htmlx template",
+    );
+  }
+  nodes.push(value);
+}
+
+function appendAttribute(
+  nodes: Node[],
+  attribute: HtmlAttribute,
+  values: TemplateValue[],
+): void {
+  const nameIndex = wholePlaceholder(attribute.name);
+  if (nameIndex !== undefined && attribute.value === true) {
+    appendAttributeNodes(nodes, values[nameIndex]);
+    return;
+  }
+  if (hasPlaceholder(attribute.name)) {
+    throw new Error("nodx: values cannot be interpolated in attribute names of an htmlx template");
+  }
+
+  if (attribute.value === true) {
+    nodes.push(attr(attribute.name, true));
+    return;
+  }
+
+  if (hasPlaceholder(attribute.value)) {
+    checkCodeAttribute(attribute.name);
+  }
+
+  const valueIndex = wholePlaceholder(attribute.value);
+  if (valueIndex !== undefined) {
+    const value = values[valueIndex];
+    if (value === null || value === undefined || value === false) return;
+    if (value === true || value instanceof SafeUrl) {
+      nodes.push(attr(attribute.name, value));
+      return;
+    }
+    nodes.push(attr(attribute.name, attributeText(value)));
+    return;
+  }
+
+  let value = "";
+  splitPlaceholders(
+    attribute.value,
+    (part) => {
+      value += part;
+    },
+    (index) => {
+      const interpolated = values[index];
+      if (interpolated === null || interpolated === undefined || typeof interpolated === "boolean") {
+        return;
+      }
+      value += attributeText(interpolated);
+    },
+  );
+  nodes.push(attr(attribute.name, value));
+}
+
+/**
+ * Rejects values in the attributes whose value is code or markup, which HTML escaping does not
+ * protect.
+ */
+function checkCodeAttribute(name: string): void {
+  const key = name.toLowerCase();
+  if (key.startsWith("on")) {
+    throw new Error(
+      `nodx: values cannot be interpolated in the ${key} event handler attribute of an htmlx template`,
+    );
+  }
+  if (key === "style") {
+    throw new Error(
+      "nodx: values cannot be interpolated in style attributes of an htmlx template, insert a stylex() node in place of the attribute",
+    );
+  }
+  if (key === "srcdoc") {
+    throw new Error(
+      "nodx: values cannot be interpolated in srcdoc attributes of an htmlx template, their markup is parsed as a document",
+    );
+  }
+}
+
+function appendAttributeNodes(nodes: Node[], value: TemplateValue): void {
+  if (value === null || value === undefined || value === false) return;
+  if (Array.isArray(value)) {
+    for (const item of value) appendAttributeNodes(nodes, item);
+    return;
+  }
+  if (typeof value !== "object" || value instanceof SafeUrl) {
+    throw new Error(
+      "nodx: only attribute nodes such as attr() can be interpolated in place of an attribute of an htmlx template",
+    );
+  }
+  nodes.push(value);
+}
+
+/**
+ * Turns a value interpolated in an attribute value into text.
+ */
+function attributeText(value: Exclude<TemplateValue, null | undefined | boolean>): string {
+  if (Array.isArray(value)) {
+    const parts: string[] = [];
+    for (const item of value) {
+      if (item === null || item === undefined || typeof item === "boolean") continue;
+      parts.push(attributeText(item));
+    }
+    return parts.join(" ");
+  }
+  if (typeof value === "string" || typeof value === "number" || value instanceof SafeUrl) {
+    return String(value);
+  }
+  throw new Error("nodx: nodes cannot be interpolated in attribute values of an htmlx template");
+}
+
+function hasPlaceholder(value: string): boolean {
+  return value.includes("\uE000");
+}
+
+/**
+ * Returns the index of the value if the string is a single placeholder.
+ */
+function wholePlaceholder(value: string): number | undefined {
+  const match = /^\uE000(\d+)\uE001$/.exec(value);
+  return match === null ? undefined : Number(match[1]);
+}
+
+/**
+ * Splits a string into its static parts and the indexes of its placeholders, in order.
+ */
+function splitPlaceholders(
+  value: string,
+  onPart: (part: string) => void,
+  onValue: (index: number) => void,
+): void {
+  const pattern = new RegExp(placeholderPattern.source, "g");
+  let last = 0;
+  let match = pattern.exec(value);
+  while (match !== null) {
+    if (match.index > last) onPart(value.slice(last, match.index));
+    onValue(Number(match[1]));
+    last = match.index + match[0].length;
+    match = pattern.exec(value);
+  }
+  if (last < value.length) onPart(value.slice(last));
+}
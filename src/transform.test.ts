@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import { transform } from "./transform.js";
+import { a, div, img, li, main, p, section, span, ul } from "./elements.js";
+import { alt, href, src } from "./attributes.js";
+import {
+  asyncx,
+  attr,
+  createContext,
+  group,
+  ifx,
+  mapx,
+  Node,
+  NodeAttribute,
+  NodeElement,
+  NodeText,
+  renderAsync,
+  text,
+} from "./nodx.js";
+
+function isElement(node: Node, name: string): node is NodeElement {
+  return node instanceof NodeElement && node.name === name;
+}
+
+/**
+ * Builds the tree of a component that is not ours: a list of links and images.
+ */
+function component(items: string[]): Node {
+  return main(
+    attr("data-test", "main"),
+    ul(
+      mapx(items, (item) =>
+        li(
+          attr("data-test", `item-${item}`),
+          a(href(`https://${item}.example.com`), text(item)),
+          img(src(`/${item}.png`), alt(item)),
+        )
+      ),
+      li(a(href("/about"), text("About"))),
+    ),
+  );
+}
+
+/**
+ * Returns a snapshot of the structure of a tree, with the instances of every node.
+ */
+function snapshot(node: Node): unknown {
+  if (!(node instanceof NodeElement)) return node;
+  return { node, children: [...node.children], nested: node.children.map(snapshot) };
+}
+
+describe("transform", () => {
+  it("Adds attributes to matching elements", () => {
+    const tree = component(["one", "two"]);
+    const got = transform(tree, {
+      leave(node) {
+        if (isElement(node, "a") && /^https?:/.test(String(node.getAttribute("href")))) {
+          return node.withChildren([...node.children, attr("rel", "noopener")]);
+        }
+        if (isElement(node, "img")) {
+          return node.withChildren([...node.children, attr("loading", "lazy")]);
+        }
+      },
+    });
+    const expected =
+      '<main data-test="main"><ul>' +
+      '<li data-test="item-one"><a href="https://one.example.com" rel="noopener">one</a><img src="/one.png" alt="one" loading="lazy"></li>' +
+      '<li data-test="item-two"><a href="https://two.example.com" rel="noopener">two</a><img src="/two.png" alt="two" loading="lazy"></li>' +
+      '<li><a href="/about">About</a></li>' +
+      "</ul></main>";
+    expect(got.render()).toBe(expected);
+  });
+
+  it("Removes nodes", () => {
+    const tree = component(["one"]);
+    const got = transform(tree, {
+      enter(node) {
+        if (node instanceof NodeAttribute && node.name.startsWith("data-test")) return null;
+      },
+    });
+    const expected =
+      '<main><ul><li><a href="https://one.example.com">one</a><img src="/one.png" alt="one"></li><li><a href="/about">About</a></li></ul></main>';
+    expect(got.render()).toBe(expected);
+  });
+
+  it("Leaves the input tree unchanged", () => {
+    const tree = component(["one", "two"]);
+    const before = snapshot(tree);
+    const html = tree.render();
+
+    transform(tree, {
+      enter(node) {
+        if (node instanceof NodeAttribute) return null;
+      },
+      leave(node) {
+        if (isElement(node, "li")) return div(node);
+        if (node instanceof NodeText) return text("changed");
+      },
+    });
+
+    expect(snapshot(tree)).toEqual(before);
+    expect(tree.render()).toBe(html);
+  });
+
+  it("Shares the subtrees that do not change", () => {
+    const unchanged = p(text("unchanged"));
+    const changed = p(span(text("changed")));
+    const tree = div(unchanged, changed);
+    const got = transform(tree, {
+      enter(node) {
+        if (isElement(node, "span")) return text("replaced");
+      },
+    }) as NodeElement;
+
+    expect(got).not.toBe(tree);
+    expect(got.children[0]).toBe(unchanged);
+    expect(got.children[1]).not.toBe(changed);
+    expect(got.render()).toBe("<div><p>unchanged</p><p>replaced</p></div>");
+
+    expect(transform(tree, {})).toBe(tree);
+  });
+
+  it("Replaces nodes in enter without visiting the replacement", () => {
+    const visited: string[] = [];
+    const got = transform(div(p(text("a")), p(text("b"))), {
+      enter(node) {
+        if (node instanceof NodeElement) visited.push(node.name);
+        if (isElement(node, "p")) return p(p(text("nested")));
+      },
+    });
+    expect(got.render()).toBe("<div><p><p>nested</p></p><p><p>nested</p></p></div>");
+    expect(visited).toEqual(["div", "p", "p"]);
+  });
+
+  it("Wraps and replaces nodes with several nodes in leave", () => {
+    const tree = div(p(text("a")), p(text("b")));
+    const wrapped = transform(tree, {
+      leave(node) {
+        if (isElement(node, "p")) return section(node);
+      },
+    });
+    expect(wrapped.render()).toBe("<div><section><p>a</p></section><section><p>b</p></section></div>");
+
+    const split = transform(tree, {
+      leave(node) {
+        if (node instanceof NodeText) return [text("("), node, text(")")];
+      },
+    }) as NodeElement;
+    expect(split.render()).toBe("<div><p>(a)</p><p>(b)</p></div>");
+    expect((split.children[0] as NodeElement).children).toHaveLength(3);
+  });
+
+  it("Calls leave with the transformed children", () => {
+    const got = transform(ul(li(text("a")), li(text("b")), li(text("c"))), {
+      enter(node) {
+        if (node instanceof NodeText && node.render() === "b") return null;
+      },
+      leave(node) {
+        if (isElement(node, "ul")) return group(node, text(`${node.children.length} items`));
+      },
+    });
+    expect(got.render()).toBe("<ul><li>a</li><li></li><li>c</li></ul>3 items");
+  });
+
+  it("Returns a group when the root is removed or replaced with several nodes", () => {
+    expect(transform(div(), { enter: () => null }).render()).toBe("");
+    expect(transform(div(), { enter: () => [p(), span()] }).render()).toBe("<p></p><span></span>");
+  });
+
+  it("Walks groups, ifx and mapx fragments", () => {
+    const tree = div(
+      group(span(text("group"))),
+      ifx(true, span(text("if"))),
+      mapx(["a", "b"], (item) => span(text(item))),
+    );
+    const got = transform(tree, {
+      leave(node) {
+        if (isElement(node, "span")) return p(...node.children);
+      },
+    });
+    expect(got.render()).toBe("<div><p>group</p><p>if</p><p>a</p><p>b</p></div>");
+  });
+
+  it("Passes the ancestors of nodes without fragments", () => {
+    const ancestors: string[][] = [];
+    transform(div(group(ul(mapx(["a"], (item) => li(text(item)))))), {
+      enter(node, context) {
+        if (node instanceof NodeText) ancestors.push(context.ancestors.map((element) => element.name));
+        return undefined;
+      },
+    });
+    expect(ancestors).toEqual([["div", "ul", "li"]]);
+  });
+
+  it("Keeps context providers", () => {
+    const theme = createContext("light");
+    const tree = div(theme.provide("dark", p(theme.consume((value) => text(value)))));
+    const got = transform(tree, {
+      leave(node) {
+        if (isElement(node, "p")) return section(node);
+      },
+    });
+    expect(got.render()).toBe("<div><section><p>dark</p></section></div>");
+  });
+
+  it("Does not visit the content of async nodes", async () => {
+    const visited: Node[] = [];
+    const got = transform(div(asyncx(async () => p(text("async")))), {
+      enter(node) {
+        visited.push(node);
+        return undefined;
+      },
+    });
+    expect(visited).toHaveLength(2);
+    expect(await renderAsync(got)).toBe("<div><p>async</p></div>");
+  });
+});
@@ -0,0 +1,100 @@
+import { group, Node, NodeElement } from "./nodx.js";
+
+/**
+ * The context of a visited node, see `TransformVisitor`.
+ */
+export interface TransformContext {
+  /**
+   * The elements the node is nested in, from the root of the tree, without fragments. These are
+   * the elements of the original tree, before their children are transformed.
+   */
+  readonly ancestors: readonly NodeElement[];
+}
+
+/**
+ * The result of a visitor hook: a node replaces the visited node, a list of nodes replaces it
+ * with several nodes, `null` removes it and `undefined` keeps it.
+ */
+export type TransformResult = Node | Node[] | null | undefined;
+
+/**
+ * The hooks called by `transform()` for every node of a tree, in document order.
+ */
+export interface TransformVisitor {
+  /**
+   * Called before the children of the node are visited. If the node is replaced or removed,
+   * its children are not visited and `leave` is not called for it, and the replacement is not
+   * visited either.
+   */
+  enter?: (node: Node, context: TransformContext) => TransformResult;
+
+  /**
+   * Called after the children of the node are visited, with the node rebuilt from its
+   * transformed children. This is the hook to wrap a node, as the wrapper is not visited.
+   */
+  leave?: (node: Node, context: TransformContext) => TransformResult;
+}
+
+/**
+ * Transforms a tree and returns the transformed tree, leaving the original tree unchanged.
+ *
+ * Every node is visited: elements and their children, including the fragments created by
+ * `group()`, `ifx()`, `mapx()` and `Context.provide()`, attributes, texts and any other node.
+ * The content of async nodes, context consumers and custom nodes is not visited, as it is only
+ * known at render time.
+ *
+ * Elements whose children change are rebuilt with `NodeElement.withChildren()`, and the
+ * subtrees that do not change are shared with the original tree.
+ *
+ * Example usage:
+ * ```typescript
+ * const secured = transform(tree, {
+ *   leave(node) {
+ *     if (node instanceof NodeElement && node.name === "img") {
+ *       return node.withChildren([...node.children, attr("loading", "lazy")]);
+ *     }
+ *   },
+ * });
+ * ```
+ *
+ * @param {Node} node - The root of the tree.
+ * @param {TransformVisitor} visitor - The hooks called for every node.
+ * @returns {Node} The transformed tree, or a group if the root is replaced with several nodes
+ * or removed.
+ */
+export function transform(node: Node, visitor: TransformVisitor): Node {
+  const nodes = visit(node, visitor, []);
+  return nodes.length === 1 ? nodes[0] : group(...nodes);
+}
+
+function visit(
+  node: Node,
+  visitor: TransformVisitor,
+  ancestors: readonly NodeElement[],
+): Node[] {
+  const context: TransformContext = { ancestors };
+
+  const entered = visitor.enter?.(node, context);
+  if (entered !== undefined) return toNodes(entered);
+
+  let visited = node;
+  if (node instanceof NodeElement) {
+    const childAncestors = node.name === "" ? ancestors : [...ancestors, node];
+    const children: Node[] = [];
+    let changed = false;
+    for (const child of node.children) {
+      const transformed = visit(child, visitor, childAncestors);
+      if (transformed.length !== 1 || transformed[0] !== child) changed = true;
+      children.push(...transformed);
+    }
+    if (changed) visited = node.withChildren(children);
+  }
+
+  const left = visitor.leave?.(visited, context);
+  return left === undefined ? [visited] : toNodes(left);
+}
+
+function toNodes(result: Node | Node[] | null): Node[] {
+  if (result === null) return [];
+  return Array.isArray(result) ? result : [result];
+}